@@ -0,0 +1,441 @@
+/**
+ * SPF Validator CLI
+ *
+ * Validates the SPF records of one or more domains from the command
+ * line, for pipelines that change DNS:
+ *
+ *   deno run -A cli.ts example.com --resolver cloudflare --format text
+ *
+ * The exit code is the worst outcome across the domains: 0 when every
+ * record passes, 1 for warnings, 2 for errors (including no record and
+ * going over --max-lookups) and 3 when a DNS lookup failed. Bad
+ * arguments exit with 64.
+ */
+
+import { type BulkStatus, toBulkRow } from "./lib/bulk.ts";
+import { listResolvers, registerResolversFromEnv } from "./lib/dns.ts";
+import {
+  checkSpf,
+  formatMechanism,
+  MAX_DNS_LOOKUPS,
+  MAX_VOID_LOOKUPS,
+  type SpfMechanism,
+  type SpfResolution,
+  type SpfResult,
+} from "./lib/spf.ts";
+import { parseSpfRequest, SpfRequestError } from "./lib/spf_request.ts";
+
+const EXIT_PASS = 0;
+const EXIT_WARNINGS = 1;
+const EXIT_ERRORS = 2;
+const EXIT_DNS_FAILURE = 3;
+const EXIT_USAGE = 64;
+
+const FORMATS = ["text", "json", "junit"] as const;
+type OutputFormat = typeof FORMATS[number];
+
+interface CliOptions {
+  domains: string[];
+  resolver: string;
+  format: OutputFormat;
+  maxLookups: number;
+  ip?: string;
+  sender?: string;
+  helo?: string;
+}
+
+interface DomainReport {
+  domain: string;
+  status: BulkStatus;
+  exitCode: number;
+  result: SpfResult;
+}
+
+/**
+ * Help text, listing the resolvers registered when it's shown
+ */
+function usage(): string {
+  const resolvers = listResolvers().map((resolver) => resolver.name);
+  return `Usage: deno run -A cli.ts <domain>... [options]
+
+Options:
+  --resolver <name>     DNS resolver (${resolvers.join(", ")})
+  --format <format>     Output format: text, json or junit (default text)
+  --max-lookups <n>     Fail above n DNS lookups (default ${MAX_DNS_LOOKUPS})
+  --ip <address>        Sending IP to expand macros for
+  --sender <address>    MAIL FROM address for macros
+  --helo <name>         HELO name for macros
+  -h, --help            Show this help
+
+Exit codes: 0 pass, 1 warnings, 2 errors, 3 DNS failure, 64 bad arguments`;
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+function parseArgs(args: string[]): CliOptions | null {
+  const options: CliOptions = {
+    domains: [],
+    resolver: "google",
+    format: "text",
+    maxLookups: MAX_DNS_LOOKUPS,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "-h" || arg === "--help") return null;
+    if (!arg.startsWith("--")) {
+      options.domains.push(arg);
+      continue;
+    }
+
+    const [flag, inline] = arg.split(/=(.*)/s);
+    const value = inline ?? args[++i];
+    if (value === undefined) {
+      throw new UsageError(`Missing value for ${flag}`);
+    }
+
+    switch (flag) {
+      case "--resolver":
+        options.resolver = value;
+        break;
+      case "--format":
+        if (!FORMATS.includes(value as OutputFormat)) {
+          throw new UsageError(
+            `Invalid format: ${value}. Valid options: ${FORMATS.join(", ")}`,
+          );
+        }
+        options.format = value as OutputFormat;
+        break;
+      case "--max-lookups": {
+        const max = Number(value);
+        if (!Number.isInteger(max) || max < 0) {
+          throw new UsageError(`Invalid --max-lookups: ${value}`);
+        }
+        options.maxLookups = max;
+        break;
+      }
+      case "--ip":
+        options.ip = value;
+        break;
+      case "--sender":
+        options.sender = value;
+        break;
+      case "--helo":
+        options.helo = value;
+        break;
+      default:
+        throw new UsageError(`Unknown option: ${flag}`);
+    }
+  }
+
+  if (options.domains.length === 0) {
+    throw new UsageError("At least one domain is required");
+  }
+  return options;
+}
+
+const EXIT_CODES: Record<BulkStatus, number> = {
+  ok: EXIT_PASS,
+  warning: EXIT_WARNINGS,
+  error: EXIT_ERRORS,
+  none: EXIT_ERRORS,
+  failed: EXIT_DNS_FAILURE,
+};
+
+/**
+ * Whether an a, mx, ptr or exists lookup anywhere in the tree failed
+ */
+function hasFailedLookup(result: SpfResult): boolean {
+  return result.mechanisms.some((mechanism) =>
+    mechanism.resolved?.error !== undefined ||
+    (mechanism.expanded !== undefined && hasFailedLookup(mechanism.expanded))
+  );
+}
+
+async function checkDomain(
+  domain: string,
+  options: CliOptions,
+): Promise<DomainReport> {
+  const request = parseSpfRequest({
+    domain,
+    resolver: options.resolver,
+    ip: options.ip,
+    sender: options.sender,
+    helo: options.helo,
+  });
+  const result = await checkSpf(request.domain, request.options);
+
+  // checkSpf already flags going over the RFC limit
+  if (
+    result.lookupCount > options.maxLookups &&
+    result.lookupCount <= MAX_DNS_LOOKUPS
+  ) {
+    result.issues.push({
+      type: "error",
+      code: "lookup-budget-exceeded",
+      message:
+        `Too many DNS lookups: ${result.lookupCount} (--max-lookups allows ${options.maxLookups})`,
+    });
+  }
+
+  // A term that couldn't be resolved says nothing about the record
+  const status: BulkStatus = hasFailedLookup(result)
+    ? "failed"
+    : toBulkRow(result).status;
+  return {
+    domain: request.domain,
+    status,
+    exitCode: EXIT_CODES[status],
+    result,
+  };
+}
+
+const QUALIFIER_LABELS: Record<string, string> = {
+  "+": "Pass",
+  "-": "Fail",
+  "~": "SoftFail",
+  "?": "Neutral",
+};
+
+function formatResolution(resolution: SpfResolution): string {
+  let detail: string;
+  if (resolution.error) {
+    detail = `lookup failed: ${resolution.error}`;
+  } else if (resolution.void) {
+    detail = "void lookup (no records)";
+  } else if (resolution.hosts) {
+    detail = resolution.hosts
+      .map((h) => `${h.name} [${h.addresses.join(", ") || "no address"}]`)
+      .join("; ");
+  } else if (resolution.names) {
+    detail = resolution.names.join(", ");
+  } else {
+    detail = resolution.addresses.join(", ");
+  }
+  return `${resolution.target} → ${detail}`;
+}
+
+function issueLines(result: SpfResult, indent: string): string[] {
+  return result.issues.map((issue) =>
+    `${indent}${issue.type === "error" ? "Error" : "Warning"}: ${issue.message}`
+  );
+}
+
+/**
+ * The include tree as the validator page shows it: each term with its
+ * qualifier, then the DNS answers or the expanded record beneath it
+ */
+function treeLines(mechanisms: SpfMechanism[], depth: number): string[] {
+  const indent = "  ".repeat(depth);
+  const lines: string[] = [];
+  for (const mechanism of mechanisms) {
+    const term = formatMechanism({ ...mechanism, qualifier: "" });
+    const notes = [
+      mechanism.macro && "macro — not expandable statically",
+      mechanism.expanded?.cache &&
+      `${
+        mechanism.expanded.cache.hit ? "cached" : "fresh"
+      } · TTL ${mechanism.expanded.cache.ttl}s`,
+      mechanism.error,
+    ].filter(Boolean);
+    lines.push(
+      `${indent}${mechanism.qualifier} ${term} (${
+        QUALIFIER_LABELS[mechanism.qualifier] ?? ""
+      })${notes.length > 0 ? `  ${notes.join("  ")}` : ""}`,
+    );
+
+    if (mechanism.resolved) {
+      lines.push(`${indent}    ${formatResolution(mechanism.resolved)}`);
+    }
+    if (mechanism.expanded) {
+      lines.push(...issueLines(mechanism.expanded, `${indent}  | `));
+      lines.push(...treeLines(mechanism.expanded.mechanisms, depth + 1));
+    }
+  }
+  return lines;
+}
+
+const STATUS_LABELS: Record<BulkStatus, string> = {
+  ok: "PASS",
+  warning: "WARN",
+  error: "FAIL",
+  none: "FAIL",
+  failed: "DNS FAILURE",
+};
+
+function formatText(reports: DomainReport[], maxLookups: number): string {
+  return reports.map(({ domain, status, result }) =>
+    [
+      `${domain}: ${STATUS_LABELS[status]}`,
+      `  Record:       ${result.record ?? "No SPF record found"}`,
+      `  DNS lookups:  ${result.lookupCount}/${maxLookups}`,
+      `  Void lookups: ${result.voidLookupCount}/${MAX_VOID_LOOKUPS}`,
+      ...(result.mechanisms.length > 0
+        ? ["", ...treeLines(result.mechanisms, 1)]
+        : []),
+      ...(result.issues.length > 0 ? ["", ...issueLines(result, "  ")] : []),
+    ].join("\n")
+  ).join("\n\n") + "\n";
+}
+
+function escapeXml(text: string): string {
+  return text.replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
+
+function collectNodes(
+  result: SpfResult,
+  path: string[],
+  nodes: Array<{ path: string[]; result: SpfResult }>,
+) {
+  nodes.push({ path, result });
+  for (const mechanism of result.mechanisms) {
+    if (mechanism.expanded) {
+      collectNodes(
+        mechanism.expanded,
+        [...path, mechanism.expanded.domain],
+        nodes,
+      );
+    }
+  }
+}
+
+/**
+ * One test suite per domain and one test case per record in its tree.
+ * DNS failures are reported as errors, error issues as failures and
+ * warnings as test output.
+ */
+function formatJunit(reports: DomainReport[]): string {
+  const suites = reports.map(({ domain, result }) => {
+    const nodes: Array<{ path: string[]; result: SpfResult }> = [];
+    collectNodes(result, [domain], nodes);
+
+    let failures = 0;
+    let errors = 0;
+    const cases = nodes.map(({ path, result: node }) => {
+      const name = escapeXml(path.join(" > "));
+      const dnsFailure = node.issues.find((i) =>
+        i.code === "dns-lookup-failed"
+      );
+      const nodeErrors = node.issues.filter((i) =>
+        i.type === "error" && i !== dnsFailure
+      );
+      const warnings = node.issues.filter((i) => i.type === "warning");
+
+      const body: string[] = [];
+      if (dnsFailure) {
+        errors++;
+        body.push(
+          `      <error message="${escapeXml(dnsFailure.message)}"/>`,
+        );
+      } else if (nodeErrors.length > 0) {
+        failures++;
+        body.push(
+          `      <failure message="${escapeXml(nodeErrors[0].message)}">${
+            escapeXml(nodeErrors.map((i) => i.message).join("\n"))
+          }</failure>`,
+        );
+      }
+      if (warnings.length > 0) {
+        body.push(
+          `      <system-out>${
+            escapeXml(warnings.map((i) => `Warning: ${i.message}`).join("\n"))
+          }</system-out>`,
+        );
+      }
+
+      const time = (node.queryTime / 1000).toFixed(3);
+      return body.length > 0
+        ? `    <testcase classname="spf.${
+          escapeXml(domain)
+        }" name="${name}" time="${time}">\n${body.join("\n")}\n    </testcase>`
+        : `    <testcase classname="spf.${
+          escapeXml(domain)
+        }" name="${name}" time="${time}"/>`;
+    });
+
+    return `  <testsuite name="${
+      escapeXml(domain)
+    }" tests="${nodes.length}" failures="${failures}" errors="${errors}" time="${
+      (result.queryTime / 1000).toFixed(3)
+    }">\n${cases.join("\n")}\n  </testsuite>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<testsuites name="spf-validator">\n${
+    suites.join("\n")
+  }\n</testsuites>\n`;
+}
+
+export async function main(args: string[]): Promise<number> {
+  // Resolvers configured for the server are available here too
+  try {
+    registerResolversFromEnv();
+  } catch (err) {
+    console.error(
+      `Invalid DNS_RESOLVERS: ${err instanceof Error ? err.message : err}`,
+    );
+    return EXIT_USAGE;
+  }
+
+  let options: CliOptions | null;
+  try {
+    options = parseArgs(args);
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    console.error(`${err.message}\n\n${usage()}`);
+    return EXIT_USAGE;
+  }
+  if (!options) {
+    console.log(usage());
+    return EXIT_PASS;
+  }
+
+  const reports: DomainReport[] = [];
+  for (const domain of options.domains) {
+    try {
+      reports.push(await checkDomain(domain, options));
+    } catch (err) {
+      if (!(err instanceof SpfRequestError)) throw err;
+      console.error(`${domain}: ${err.message}`);
+      return EXIT_USAGE;
+    }
+  }
+
+  switch (options.format) {
+    case "json":
+      console.log(JSON.stringify(
+        reports.map(({ domain, status, exitCode, result }) => ({
+          domain,
+          status,
+          exitCode,
+          maxLookups: options.maxLookups,
+          result,
+        })),
+        null,
+        2,
+      ));
+      break;
+    case "junit":
+      await Deno.stdout.write(
+        new TextEncoder().encode(formatJunit(reports)),
+      );
+      break;
+    default:
+      await Deno.stdout.write(
+        new TextEncoder().encode(formatText(reports, options.maxLookups)),
+      );
+  }
+
+  return Math.max(...reports.map((report) => report.exitCode));
+}
+
+if (import.meta.main) {
+  Deno.exit(await main(Deno.args));
+}
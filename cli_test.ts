@@ -0,0 +1,80 @@
+import { assertEquals } from "@std/assert";
+import { main } from "./cli.ts";
+import { DnsError, type RecordType, registerResolver } from "./lib/dns.ts";
+
+// Answers by "<type> <name>"; an Error is thrown as the lookup failure
+const zone: Record<string, string[] | Error> = {
+  "TXT pass.example": ["v=spf1 ip4:192.0.2.0/24 -all"],
+  "TXT warning.example": ["v=spf1 ip4:192.0.2.0/24"],
+  "TXT error.example": ["v=spf1 include:missing.example -all"],
+  "TXT budget.example": ["v=spf1 a mx -all"],
+  "A budget.example": ["192.0.2.1"],
+  "MX budget.example": ["10 mail.budget.example"],
+  "A mail.budget.example": ["192.0.2.2"],
+  "TXT servfail.example": new DnsError("Server failure", 2),
+  "TXT mx-timeout.example": ["v=spf1 mx -all"],
+  "MX mx-timeout.example": new Error("timed out"),
+};
+
+registerResolver({
+  name: "cli-test",
+  label: "CLI test zone",
+  resolve(domain: string, type: RecordType) {
+    const answer = zone[`${type} ${domain}`];
+    if (answer instanceof Error) return Promise.reject(answer);
+    if (!answer) return Promise.reject(new DnsError("NXDOMAIN", 3));
+    return Promise.resolve({
+      answers: answer.map((data) => ({ name: domain, type, ttl: 0, data })),
+    });
+  },
+});
+
+/** Run the CLI against the test zone without printing its report */
+async function run(...args: string[]): Promise<number> {
+  const { log, error } = console;
+  console.log = console.error = () => {};
+  try {
+    return await main([...args, "--resolver", "cli-test", "--format", "json"]);
+  } finally {
+    console.log = log;
+    console.error = error;
+  }
+}
+
+Deno.test("cli exits 0 when every record passes", async () => {
+  assertEquals(await run("pass.example"), 0);
+});
+
+Deno.test("cli exits 1 for warnings", async () => {
+  assertEquals(await run("warning.example"), 1);
+});
+
+Deno.test("cli exits 2 for errors and for going over --max-lookups", async () => {
+  assertEquals(await run("error.example"), 2);
+  assertEquals(await run("budget.example"), 0);
+  assertEquals(await run("budget.example", "--max-lookups", "1"), 2);
+});
+
+Deno.test("cli exits 2 when a domain has no record", async () => {
+  assertEquals(await run("none.example"), 2);
+});
+
+Deno.test("cli exits 3 when the TXT lookup fails", async () => {
+  assertEquals(await run("servfail.example"), 3);
+});
+
+Deno.test("cli exits 3 when a lookup inside the tree fails", async () => {
+  assertEquals(await run("mx-timeout.example"), 3);
+});
+
+Deno.test("cli reports the worst outcome across domains", async () => {
+  assertEquals(await run("pass.example", "warning.example"), 1);
+  assertEquals(await run("mx-timeout.example", "error.example"), 3);
+});
+
+Deno.test("cli exits 64 for bad arguments", async () => {
+  assertEquals(await run(), 64);
+  assertEquals(await run("pass.example", "--format", "xml"), 64);
+  assertEquals(await run("pass.example", "--max-lookups", "x"), 64);
+  assertEquals(await run("-bad-"), 64);
+});
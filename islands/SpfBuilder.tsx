@@ -0,0 +1,409 @@
+import { useSignal } from "@preact/signals";
+import {
+  annotateProviders,
+  estimateTxtResponseSize,
+  findProvider,
+  LOOKUP_MECHANISMS,
+  MAX_DNS_LOOKUPS,
+  parseSpfRecord,
+  SPF_PROVIDERS,
+  type SpfMechanism,
+  type SpfValidationIssue,
+  splitTxtStrings,
+} from "../lib/spf/mod.ts";
+
+interface BuilderState {
+  a: boolean;
+  mx: boolean;
+  providers: string[];
+  includes: string;
+  ranges: string;
+  all: string;
+  redirect: string;
+  exp: string;
+}
+
+interface LookupEstimate {
+  lookups: number;
+  /** Includes without a cost in the catalog, counted as one lookup each */
+  unknown: string[];
+}
+
+const AllOptions = [
+  ["-", "-all (Fail, recommended)"],
+  ["~", "~all (SoftFail)"],
+  ["?", "?all (Neutral)"],
+  ["+", "+all (Pass, allows anyone)"],
+  ["", "No all (use redirect)"],
+] as const;
+
+function listEntries(text: string): string[] {
+  return text.split(/[\s,]+/).map((entry) => entry.trim()).filter(Boolean);
+}
+
+/**
+ * Assemble the record: own hosts first, then addresses, includes and
+ * the catch-all, with modifiers at the end
+ */
+function buildRecord(state: BuilderState): string {
+  const terms = ["v=spf1"];
+  if (state.a) terms.push("a");
+  if (state.mx) terms.push("mx");
+  for (const range of listEntries(state.ranges)) {
+    terms.push(
+      /^ip[46]:/i.test(range)
+        ? range
+        : `${range.includes(":") ? "ip6" : "ip4"}:${range}`,
+    );
+  }
+  for (const id of state.providers) {
+    const provider = SPF_PROVIDERS.find((p) => p.id === id);
+    if (provider) terms.push(`include:${provider.include}`);
+  }
+  for (const include of listEntries(state.includes)) {
+    terms.push(`include:${include.replace(/^include:/i, "")}`);
+  }
+  if (state.all) terms.push(`${state.all}all`);
+  if (state.redirect.trim()) terms.push(`redirect=${state.redirect.trim()}`);
+  if (state.exp.trim()) terms.push(`exp=${state.exp.trim()}`);
+  return terms.join(" ");
+}
+
+/**
+ * Estimate the DNS lookups of a record from the provider catalog,
+ * without querying DNS
+ */
+function estimateLookups(mechanisms: SpfMechanism[]): LookupEstimate {
+  let lookups = 0;
+  const unknown: string[] = [];
+  for (const mechanism of mechanisms) {
+    if (
+      !LOOKUP_MECHANISMS.includes(mechanism.type) || mechanism.error ||
+      (mechanism.modifier && mechanism.type !== "redirect")
+    ) {
+      continue;
+    }
+    if (mechanism.type !== "include" && mechanism.type !== "redirect") {
+      lookups++;
+      continue;
+    }
+    // The catalog only knows the cost of each provider's documented include
+    const provider = findProvider(mechanism.value);
+    const known = provider?.match === "include";
+    lookups += known ? provider.lookups : 1;
+    if (!known) unknown.push(mechanism.value);
+  }
+  return { lookups, unknown };
+}
+
+function getLookupCountColor(count: number): string {
+  if (count > 10) return "text-red-600 bg-red-50";
+  if (count > 7) return "text-yellow-600 bg-yellow-50";
+  return "text-green-600 bg-green-50";
+}
+
+export default function SpfBuilder() {
+  const domain = useSignal("");
+  const a = useSignal(false);
+  const mx = useSignal(true);
+  const providers = useSignal<string[]>([]);
+  const includes = useSignal("");
+  const ranges = useSignal("");
+  const all = useSignal("-");
+  const redirect = useSignal("");
+  const exp = useSignal("");
+
+  const record = buildRecord({
+    a: a.value,
+    mx: mx.value,
+    providers: providers.value,
+    includes: includes.value,
+    ranges: ranges.value,
+    all: all.value,
+    redirect: redirect.value,
+    exp: exp.value,
+  });
+  const parsed = parseSpfRecord(record);
+  const estimate = estimateLookups(parsed.mechanisms);
+  const strings = splitTxtStrings(record);
+  const name = domain.value.trim() || "example.com";
+  const responseSize = estimateTxtResponseSize(name, record);
+
+  // Retired or repeated provider includes, as a lookup would flag them
+  const { issues: providerIssues } = annotateProviders({
+    domain: name,
+    record,
+    version: parsed.version,
+    mechanisms: parsed.mechanisms,
+    lookupCount: 0,
+    voidLookupCount: 0,
+    issues: [],
+    queryTime: 0,
+  });
+
+  const issues: SpfValidationIssue[] = [...parsed.issues, ...providerIssues];
+  if (estimate.lookups > MAX_DNS_LOOKUPS) {
+    issues.push({
+      type: "error",
+      message:
+        `About ${estimate.lookups} DNS lookups (RFC 7208 allows max ${MAX_DNS_LOOKUPS})`,
+    });
+  }
+  if (responseSize > 512) {
+    issues.push({
+      type: "warning",
+      message:
+        `The DNS response is about ${responseSize} bytes, over 512, so some resolvers will retry over TCP`,
+    });
+  }
+
+  const handleValidate = () => {
+    const params = new URLSearchParams({ record });
+    if (domain.value.trim()) params.set("domain", domain.value.trim());
+    globalThis.location.href = `/?${params}`;
+  };
+
+  const toggleProvider = (id: string) => {
+    providers.value = providers.value.includes(id)
+      ? providers.value.filter((p) => p !== id)
+      : [...providers.value, id];
+  };
+
+  return (
+    <div class="w-full space-y-6">
+      <div class="bg-white rounded-lg shadow p-6 space-y-5">
+        <h2 class="text-lg font-semibold text-gray-800">
+          Build an SPF Record
+        </h2>
+
+        <div>
+          <label class="block text-sm font-medium text-gray-700 mb-1">
+            Domain (optional)
+          </label>
+          <input
+            type="text"
+            value={domain.value}
+            onInput={(
+              e,
+            ) => (domain.value = (e.target as HTMLInputElement).value)}
+            placeholder="example.com"
+            class="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+          />
+        </div>
+
+        <div>
+          <span class="block text-sm font-medium text-gray-700 mb-2">
+            Your own servers
+          </span>
+          <div class="flex flex-wrap gap-4 text-sm text-gray-700">
+            <label class="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={mx.value}
+                onChange={() => (mx.value = !mx.value)}
+              />
+              <span class="font-mono">mx</span> — the domain's mail servers
+            </label>
+            <label class="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={a.value}
+                onChange={() => (a.value = !a.value)}
+              />
+              <span class="font-mono">a</span> — the domain's own address
+            </label>
+          </div>
+        </div>
+
+        <div>
+          <span class="block text-sm font-medium text-gray-700 mb-2">
+            Providers that send for you
+          </span>
+          <div class="grid grid-cols-2 md:grid-cols-3 gap-2 text-sm">
+            {SPF_PROVIDERS.map((provider) => (
+              <label
+                key={provider.id}
+                class={`flex items-center gap-2 px-3 py-2 border rounded-md cursor-pointer ${
+                  providers.value.includes(provider.id)
+                    ? "border-blue-500 bg-blue-50"
+                    : "border-gray-200 hover:bg-gray-50"
+                }`}
+                title={`include:${provider.include}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={providers.value.includes(provider.id)}
+                  onChange={() => toggleProvider(provider.id)}
+                />
+                <span class="flex-1 text-gray-800">{provider.name}</span>
+                <span class="text-xs text-gray-400">
+                  {provider.lookups} lookup{provider.lookups === 1 ? "" : "s"}
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div class="grid md:grid-cols-2 gap-4">
+          <div>
+            <label class="block text-sm font-medium text-gray-700 mb-1">
+              IP ranges
+            </label>
+            <textarea
+              value={ranges.value}
+              onInput={(
+                e,
+              ) => (ranges.value = (e.target as HTMLTextAreaElement).value)}
+              placeholder={`192.0.2.0/24\n2001:db8::/32`}
+              rows={3}
+              class="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+            />
+          </div>
+          <div>
+            <label class="block text-sm font-medium text-gray-700 mb-1">
+              Other includes
+            </label>
+            <textarea
+              value={includes.value}
+              onInput={(
+                e,
+              ) => (includes.value = (e.target as HTMLTextAreaElement).value)}
+              placeholder="_spf.example.net"
+              rows={3}
+              class="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+            />
+          </div>
+        </div>
+
+        <div class="grid md:grid-cols-3 gap-4">
+          <div>
+            <label class="block text-sm font-medium text-gray-700 mb-1">
+              Everything else
+            </label>
+            <select
+              value={all.value}
+              onChange={(
+                e,
+              ) => (all.value = (e.target as HTMLSelectElement).value)}
+              class="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+            >
+              {AllOptions.map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label class="block text-sm font-medium text-gray-700 mb-1">
+              redirect=
+            </label>
+            <input
+              type="text"
+              value={redirect.value}
+              onInput={(
+                e,
+              ) => (redirect.value = (e.target as HTMLInputElement).value)}
+              placeholder="_spf.example.com"
+              class="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+            />
+          </div>
+          <div>
+            <label class="block text-sm font-medium text-gray-700 mb-1">
+              exp=
+            </label>
+            <input
+              type="text"
+              value={exp.value}
+              onInput={(
+                e,
+              ) => (exp.value = (e.target as HTMLInputElement).value)}
+              placeholder="explain._spf.%{d}"
+              class="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div class="bg-white rounded-lg shadow p-6 space-y-4">
+        <div class="flex items-center justify-between">
+          <h3 class="text-lg font-semibold text-gray-800">Record</h3>
+          <button
+            type="button"
+            onClick={handleValidate}
+            class="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Validate with DNS
+          </button>
+        </div>
+
+        <p class="font-mono text-sm bg-gray-50 rounded p-3 break-all">
+          {record}
+        </p>
+
+        <div class="grid md:grid-cols-2 gap-4">
+          <div>
+            <span class="text-sm text-gray-500">Estimated DNS Lookups</span>
+            <p
+              class={`font-mono text-sm p-2 rounded mt-1 ${
+                getLookupCountColor(estimate.lookups)
+              }`}
+            >
+              {estimate.lookups}
+              {estimate.unknown.length > 0 && "+"} / {MAX_DNS_LOOKUPS}
+            </p>
+            {estimate.unknown.length > 0 && (
+              <p class="text-xs text-gray-500 mt-1">
+                Counted as one lookup each, plus whatever they include:{" "}
+                <span class="font-mono">{estimate.unknown.join(", ")}</span>
+              </p>
+            )}
+          </div>
+          <div>
+            <span class="text-sm text-gray-500">Size</span>
+            <p class="font-mono text-sm p-2 rounded mt-1 bg-gray-50 text-gray-700">
+              {new TextEncoder().encode(record).length} bytes in{" "}
+              {strings.length} string{strings.length === 1 ? "" : "s"}
+            </p>
+          </div>
+        </div>
+
+        {strings.length > 1 && (
+          <div>
+            <span class="text-sm text-gray-500">
+              TXT strings (255 bytes max each; publish them as one record)
+            </span>
+            <div class="mt-1 space-y-1">
+              {strings.map((text, i) => (
+                <div
+                  key={i}
+                  class="flex gap-3 font-mono text-sm bg-gray-50 rounded p-2"
+                >
+                  <span class="text-gray-400 shrink-0">
+                    {new TextEncoder().encode(text).length}
+                  </span>
+                  <span class="break-all">"{text}"</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {issues.length > 0 && (
+          <div class="space-y-2">
+            {issues.map((issue, i) => (
+              <div
+                key={i}
+                class={`text-sm p-2 rounded ${
+                  issue.type === "error"
+                    ? "bg-red-50 text-red-700"
+                    : "bg-yellow-50 text-yellow-700"
+                }`}
+              >
+                {issue.message}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,33 +1,261 @@
 import { useSignal } from "@preact/signals";
 import { useEffect } from "preact/hooks";
+import type {
+  SpfEvaluation,
+  SpfMechanism,
+  SpfProgressEvent,
+  SpfRecordCandidate,
+  SpfResolution,
+  SpfResult,
+  SpfValidationIssue,
+} from "../lib/spf/mod.ts";
+import {
+  buildSpfGraph,
+  formatGraphDot,
+  formatGraphMermaid,
+  graphEdgeLabel,
+  graphNodeColors,
+  graphNodeLines,
+  lookupCost,
+  type SpfGraph,
+} from "../lib/graph.ts";
 
-interface SpfMechanism {
-  type: string;
+interface SpfIpRange {
+  cidr: string;
+  version: 4 | 6;
   qualifier: string;
-  value: string;
-  expanded?: SpfResult;
+  term: string;
+  domain: string;
+  path: string[];
 }
 
-interface SpfValidationIssue {
-  type: "error" | "warning";
-  message: string;
+interface SpfIpBlocks {
+  qualifier: string;
+  ipv4: string[];
+  ipv6: string[];
+  ipv4Count: number;
+  ipv6Count: string;
 }
 
-interface SpfResult {
+interface SpfIpSet {
   domain: string;
-  record: string | null;
-  version: string | null;
-  mechanisms: SpfMechanism[];
+  ranges: SpfIpRange[];
+  blocks: SpfIpBlocks[];
+  unresolved: Array<{
+    term: string;
+    domain: string;
+    path: string[];
+    reason: string;
+  }>;
+}
+
+interface SpfFlattenResult {
+  domain: string;
+  records: Array<{ name: string; value: string; responseSize: number }>;
   lookupCount: number;
+  zone: string;
+  diff: Array<{ op: " " | "-" | "+"; text: string }>;
+  kept: string[];
+  issues: SpfValidationIssue[];
+}
+
+interface DmarcUri {
+  uri: string;
+  domain: string | null;
+  external: boolean;
+  authorized?: boolean;
+}
+
+interface DmarcResult {
+  domain: string;
+  organizationalDomain: string;
+  recordDomain: string | null;
+  record: {
+    raw: string;
+    policy: string | null;
+    subdomainPolicy: string | null;
+    pct: number;
+    adkim: "r" | "s";
+    aspf: "r" | "s";
+    rua: DmarcUri[];
+    ruf: DmarcUri[];
+  } | null;
+  effectivePolicy: string | null;
+  alignment: {
+    mode: "r" | "s";
+    mailFromDomain: string;
+    aligned: boolean;
+    dmarcPass?: boolean;
+    explanation: string[];
+  } | null;
   issues: SpfValidationIssue[];
+}
+
+interface DkimResult {
+  selector: string;
+  name: string;
+  record: {
+    raw: string;
+    key: { type: string; bits: number | null; revoked: boolean };
+    flags: string[];
+  } | null;
+  issues: SpfValidationIssue[];
+}
+
+interface MtaStsResult {
+  domain: string;
+  record: string | null;
+  policyUrl: string;
+  policy: { raw: string; mode: string | null; maxAge: number | null } | null;
+  mx: Array<{ host: string; preference: number; pattern: string | null }>;
+  tlsRpt: { raw: string; rua: string[] } | null;
+  issues: SpfValidationIssue[];
+}
+
+interface SpfCompareNode {
+  path: string[];
+  domain: string;
+  states: Array<{
+    resolver: string;
+    status: "ok" | "none" | "nxdomain" | "error" | "absent";
+    record: string | null;
+    ttl: number | null;
+    error?: string;
+  }>;
+  differences: Array<"status" | "record" | "ttl">;
+}
+
+interface SpfCompareResult {
+  domain: string;
+  resolvers: string[];
+  nodes: SpfCompareNode[];
+  consistent: boolean;
+}
+
+interface SpfHistoryEntry {
+  snapshot: {
+    resolver: string;
+    timestamp: number;
+    lastChecked: number;
+    lookupCount: number;
+  };
+  diff: {
+    lookupCountDelta: number;
+    nodes: Array<{
+      path: string[];
+      change: "added" | "removed" | "changed";
+      addedTerms: string[];
+      removedTerms: string[];
+    }>;
+  } | null;
+}
+
+type BulkStatus = "ok" | "warning" | "error" | "none" | "failed";
+
+interface BulkResultRow {
+  domain: string;
+  status: BulkStatus;
+  record: string | null;
+  lookupCount: number;
+  voidLookupCount: number;
+  errors: number;
+  warnings: number;
+  issues: string[];
   queryTime: number;
 }
 
-const Resolvers = [
-  { value: "google", label: "Google DNS (DoH)" },
-  { value: "cloudflare", label: "Cloudflare DNS (DoH)" },
+interface BulkSummary {
+  total: number;
+  byStatus: Record<BulkStatus, number>;
+  worst: Array<{ domain: string; lookupCount: number; status: BulkStatus }>;
+  invalid: string[];
+}
+
+interface ResolverOption {
+  name: string;
+  label: string;
+}
+
+const DefaultResolvers: ResolverOption[] = [
+  { name: "google", label: "Google DNS (DoH)" },
+  { name: "cloudflare", label: "Cloudflare DNS (DoH)" },
 ];
 
+/**
+ * Parse "domain: record" lines into a map of hypothetical include records
+ */
+function parseIncludeRecords(text: string): Record<string, string> {
+  const records: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const match = line.match(/^\s*([^\s:]+)\s*:?\s*(.*)$/);
+    if (match && match[2]) records[match[1]] = match[2].trim();
+  }
+  return records;
+}
+
+/**
+ * Split buffered Server-Sent Events text into complete events, returning
+ * the unfinished remainder
+ */
+function parseServerEvents(
+  buffer: string,
+): { events: Array<{ event: string; data: string }>; rest: string } {
+  const blocks = buffer.split("\n\n");
+  const rest = blocks.pop() ?? "";
+  const events = blocks.map((block) => {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event: ")) event = line.slice(7);
+      else if (line.startsWith("data: ")) data.push(line.slice(6));
+    }
+    return { event, data: data.join("\n") };
+  });
+  return { events, rest };
+}
+
+/**
+ * Add a streamed node to the partially expanded tree. Includes are
+ * expanded in record order, so a node belongs to the first include or
+ * redirect of its parent that hasn't been expanded yet.
+ */
+function applyProgress(
+  root: SpfResult | null,
+  progress: SpfProgressEvent,
+): SpfResult | null {
+  const node: SpfResult = {
+    domain: progress.domain,
+    record: progress.record,
+    version: progress.record ? "spf1" : null,
+    mechanisms: progress.mechanisms ?? [],
+    lookupCount: progress.lookupCount,
+    voidLookupCount: 0,
+    issues: progress.issues,
+    queryTime: progress.queryTime,
+  };
+  if (progress.path.length === 1) return node;
+
+  let parent = root;
+  for (const domain of progress.path.slice(1, -1)) {
+    parent = parent?.mechanisms.find((m) =>
+      m.expanded?.domain === domain && m.expanded.record !== null
+    )?.expanded ?? null;
+  }
+  if (!root || !parent) return root;
+
+  const index = parent.mechanisms.findIndex((m) =>
+    (m.type === "include" || m.type === "redirect") && !m.macro &&
+    !m.error &&
+    (!m.expanded ||
+      (progress.type === "parsed" && m.expanded.domain === progress.domain &&
+        m.expanded.record !== null && m.expanded.mechanisms.length === 0))
+  );
+  if (index >= 0) {
+    parent.mechanisms[index] = { ...parent.mechanisms[index], expanded: node };
+  }
+  return root;
+}
+
 function parseHash(hash: string): string | null {
   const match = hash.match(/^#(.+?)\/?\s*$/);
   if (!match) return null;
@@ -72,36 +300,292 @@ function getQualifierLabel(qualifier: string): string {
   }
 }
 
+function getEvaluationColor(result: string): string {
+  switch (result) {
+    case "pass":
+      return "text-green-700 bg-green-50 border-green-200";
+    case "fail":
+    case "permerror":
+      return "text-red-700 bg-red-50 border-red-200";
+    case "softfail":
+    case "temperror":
+      return "text-yellow-700 bg-yellow-50 border-yellow-200";
+    default:
+      return "text-gray-700 bg-gray-50 border-gray-200";
+  }
+}
+
+function ResolutionDisplay({
+  resolution,
+  indent,
+}: {
+  resolution: SpfResolution;
+  indent: number;
+}) {
+  let detail: string;
+  if (resolution.error) {
+    detail = `lookup failed: ${resolution.error}`;
+  } else if (resolution.void) {
+    detail = "void lookup (no records)";
+  } else if (resolution.hosts) {
+    detail = resolution.hosts
+      .map((h) => `${h.name} [${h.addresses.join(", ") || "no address"}]`)
+      .join("; ");
+  } else if (resolution.names) {
+    detail = resolution.names.join(", ");
+  } else {
+    detail = resolution.addresses.join(", ");
+  }
+
+  return (
+    <div
+      class={`font-mono text-xs pb-1 break-all ${
+        resolution.error || resolution.void ? "text-red-500" : "text-gray-500"
+      }`}
+      style={{ marginLeft: `${indent}px` }}
+    >
+      {resolution.target} → {detail}
+    </div>
+  );
+}
+
+function CacheBadge({ cache }: { cache?: { hit: boolean; ttl: number } }) {
+  if (!cache) return null;
+  return (
+    <span
+      class={`text-xs px-1 rounded ${
+        cache.hit ? "bg-green-50 text-green-700" : "bg-gray-100 text-gray-500"
+      }`}
+      title={`Cached TXT answer expires in ${cache.ttl}s`}
+    >
+      {cache.hit ? "cached" : "fresh"} · TTL {cache.ttl}s
+    </span>
+  );
+}
+
+/**
+ * Render a record with the spans of its issues underlined
+ */
+function RecordText(
+  { record, issues }: { record: string; issues: SpfValidationIssue[] },
+) {
+  const severity = new Array<number>(record.length).fill(0);
+  for (const issue of issues) {
+    if (issue.start === undefined || issue.end === undefined) continue;
+    const level = issue.type === "error" ? 2 : 1;
+    for (let i = issue.start; i < issue.end && i < record.length; i++) {
+      severity[i] = Math.max(severity[i], level);
+    }
+  }
+
+  const segments: Array<{ text: string; level: number; start: number }> = [];
+  for (let i = 0; i < record.length; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.level === severity[i]) last.text += record[i];
+    else segments.push({ text: record[i], level: severity[i], start: i });
+  }
+
+  const underline = [
+    "",
+    "underline decoration-wavy decoration-yellow-500",
+    "underline decoration-wavy decoration-red-500",
+  ];
+  const messagesAt = (start: number, end: number) =>
+    issues
+      .filter((issue) =>
+        issue.start !== undefined && issue.end !== undefined &&
+        issue.start < end && issue.end > start
+      )
+      .map((issue) => issue.message)
+      .join("\n");
+
+  return (
+    <>
+      {segments.map((segment, i) => (
+        <span
+          key={i}
+          class={underline[segment.level]}
+          title={segment.level > 0
+            ? messagesAt(segment.start, segment.start + segment.text.length)
+            : undefined}
+        >
+          {segment.text}
+        </span>
+      ))}
+    </>
+  );
+}
+
+const CandidateLabels: Record<SpfRecordCandidate["status"], string> = {
+  selected: "SPF record",
+  competing: "Competing SPF record",
+  lookalike: "Not a valid SPF record",
+  legacy: "SPF type (99)",
+  other: "Other TXT",
+};
+
+const CandidateColors: Record<SpfRecordCandidate["status"], string> = {
+  selected: "bg-green-100 text-green-700",
+  competing: "bg-red-100 text-red-700",
+  lookalike: "bg-yellow-100 text-yellow-700",
+  legacy: "bg-yellow-100 text-yellow-700",
+  other: "bg-gray-100 text-gray-600",
+};
+
+function CandidateList(
+  { candidates }: { candidates: SpfRecordCandidate[] },
+) {
+  return (
+    <div class="mt-1 space-y-1">
+      {candidates.map((candidate, i) => (
+        <div key={i} class="flex items-start gap-2 text-sm">
+          <span
+            class={`px-2 py-0.5 rounded text-xs font-medium whitespace-nowrap ${
+              CandidateColors[candidate.status]
+            }`}
+          >
+            {CandidateLabels[candidate.status]}
+          </span>
+          <span class="font-mono text-gray-700 break-all">
+            {candidate.text}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const ProviderMatchColors = {
+  include: "bg-indigo-50 text-indigo-700",
+  alias: "bg-indigo-50 text-indigo-700",
+  range: "bg-gray-100 text-gray-600",
+  deprecated: "bg-yellow-50 text-yellow-700",
+};
+
+const LookupCostColors = {
+  low: "text-gray-500",
+  medium: "text-yellow-600",
+  high: "text-red-600",
+};
+
 function MechanismDisplay({
   mechanism,
   depth = 0,
+  path,
+  highlight,
+  dropped,
+  onToggle,
 }: {
   mechanism: SpfMechanism;
   depth?: number;
+  path: number[];
+  highlight: number[] | null;
+  /** Include targets dropped in the what-if simulation */
+  dropped: string[];
+  onToggle?: (target: string) => void;
 }) {
-  const isExpanded = mechanism.type === "include" && mechanism.expanded;
+  const isExpanded =
+    (mechanism.type === "include" || mechanism.type === "redirect") &&
+    mechanism.expanded;
   const indent = depth * 16;
+  const isMatch = highlight !== null &&
+    highlight.length === path.length &&
+    highlight.every((index, i) => index === path[i]);
+  const target = mechanism.value.toLowerCase();
+  const canToggle = onToggle && mechanism.type === "include" &&
+    !mechanism.macro && !mechanism.error && target;
+  const isDropped = mechanism.type === "include" && dropped.includes(target);
+  const cost = isExpanded ? mechanism.expanded?.cost : undefined;
 
   return (
-    <div>
+    <div class={isDropped ? "opacity-50" : ""}>
       <div
-        class="flex items-start gap-2 py-1 font-mono text-sm"
+        class={`flex items-start gap-2 py-1 font-mono text-sm ${
+          isMatch ? "bg-blue-100 rounded ring-1 ring-blue-300" : ""
+        } ${isDropped ? "line-through" : ""}`}
         style={{ marginLeft: `${indent}px` }}
       >
+        {canToggle && (
+          <input
+            type="checkbox"
+            checked={!isDropped}
+            onChange={() => onToggle(target)}
+            title="Keep this include in the what-if simulation"
+            class="mt-1"
+          />
+        )}
         <span class={`font-bold ${getQualifierColor(mechanism.qualifier)}`}>
           {mechanism.qualifier}
         </span>
-        <span class="text-blue-600">{mechanism.type}</span>
+        <span
+          class={`text-blue-600 ${
+            mechanism.error
+              ? "underline decoration-wavy decoration-red-500"
+              : ""
+          }`}
+        >
+          {mechanism.type}
+        </span>
         {mechanism.value && (
           <>
-            <span class="text-gray-400">:</span>
-            <span class="text-gray-800">{mechanism.value}</span>
+            {!mechanism.value.startsWith("/") && (
+              <span class="text-gray-400">
+                {mechanism.modifier ? "=" : ":"}
+              </span>
+            )}
+            <span
+              class={`text-gray-800 ${
+                mechanism.error
+                  ? "underline decoration-wavy decoration-red-500"
+                  : ""
+              }`}
+            >
+              {mechanism.value}
+            </span>
           </>
         )}
         <span class="text-gray-400 text-xs ml-2">
           ({getQualifierLabel(mechanism.qualifier)})
         </span>
+        {mechanism.provider && (
+          <span
+            class={`px-1.5 rounded text-xs font-sans ${
+              ProviderMatchColors[mechanism.provider.match]
+            }`}
+            title={mechanism.provider.match === "deprecated"
+              ? `Retired include; use include:${mechanism.provider.include}`
+              : `Documented include: include:${mechanism.provider.include}`}
+          >
+            {mechanism.provider.name} · {mechanism.provider.purpose}
+          </span>
+        )}
+        {mechanism.macro && (
+          <span class="text-purple-600 text-xs">
+            macro — not expandable statically
+          </span>
+        )}
+        {cost && (
+          <span class={`text-xs ${LookupCostColors[lookupCost(cost.lookups)]}`}>
+            {cost.lookups} lookup{cost.lookups === 1 ? "" : "s"} ·{" "}
+            {Math.round(cost.share * 100)}% of budget
+          </span>
+        )}
+        {isExpanded && mechanism.expanded && (
+          <CacheBadge cache={mechanism.expanded.cache} />
+        )}
+        {isMatch && (
+          <span class="text-blue-700 text-xs font-medium">← matched</span>
+        )}
+        {mechanism.error && (
+          <span class="text-red-600 text-xs">{mechanism.error}</span>
+        )}
       </div>
+      {mechanism.resolved && (
+        <ResolutionDisplay
+          resolution={mechanism.resolved}
+          indent={indent + 24}
+        />
+      )}
       {isExpanded && mechanism.expanded && (
         <div class="border-l-2 border-gray-200 ml-2">
           {mechanism.expanded.issues.length > 0 && (
@@ -120,63 +604,1479 @@ function MechanismDisplay({
             </div>
           )}
           {mechanism.expanded.mechanisms.map((m, i) => (
-            <MechanismDisplay key={i} mechanism={m} depth={depth + 1} />
+            <MechanismDisplay
+              key={i}
+              mechanism={m}
+              depth={depth + 1}
+              path={[...path, i]}
+              highlight={highlight}
+              dropped={dropped}
+              onToggle={onToggle}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const GraphNodeWidth = 180;
+const GraphNodeHeight = 52;
+const GraphGapX = 28;
+const GraphGapY = 72;
+
+interface GraphPosition {
+  x: number;
+  y: number;
+}
+
+/**
+ * Place nodes in rows by their distance from the queried domain along
+ * the includes that were followed, in the order they were first included.
+ * Domains only reached by a failed include go below its record.
+ */
+function layoutGraph(graph: SpfGraph) {
+  const depth = new Map<string, number>([[graph.nodes[0].id, 0]]);
+  const queue = [graph.nodes[0].id];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const edge of graph.edges) {
+      if (edge.from === id && !edge.error && !depth.has(edge.to)) {
+        depth.set(edge.to, depth.get(id)! + 1);
+        queue.push(edge.to);
+      }
+    }
+  }
+  for (const edge of graph.edges) {
+    if (!depth.has(edge.to)) {
+      depth.set(edge.to, (depth.get(edge.from) ?? 0) + 1);
+    }
+  }
+
+  const rows: string[][] = [];
+  for (const node of graph.nodes) {
+    (rows[depth.get(node.id) ?? 0] ??= []).push(node.id);
+  }
+  const columns = Math.max(...rows.map((row) => row.length));
+  const width = columns * (GraphNodeWidth + GraphGapX) + GraphGapX;
+
+  const positions = new Map<string, GraphPosition>();
+  rows.forEach((row, level) => {
+    const rowWidth = row.length * (GraphNodeWidth + GraphGapX) - GraphGapX;
+    row.forEach((id, i) => {
+      positions.set(id, {
+        x: (width - rowWidth) / 2 + i * (GraphNodeWidth + GraphGapX),
+        y: GraphGapY / 2 + level * (GraphNodeHeight + GraphGapY),
+      });
+    });
+  });
+
+  return {
+    positions,
+    width,
+    height: rows.length * (GraphNodeHeight + GraphGapY),
+  };
+}
+
+/**
+ * Downward edges run from the bottom of a node to the top of the next
+ * row; edges back up the tree or within a row loop round the right side
+ */
+function graphEdgePath(from: GraphPosition, to: GraphPosition) {
+  if (to.y > from.y) {
+    const x1 = from.x + GraphNodeWidth / 2;
+    const y1 = from.y + GraphNodeHeight;
+    const x2 = to.x + GraphNodeWidth / 2;
+    const y2 = to.y;
+    return {
+      d: `M ${x1} ${y1} C ${x1} ${y1 + GraphGapY / 2}, ${x2} ${
+        y2 - GraphGapY / 2
+      }, ${x2} ${y2}`,
+      label: { x: (x1 + x2) / 2, y: (y1 + y2) / 2 },
+    };
+  }
+
+  const x1 = from.x + GraphNodeWidth;
+  const y1 = from.y + GraphNodeHeight / 2;
+  const x2 = to.x + GraphNodeWidth;
+  const y2 = to.y + GraphNodeHeight / 2;
+  const bend = Math.max(x1, x2) + GraphGapX * 1.5;
+  return {
+    d: `M ${x1} ${y1} C ${bend} ${y1}, ${bend} ${y2 - 16}, ${x2} ${y2 - 8}`,
+    label: { x: bend - 4, y: (y1 + y2) / 2 - 4 },
+  };
+}
+
+function downloadText(text: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function GraphDisplay({ result }: { result: SpfResult }) {
+  const graph = buildSpfGraph(result);
+  const { positions, width, height } = layoutGraph(graph);
+
+  return (
+    <div>
+      <div class="flex flex-wrap items-center gap-2 mb-4 text-sm">
+        <button
+          type="button"
+          onClick={() =>
+            downloadText(
+              formatGraphDot(graph),
+              `${graph.domain}-spf.dot`,
+              "text/vnd.graphviz",
+            )}
+          class="px-3 py-1 border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+        >
+          Export DOT
+        </button>
+        <button
+          type="button"
+          onClick={() =>
+            downloadText(
+              formatGraphMermaid(graph),
+              `${graph.domain}-spf.mmd`,
+              "text/plain",
+            )}
+          class="px-3 py-1 border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+        >
+          Export Mermaid
+        </button>
+        <span class="text-xs text-gray-500 ml-auto">
+          Fill shows issues, border the share of the 10-lookup budget
+        </span>
+      </div>
+
+      <div class="overflow-x-auto">
+        <svg
+          width={width + GraphGapX * 2}
+          height={height}
+          class="font-sans"
+          role="img"
+          aria-label={`Include graph for ${graph.domain}`}
+        >
+          <defs>
+            <marker
+              id="spf-graph-arrow"
+              viewBox="0 0 10 10"
+              refX="10"
+              refY="5"
+              markerWidth="6"
+              markerHeight="6"
+              orient="auto-start-reverse"
+            >
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#6b7280" />
+            </marker>
+          </defs>
+
+          {graph.edges.map((edge, i) => {
+            const { d, label } = graphEdgePath(
+              positions.get(edge.from)!,
+              positions.get(edge.to)!,
+            );
+            return (
+              <g key={i}>
+                <path
+                  d={d}
+                  fill="none"
+                  stroke={edge.error ? "#dc2626" : "#6b7280"}
+                  stroke-width={edge.type === "redirect" ? 2 : 1.5}
+                  stroke-dasharray={edge.error ? "4 3" : undefined}
+                  marker-end="url(#spf-graph-arrow)"
+                >
+                  {edge.error && <title>{edge.error}</title>}
+                </path>
+                <text
+                  x={label.x}
+                  y={label.y}
+                  text-anchor="middle"
+                  font-size="11"
+                  fill={edge.error ? "#dc2626" : "#374151"}
+                  stroke="#ffffff"
+                  stroke-width="3"
+                  paint-order="stroke"
+                  class="font-mono"
+                >
+                  {graphEdgeLabel(edge)}
+                </text>
+              </g>
+            );
+          })}
+
+          {graph.nodes.map((node) => {
+            const { x, y } = positions.get(node.id)!;
+            const colors = graphNodeColors(node);
+            const [domain, ...details] = graphNodeLines(node);
+            return (
+              <g key={node.id}>
+                <title>{node.record ?? "No SPF record"}</title>
+                <rect
+                  x={x}
+                  y={y}
+                  width={GraphNodeWidth}
+                  height={GraphNodeHeight}
+                  rx="6"
+                  fill={colors.fill}
+                  stroke={colors.stroke}
+                  stroke-width={colors.strokeWidth}
+                />
+                <text
+                  x={x + GraphNodeWidth / 2}
+                  y={y + 21}
+                  text-anchor="middle"
+                  font-size="12"
+                  font-weight="600"
+                  fill={colors.text}
+                  class="font-mono"
+                >
+                  {domain.length > 24 ? `${domain.slice(0, 23)}…` : domain}
+                </text>
+                <text
+                  x={x + GraphNodeWidth / 2}
+                  y={y + 39}
+                  text-anchor="middle"
+                  font-size="11"
+                  fill={colors.text}
+                >
+                  {details.join(" · ")}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    </div>
+  );
+}
+
+function IpSetDisplay(
+  { ips, exportParams }: { ips: SpfIpSet; exportParams: string },
+) {
+  return (
+    <div>
+      <div class="flex flex-wrap gap-2 mb-4 text-sm">
+        {(["text", "csv", "json"] as const).map((format) => (
+          <a
+            key={format}
+            href={`/api/spf/ips?${exportParams}&format=${format}`}
+            target="_blank"
+            class="px-3 py-1 border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+          >
+            Export {format.toUpperCase()}
+          </a>
+        ))}
+      </div>
+
+      {ips.blocks.length === 0 && (
+        <p class="text-sm text-gray-500">
+          No IP ranges are named by this record.
+        </p>
+      )}
+
+      {ips.blocks.map((block) => (
+        <div key={block.qualifier} class="mb-4">
+          <div class="flex items-center gap-2 mb-2">
+            <span
+              class={`px-2 py-0.5 rounded text-xs font-medium ${
+                getQualifierColor(block.qualifier)
+              }`}
+            >
+              {getQualifierLabel(block.qualifier)}
+            </span>
+            <span class="text-xs text-gray-500">
+              {block.ipv4Count.toLocaleString()} IPv4 addresses
+              {block.ipv6.length > 0 &&
+                `, ${BigInt(block.ipv6Count).toLocaleString()} IPv6 addresses`}
+            </span>
+          </div>
+          <div class="bg-gray-50 rounded p-3 font-mono text-sm break-all">
+            {[...block.ipv4, ...block.ipv6].join(" ")}
+          </div>
+        </div>
+      ))}
+
+      {ips.ranges.length > 0 && (
+        <details class="mt-4">
+          <summary class="text-sm text-gray-600 cursor-pointer">
+            Ranges by source ({ips.ranges.length})
+          </summary>
+          <table class="w-full text-sm mt-2">
+            <thead>
+              <tr class="text-left text-gray-500">
+                <th class="pb-2">Range</th>
+                <th class="pb-2">Term</th>
+                <th class="pb-2">Via</th>
+              </tr>
+            </thead>
+            <tbody class="text-gray-700">
+              {ips.ranges.map((range, i) => (
+                <tr key={i} class="border-t border-gray-100">
+                  <td class="py-1 font-mono">{range.cidr}</td>
+                  <td class="py-1 font-mono">{range.term}</td>
+                  <td class="py-1 text-gray-500">{range.path.join(" → ")}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </details>
+      )}
+
+      {ips.unresolved.length > 0 && (
+        <div class="mt-4 space-y-1">
+          {ips.unresolved.map((term, i) => (
+            <div
+              key={i}
+              class="text-sm p-2 rounded bg-yellow-50 text-yellow-700"
+            >
+              <span class="font-mono">{term.term}</span>{" "}
+              ({term.path.join(" → ")}): {term.reason}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function IssueList({ issues }: { issues: SpfValidationIssue[] }) {
+  if (issues.length === 0) return null;
+
+  return (
+    <div class="space-y-2">
+      {issues.map((issue, i) => (
+        <div
+          key={i}
+          class={`text-sm p-2 rounded ${
+            issue.type === "error"
+              ? "bg-red-50 text-red-700"
+              : "bg-yellow-50 text-yellow-700"
+          }`}
+        >
+          {issue.message}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function FlattenDisplay({ flattened }: { flattened: SpfFlattenResult }) {
+  const diffColors = {
+    " ": "text-gray-600",
+    "-": "text-red-700 bg-red-50",
+    "+": "text-green-700 bg-green-50",
+  };
+
+  return (
+    <div class="space-y-4">
+      <p class="text-sm text-gray-600">
+        {flattened.records.length}{" "}
+        {flattened.records.length === 1 ? "record" : "records"},{" "}
+        {flattened.lookupCount} DNS lookups
+        {flattened.kept.length > 0 &&
+          `; kept as written: ${flattened.kept.join(" ")}`}
+      </p>
+
+      <IssueList issues={flattened.issues} />
+
+      <div>
+        <h4 class="text-sm font-medium text-gray-700 mb-2">Zone entries</h4>
+        <pre class="bg-gray-50 rounded p-3 text-xs font-mono whitespace-pre-wrap break-all">
+          {flattened.zone}
+        </pre>
+      </div>
+
+      <div>
+        <h4 class="text-sm font-medium text-gray-700 mb-2">Changes</h4>
+        <div class="bg-gray-50 rounded p-3 text-xs font-mono break-all">
+          {flattened.diff.map((line, i) => (
+            <div key={i} class={diffColors[line.op]}>
+              {line.op} {line.text}
+            </div>
           ))}
         </div>
+      </div>
+    </div>
+  );
+}
+
+function DmarcDisplay({ dmarc }: { dmarc: DmarcResult }) {
+  const { record, alignment } = dmarc;
+  const modeLabel = (mode: "r" | "s") => mode === "s" ? "strict" : "relaxed";
+
+  return (
+    <div class="space-y-4">
+      {record && (
+        <>
+          <div>
+            <span class="text-sm text-gray-500">
+              TXT Record at _dmarc.{dmarc.recordDomain}
+              {dmarc.recordDomain !== dmarc.domain &&
+                " (organizational domain)"}
+            </span>
+            <pre class="font-mono text-sm bg-gray-50 p-3 rounded mt-1 break-all whitespace-pre-wrap">
+              {record.raw}
+            </pre>
+          </div>
+
+          <div class="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <span class="text-gray-500">Policy</span>
+              <p class="font-mono bg-gray-50 p-2 rounded mt-1">
+                {dmarc.effectivePolicy ?? "N/A"}
+                {record.pct < 100 && ` (${record.pct}%)`}
+              </p>
+            </div>
+            <div>
+              <span class="text-gray-500">Subdomain Policy</span>
+              <p class="font-mono bg-gray-50 p-2 rounded mt-1">
+                {record.subdomainPolicy ?? record.policy ?? "N/A"}
+              </p>
+            </div>
+            <div>
+              <span class="text-gray-500">SPF Alignment</span>
+              <p class="font-mono bg-gray-50 p-2 rounded mt-1">
+                {modeLabel(record.aspf)}
+              </p>
+            </div>
+            <div>
+              <span class="text-gray-500">DKIM Alignment</span>
+              <p class="font-mono bg-gray-50 p-2 rounded mt-1">
+                {modeLabel(record.adkim)}
+              </p>
+            </div>
+          </div>
+
+          {[...record.rua, ...record.ruf].length > 0 && (
+            <div>
+              <span class="text-sm text-gray-500">Report Destinations</span>
+              <ul class="mt-1 space-y-1 text-sm">
+                {(["rua", "ruf"] as const).flatMap((tag) =>
+                  record[tag].map((uri, i) => (
+                    <li key={`${tag}-${i}`} class="font-mono break-all">
+                      <span class="text-gray-500">{tag}</span> {uri.uri}
+                      {uri.external && (
+                        <span
+                          class={`ml-2 px-2 py-0.5 rounded text-xs ${
+                            uri.authorized
+                              ? "bg-green-100 text-green-800"
+                              : "bg-red-100 text-red-800"
+                          }`}
+                        >
+                          {uri.authorized ? "authorized" : "not authorized"}
+                        </span>
+                      )}
+                    </li>
+                  ))
+                )}
+              </ul>
+            </div>
+          )}
+        </>
       )}
+
+      {alignment && (
+        <div>
+          <span class="text-sm text-gray-500">
+            SPF and DMARC ({alignment.mailFromDomain})
+          </span>
+          <div
+            class={`text-sm p-3 rounded border mt-1 ${
+              alignment.dmarcPass === undefined
+                ? "bg-gray-50 text-gray-700 border-gray-200"
+                : getEvaluationColor(alignment.dmarcPass ? "pass" : "fail")
+            }`}
+          >
+            {alignment.explanation.map((line, i) => <p key={i}>{line}</p>)}
+          </div>
+        </div>
+      )}
+
+      <IssueList issues={dmarc.issues} />
     </div>
   );
 }
 
-export default function SpfValidator() {
-  const domain = useSignal("");
-  const resolver = useSignal("google");
-  const isLoading = useSignal(false);
-  const result = useSignal<SpfResult | null>(null);
-  const error = useSignal<string | null>(null);
-  const initialLoadDone = useSignal(false);
+function DkimDisplay({ results }: { results: DkimResult[] }) {
+  if (results.length === 0) {
+    return (
+      <p class="text-sm text-gray-500">
+        No key records found under common selectors.
+      </p>
+    );
+  }
+
+  return (
+    <div class="space-y-4">
+      {results.map((dkim) => (
+        <div key={dkim.selector}>
+          <div class="flex flex-wrap items-center gap-2 mb-1">
+            <span class="font-mono text-sm text-gray-800">{dkim.name}</span>
+            {dkim.record && (
+              <span class="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700">
+                {dkim.record.key.revoked
+                  ? "revoked"
+                  : `${dkim.record.key.type.toUpperCase()}${
+                    dkim.record.key.bits ? ` ${dkim.record.key.bits}-bit` : ""
+                  }`}
+              </span>
+            )}
+            {dkim.record?.flags.includes("y") && (
+              <span class="px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800">
+                testing
+              </span>
+            )}
+          </div>
+          {dkim.record && (
+            <pre class="font-mono text-xs bg-gray-50 p-2 rounded mb-2 break-all whitespace-pre-wrap">
+              {dkim.record.raw}
+            </pre>
+          )}
+          <IssueList issues={dkim.issues} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function MtaStsDisplay({ mtaSts }: { mtaSts: MtaStsResult }) {
+  return (
+    <div class="space-y-4">
+      <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <span class="text-sm text-gray-500">
+            MTA-STS Record at _mta-sts.{mtaSts.domain}
+          </span>
+          <pre class="font-mono text-sm bg-gray-50 p-2 rounded mt-1 break-all whitespace-pre-wrap">
+            {mtaSts.record ?? "None"}
+          </pre>
+        </div>
+        <div>
+          <span class="text-sm text-gray-500">
+            TLS-RPT Record at _smtp._tls.{mtaSts.domain}
+          </span>
+          <pre class="font-mono text-sm bg-gray-50 p-2 rounded mt-1 break-all whitespace-pre-wrap">
+            {mtaSts.tlsRpt?.raw ?? "None"}
+          </pre>
+        </div>
+      </div>
+
+      {mtaSts.policy && (
+        <div>
+          <span class="text-sm text-gray-500">
+            Policy at{" "}
+            <a
+              href={mtaSts.policyUrl}
+              target="_blank"
+              class="text-blue-600 hover:underline"
+            >
+              {mtaSts.policyUrl}
+            </a>
+          </span>
+          <pre class="font-mono text-xs bg-gray-50 p-2 rounded mt-1 whitespace-pre-wrap">
+            {mtaSts.policy.raw.trim()}
+          </pre>
+        </div>
+      )}
+
+      {mtaSts.mx.length > 0 && (
+        <table class="w-full text-sm">
+          <thead>
+            <tr class="text-left text-gray-500">
+              <th class="pb-2">MX Host</th>
+              <th class="pb-2">Policy Pattern</th>
+            </tr>
+          </thead>
+          <tbody class="text-gray-700">
+            {mtaSts.mx.map((mx) => (
+              <tr key={mx.host} class="border-t border-gray-100">
+                <td class="py-1 font-mono">
+                  {mx.preference} {mx.host}
+                </td>
+                <td
+                  class={`py-1 font-mono ${
+                    mx.pattern ? "text-green-700" : "text-red-700"
+                  }`}
+                >
+                  {mx.pattern ?? "no match"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <IssueList issues={mtaSts.issues} />
+    </div>
+  );
+}
+
+const NodeStatusLabels = {
+  ok: "",
+  none: "No SPF record",
+  nxdomain: "NXDOMAIN",
+  error: "Lookup failed",
+  absent: "Not in tree",
+};
+
+function CompareDisplay(
+  { compared, resolvers }: {
+    compared: SpfCompareResult;
+    resolvers: ResolverOption[];
+  },
+) {
+  const labelOf = (name: string) =>
+    resolvers.find((r) => r.name === name)?.label ?? name;
+  const changed = compared.nodes.filter((node) =>
+    node.differences.includes("status") || node.differences.includes("record")
+  );
+
+  return (
+    <div class="space-y-4">
+      <div
+        class={`text-sm p-3 rounded border ${
+          compared.consistent
+            ? "bg-green-50 text-green-700 border-green-200"
+            : "bg-red-50 text-red-700 border-red-200"
+        }`}
+      >
+        {compared.consistent
+          ? `All ${compared.resolvers.length} resolvers return the same records.`
+          : `${changed.length} of ${compared.nodes.length} records differ between resolvers.`}
+      </div>
+
+      <div class="overflow-x-auto">
+        <table class="w-full text-sm">
+          <thead>
+            <tr class="text-left text-gray-500">
+              <th class="pb-2 pr-4">Domain</th>
+              {compared.resolvers.map((name) => (
+                <th key={name} class="pb-2 pr-4">{labelOf(name)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody class="text-gray-700">
+            {compared.nodes.map((node) => {
+              const differs = node.differences.includes("status") ||
+                node.differences.includes("record");
+              return (
+                <tr
+                  key={node.path.join(" > ")}
+                  class={`border-t border-gray-100 align-top ${
+                    differs
+                      ? "bg-red-50"
+                      : node.differences.includes("ttl")
+                      ? "bg-yellow-50"
+                      : ""
+                  }`}
+                >
+                  <td
+                    class="py-2 pr-4 font-mono"
+                    style={{ paddingLeft: `${(node.path.length - 1) * 12}px` }}
+                  >
+                    {node.domain}
+                  </td>
+                  {node.states.map((state) => (
+                    <td key={state.resolver} class="py-2 pr-4">
+                      {state.status === "ok"
+                        ? (
+                          <span class="font-mono text-xs break-all">
+                            {state.record}
+                          </span>
+                        )
+                        : (
+                          <span
+                            class={state.status === "error"
+                              ? "text-red-700"
+                              : "text-gray-500"}
+                            title={state.error}
+                          >
+                            {NodeStatusLabels[state.status]}
+                          </span>
+                        )}
+                      {state.ttl !== null && (
+                        <span
+                          class={`block text-xs ${
+                            node.differences.includes("ttl")
+                              ? "text-yellow-700"
+                              : "text-gray-400"
+                          }`}
+                        >
+                          TTL {state.ttl}s
+                        </span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+const NodeChangeLabels = {
+  added: "now included",
+  removed: "no longer included",
+  changed: "changed",
+};
+
+function HistoryDisplay({ history }: { history: SpfHistoryEntry[] }) {
+  return (
+    <ol class="border-l-2 border-gray-200 ml-2 space-y-4">
+      {history.map(({ snapshot, diff }) => (
+        <li key={snapshot.timestamp} class="pl-4 relative">
+          <span class="absolute -left-[5px] top-1.5 w-2 h-2 rounded-full bg-gray-400" />
+          <div class="flex flex-wrap items-baseline gap-x-3 text-sm">
+            <span class="font-medium text-gray-800">
+              {new Date(snapshot.timestamp).toLocaleString()}
+            </span>
+            <span class="text-gray-500">
+              {snapshot.lookupCount} DNS lookups
+              {diff && diff.lookupCountDelta !== 0 && (
+                <span
+                  class={diff.lookupCountDelta > 0
+                    ? "text-red-600"
+                    : "text-green-600"}
+                >
+                  {` (${
+                    diff.lookupCountDelta > 0 ? "+" : ""
+                  }${diff.lookupCountDelta})`}
+                </span>
+              )}
+            </span>
+            {snapshot.lastChecked !== snapshot.timestamp && (
+              <span class="text-xs text-gray-400">
+                unchanged until{" "}
+                {new Date(snapshot.lastChecked).toLocaleString()}
+              </span>
+            )}
+          </div>
+
+          {!diff && <p class="text-xs text-gray-500">First recorded</p>}
+
+          {diff?.nodes.map((node) => (
+            <div key={node.path.join(" > ")} class="mt-1 text-sm">
+              <span class="font-mono text-gray-700">
+                {node.path.join(" → ")}
+              </span>{" "}
+              <span class="text-gray-500">{NodeChangeLabels[node.change]}</span>
+              <div class="font-mono text-xs">
+                {node.removedTerms.map((term, i) => (
+                  <div key={`-${i}`} class="text-red-700">- {term}</div>
+                ))}
+                {node.addedTerms.map((term, i) => (
+                  <div key={`+${i}`} class="text-green-700">+ {term}</div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+const BulkStatusLabels: Record<BulkStatus, string> = {
+  ok: "Valid",
+  warning: "Warnings",
+  error: "Errors",
+  none: "No SPF record",
+  failed: "Lookup failed",
+};
+
+const BulkStatusColors: Record<BulkStatus, string> = {
+  ok: "bg-green-100 text-green-700",
+  warning: "bg-yellow-100 text-yellow-700",
+  error: "bg-red-100 text-red-700",
+  none: "bg-gray-100 text-gray-600",
+  failed: "bg-orange-100 text-orange-700",
+};
+
+const BulkColumns = [
+  ["domain", "Domain"],
+  ["status", "Status"],
+  ["lookupCount", "Lookups"],
+  ["voidLookupCount", "Void"],
+  ["errors", "Errors"],
+  ["warnings", "Warnings"],
+  ["queryTime", "Time"],
+] as const;
+
+type BulkSortKey = typeof BulkColumns[number][0];
+
+/**
+ * Ranks statuses from worst to best for sorting
+ */
+const BulkStatusOrder: BulkStatus[] = [
+  "failed",
+  "error",
+  "none",
+  "warning",
+  "ok",
+];
+
+function csvField(value: string | number | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+function downloadBulkCsv(rows: BulkResultRow[]) {
+  const lines = [
+    "domain,status,lookups,void_lookups,errors,warnings,record,issues",
+    ...rows.map((row) =>
+      [
+        row.domain,
+        row.status,
+        row.lookupCount,
+        row.voidLookupCount,
+        row.errors,
+        row.warnings,
+        row.record,
+        row.issues.join("; "),
+      ].map(csvField).join(",")
+    ),
+  ];
+  const url = URL.createObjectURL(
+    new Blob([lines.join("\n") + "\n"], { type: "text/csv" }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "spf-bulk.csv";
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function BulkDisplay(
+  { rows, summary, pending, onSelect }: {
+    rows: BulkResultRow[];
+    summary: BulkSummary | null;
+    pending: boolean;
+    onSelect: (domain: string) => void;
+  },
+) {
+  const sortKey = useSignal<BulkSortKey>("status");
+  const ascending = useSignal(true);
+
+  const compare = (a: BulkResultRow, b: BulkResultRow): number => {
+    switch (sortKey.value) {
+      case "domain":
+        return a.domain.localeCompare(b.domain);
+      case "status":
+        return BulkStatusOrder.indexOf(a.status) -
+          BulkStatusOrder.indexOf(b.status);
+      default:
+        return a[sortKey.value] - b[sortKey.value];
+    }
+  };
+  const sorted = [...rows].sort((a, b) =>
+    (ascending.value ? 1 : -1) * compare(a, b) ||
+    a.domain.localeCompare(b.domain)
+  );
+
+  return (
+    <div class="space-y-4">
+      {summary && (
+        <div class="space-y-3">
+          <div class="flex flex-wrap gap-2 text-sm">
+            {BulkStatusOrder.filter((status) => summary.byStatus[status] > 0)
+              .map((status) => (
+                <span
+                  key={status}
+                  class={`px-2 py-1 rounded ${BulkStatusColors[status]}`}
+                >
+                  {BulkStatusLabels[status]}: {summary.byStatus[status]}
+                </span>
+              ))}
+          </div>
+          {summary.worst.length > 0 && (
+            <div class="text-sm">
+              <span class="text-gray-500">Most DNS lookups:</span>{" "}
+              {summary.worst.map((w, i) => (
+                <span key={w.domain}>
+                  {i > 0 && ", "}
+                  <span class="font-mono">{w.domain}</span>
+                  <span
+                    class={w.lookupCount > 10
+                      ? "text-red-600"
+                      : "text-gray-500"}
+                  >
+                    {` (${w.lookupCount})`}
+                  </span>
+                </span>
+              ))}
+            </div>
+          )}
+          {summary.invalid.length > 0 && (
+            <p class="text-sm text-yellow-700">
+              Skipped {summary.invalid.length} invalid{" "}
+              {summary.invalid.length === 1 ? "entry" : "entries"}:{" "}
+              <span class="font-mono">
+                {summary.invalid.slice(0, 5).join(", ")}
+                {summary.invalid.length > 5 && ", ..."}
+              </span>
+            </p>
+          )}
+        </div>
+      )}
+
+      <div class="flex items-center justify-between">
+        <span class="text-sm text-gray-500">
+          {pending
+            ? `${rows.length} checked so far...`
+            : `${rows.length} domains`}
+        </span>
+        <button
+          type="button"
+          onClick={() => downloadBulkCsv(sorted)}
+          disabled={rows.length === 0}
+          class="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50 transition-colors"
+        >
+          Download CSV
+        </button>
+      </div>
+
+      <div class="overflow-x-auto">
+        <table class="w-full text-sm">
+          <thead>
+            <tr class="text-left text-gray-500">
+              {BulkColumns.map(([key, label]) => (
+                <th key={key} class="pb-2 pr-4">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      ascending.value = sortKey.value === key
+                        ? !ascending.value
+                        : true;
+                      sortKey.value = key;
+                    }}
+                    class="hover:text-gray-700"
+                  >
+                    {label}
+                    {sortKey.value === key && (ascending.value ? " ▲" : " ▼")}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody class="text-gray-700">
+            {sorted.map((row) => (
+              <tr key={row.domain} class="border-t border-gray-100 align-top">
+                <td class="py-2 pr-4">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      onSelect(row.domain)}
+                    class="font-mono text-blue-600 hover:underline"
+                  >
+                    {row.domain}
+                  </button>
+                  {row.issues[0] && (
+                    <span
+                      class="block text-xs text-gray-500"
+                      title={row.issues.join("\n")}
+                    >
+                      {row.issues[0]}
+                      {row.issues.length > 1 &&
+                        ` (+${row.issues.length - 1} more)`}
+                    </span>
+                  )}
+                </td>
+                <td class="py-2 pr-4">
+                  <span
+                    class={`px-2 py-0.5 rounded text-xs whitespace-nowrap ${
+                      BulkStatusColors[row.status]
+                    }`}
+                  >
+                    {BulkStatusLabels[row.status]}
+                  </span>
+                </td>
+                <td
+                  class={`py-2 pr-4 ${
+                    row.lookupCount > 10 ? "text-red-600 font-medium" : ""
+                  }`}
+                >
+                  {row.lookupCount}
+                </td>
+                <td class="py-2 pr-4">{row.voidLookupCount}</td>
+                <td class="py-2 pr-4">{row.errors}</td>
+                <td class="py-2 pr-4">{row.warnings}</td>
+                <td class="py-2 pr-4 text-gray-500">{row.queryTime}ms</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default function SpfValidator() {
+  const mode = useSignal<"domain" | "record" | "bulk">("domain");
+  const domain = useSignal("");
+  const recordText = useSignal("");
+  const recordDomain = useSignal("");
+  const includeRecords = useSignal("");
+  const resolver = useSignal("google");
+  const resolvers = useSignal<ResolverOption[]>(DefaultResolvers);
+  const ip = useSignal("");
+  const isLoading = useSignal(false);
+  const result = useSignal<SpfResult | null>(null);
+  const evaluation = useSignal<SpfEvaluation | null>(null);
+  const ips = useSignal<SpfIpSet | null>(null);
+  const dmarc = useSignal<DmarcResult | null>(null);
+  const dkim = useSignal<DkimResult[] | null>(null);
+  const mtaSts = useSignal<MtaStsResult | null>(null);
+  const dkimSelector = useSignal("");
+  const flattened = useSignal<SpfFlattenResult | null>(null);
+  const isFlattening = useSignal(false);
+  const compared = useSignal<SpfCompareResult | null>(null);
+  const history = useSignal<SpfHistoryEntry[] | null>(null);
+  const isComparing = useSignal(false);
+  const bulkText = useSignal("");
+  const bulkRows = useSignal<BulkResultRow[]>([]);
+  const bulkSummary = useSignal<BulkSummary | null>(null);
+  const progress = useSignal<SpfProgressEvent | null>(null);
+  const treeView = useSignal<"list" | "graph">("list");
+  const dropped = useSignal<string[]>([]);
+  const added = useSignal<string[]>([]);
+  const addInclude = useSignal("");
+  const simulated = useSignal<SpfResult | null>(null);
+  /** Lookup parameters and hypothetical records the result came from */
+  const simulationBase = useSignal<
+    { params: string; records?: Record<string, string> } | null
+  >(null);
+  const isSimulating = useSignal(false);
+  const error = useSignal<string | null>(null);
+  const initialLoadDone = useSignal(false);
+
+  const handleLookup = async () => {
+    error.value = null;
+    result.value = null;
+    evaluation.value = null;
+    ips.value = null;
+    dmarc.value = null;
+    dkim.value = null;
+    mtaSts.value = null;
+    flattened.value = null;
+    compared.value = null;
+    history.value = null;
+    simulated.value = null;
+    simulationBase.value = null;
+    dropped.value = [];
+    added.value = [];
+
+    const domainValue = domain.value.trim();
+    if (!domainValue) {
+      error.value = "Please enter a domain name";
+      return;
+    }
+
+    isLoading.value = true;
+
+    try {
+      const params = new URLSearchParams({
+        domain: domainValue,
+        resolver: resolver.value,
+      });
+      const ipsRequest = fetch(`/api/spf/ips?${params}`)
+        .then((response) => response.json())
+        .catch(() => null);
+      const ipValue = ip.value.trim();
+      if (ipValue) params.set("ip", ipValue);
+      const dmarcRequest = fetch(`/api/dmarc?${params}`)
+        .then((response) => response.json())
+        .catch(() => null);
+      const domainParams = new URLSearchParams({
+        domain: domainValue,
+        resolver: resolver.value,
+      });
+      const dkimRequest = fetch(`/api/dkim?${domainParams}`)
+        .then((response) => response.json())
+        .catch(() => null);
+      const mtaStsRequest = fetch(`/api/mta-sts?${domainParams}`)
+        .then((response) => response.json())
+        .catch(() => null);
+      const evaluationRequest = ipValue
+        ? fetch(`/api/spf/evaluate?${params}`)
+        : null;
+      const response = await fetch(`/api/spf/stream?${params}`);
+      simulationBase.value = { params: params.toString() };
+
+      if (!response.ok || !response.body) {
+        const data = await response.json();
+        error.value = data.error || "SPF validation failed";
+        return;
+      }
+
+      // Render the tree as its nodes arrive, then the complete result
+      const reader = response.body
+        .pipeThrough(new TextDecoderStream())
+        .getReader();
+      let tree: SpfResult | null = null;
+      let buffer = "";
+      let complete = false;
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const parsed = parseServerEvents(buffer + value);
+        buffer = parsed.rest;
+        for (const { event, data } of parsed.events) {
+          if (event === "result") {
+            result.value = JSON.parse(data).result;
+            complete = true;
+          } else if (event === "failure") {
+            error.value = JSON.parse(data).error || "SPF validation failed";
+            return;
+          } else {
+            progress.value = JSON.parse(data);
+            tree = applyProgress(tree, progress.value!);
+            if (tree) result.value = { ...tree };
+          }
+        }
+      }
+      progress.value = null;
+
+      if (!complete) {
+        error.value = "SPF lookup was interrupted";
+        return;
+      }
 
-  const handleLookup = async () => {
+      // Requested after the lookup, which records the current snapshot
+      const historyRequest = fetch(`/api/spf/history?${domainParams}`)
+        .then((response) => response.json())
+        .catch(() => null);
+
+      const ipsData = await ipsRequest;
+      if (ipsData?.success) ips.value = ipsData.ips;
+
+      const dmarcData = await dmarcRequest;
+      if (dmarcData?.success) dmarc.value = dmarcData.result;
+
+      const dkimData = await dkimRequest;
+      if (dkimData?.success) dkim.value = dkimData.results;
+
+      const mtaStsData = await mtaStsRequest;
+      if (mtaStsData?.success) mtaSts.value = mtaStsData.result;
+
+      const historyData = await historyRequest;
+      if (historyData?.success) history.value = historyData.history;
+
+      const evaluationResponse = await evaluationRequest;
+      if (evaluationResponse) {
+        const evaluationData = await evaluationResponse.json();
+        if (!evaluationData.success) {
+          error.value = evaluationData.error || "SPF evaluation failed";
+          return;
+        }
+        evaluation.value = evaluationData.evaluation;
+      }
+    } catch {
+      error.value = "Failed to validate SPF record";
+    } finally {
+      progress.value = null;
+      isLoading.value = false;
+    }
+  };
+
+  const handleLint = async () => {
     error.value = null;
     result.value = null;
+    evaluation.value = null;
+    ips.value = null;
+    dmarc.value = null;
+    dkim.value = null;
+    mtaSts.value = null;
+    flattened.value = null;
+    compared.value = null;
+    history.value = null;
+    simulated.value = null;
+    simulationBase.value = null;
+    dropped.value = [];
+    added.value = [];
 
-    const domainValue = domain.value.trim();
-    if (!domainValue) {
-      error.value = "Please enter a domain name";
+    if (!recordText.value.trim()) {
+      error.value = "Please enter an SPF record";
       return;
     }
 
     isLoading.value = true;
 
+    const lintDomain = recordDomain.value.trim() || "example.com";
+    const includes = parseIncludeRecords(includeRecords.value);
     try {
-      const params = new URLSearchParams({
-        domain: domainValue,
-        resolver: resolver.value,
+      const response = await fetch("/api/spf/lint", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          record: recordText.value,
+          domain: lintDomain,
+          includes,
+          resolver: resolver.value,
+        }),
       });
-      const response = await fetch(`/api/spf?${params}`);
       const data = await response.json();
 
       if (!data.success) {
-        error.value = data.error || "SPF validation failed";
+        error.value = data.error || "SPF lint failed";
         return;
       }
 
       result.value = data.result;
+      simulationBase.value = {
+        params: new URLSearchParams({
+          domain: lintDomain,
+          resolver: resolver.value,
+        }).toString(),
+        records: { ...includes, [lintDomain]: recordText.value },
+      };
     } catch {
-      error.value = "Failed to validate SPF record";
+      error.value = "Failed to lint SPF record";
+    } finally {
+      isLoading.value = false;
+    }
+  };
+
+  const handleBulk = async () => {
+    error.value = null;
+    bulkRows.value = [];
+    bulkSummary.value = null;
+
+    if (!bulkText.value.trim()) {
+      error.value = "Please enter at least one domain";
+      return;
+    }
+
+    isLoading.value = true;
+
+    try {
+      const params = new URLSearchParams({ resolver: resolver.value });
+      const response = await fetch(`/api/spf/bulk?${params}`, {
+        method: "POST",
+        headers: { "Content-Type": "text/plain" },
+        body: bulkText.value,
+      });
+
+      if (!response.ok || !response.body) {
+        const data = await response.json();
+        error.value = data.error || "Bulk check failed";
+        return;
+      }
+
+      // One JSON object per line, rendered as each line arrives
+      const reader = response.body
+        .pipeThrough(new TextDecoderStream())
+        .getReader();
+      let buffer = "";
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const lines = (buffer + value).split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines.filter((l) => l.trim())) {
+          const row = JSON.parse(line);
+          if (row.type === "result") {
+            bulkRows.value = [...bulkRows.value, row];
+          } else if (row.type === "summary") {
+            bulkSummary.value = row;
+          } else if (row.type === "error") {
+            error.value = row.error;
+          }
+        }
+      }
+    } catch {
+      error.value = "Failed to check domains";
     } finally {
       isLoading.value = false;
     }
   };
 
+  const handleBulkFile = async (e: Event) => {
+    const file = (e.target as HTMLInputElement).files?.[0];
+    if (file) bulkText.value = await file.text();
+  };
+
   const handleClear = () => {
     domain.value = "";
+    recordText.value = "";
+    recordDomain.value = "";
+    includeRecords.value = "";
+    ip.value = "";
     result.value = null;
+    evaluation.value = null;
+    ips.value = null;
+    dmarc.value = null;
+    dkim.value = null;
+    mtaSts.value = null;
+    flattened.value = null;
+    compared.value = null;
+    history.value = null;
+    simulated.value = null;
+    simulationBase.value = null;
+    dropped.value = [];
+    added.value = [];
+    bulkText.value = "";
+    bulkRows.value = [];
+    bulkSummary.value = null;
     error.value = null;
     updateHash("");
   };
 
+  const handleFlatten = async () => {
+    if (!result.value) return;
+    isFlattening.value = true;
+
+    try {
+      const params = new URLSearchParams({
+        domain: result.value.domain,
+        resolver: resolver.value,
+      });
+      const response = await fetch(`/api/spf/flatten?${params}`);
+      const data = await response.json();
+
+      if (!data.success) {
+        error.value = data.error || "SPF flattening failed";
+        return;
+      }
+
+      flattened.value = data.flattened;
+    } catch {
+      error.value = "Failed to flatten SPF record";
+    } finally {
+      isFlattening.value = false;
+    }
+  };
+
+  const handleSimulate = async (remove: string[], add: string[]) => {
+    const base = simulationBase.value;
+    if (!result.value || !base) return;
+    dropped.value = remove;
+    added.value = add;
+    if (remove.length === 0 && add.length === 0) {
+      simulated.value = null;
+      return;
+    }
+    isSimulating.value = true;
+
+    try {
+      const response = await fetch(`/api/spf/simulate?${base.params}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ records: base.records, remove, add }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        error.value = data.error || "SPF simulation failed";
+        return;
+      }
+
+      simulated.value = data.result;
+    } catch {
+      error.value = "Failed to simulate SPF changes";
+    } finally {
+      isSimulating.value = false;
+    }
+  };
+
+  const handleToggleInclude = (target: string) => {
+    handleSimulate(
+      dropped.value.includes(target)
+        ? dropped.value.filter((d) => d !== target)
+        : [...dropped.value, target],
+      added.value,
+    );
+  };
+
+  const handleAddInclude = () => {
+    const target = addInclude.value.trim().toLowerCase()
+      .replace(/^include:/, "");
+    if (!target || added.value.includes(target)) return;
+    addInclude.value = "";
+    handleSimulate(dropped.value, [...added.value, target]);
+  };
+
+  const handleCompare = async () => {
+    if (!result.value) return;
+    isComparing.value = true;
+
+    try {
+      const params = new URLSearchParams({
+        domain: result.value.domain,
+        compare: "all",
+      });
+      const response = await fetch(`/api/spf?${params}`);
+      const data = await response.json();
+
+      if (!data.success) {
+        error.value = data.error || "Resolver comparison failed";
+        return;
+      }
+
+      compared.value = data.compare;
+    } catch {
+      error.value = "Failed to compare resolvers";
+    } finally {
+      isComparing.value = false;
+    }
+  };
+
+  const handleDkimSelector = async () => {
+    const selector = dkimSelector.value.trim();
+    if (!result.value || !selector) return;
+
+    try {
+      const params = new URLSearchParams({
+        domain: result.value.domain,
+        selector,
+        resolver: resolver.value,
+      });
+      const response = await fetch(`/api/dkim?${params}`);
+      const data = await response.json();
+
+      if (!data.success) {
+        error.value = data.error || "DKIM lookup failed";
+        return;
+      }
+
+      dkim.value = [
+        ...data.results,
+        ...(dkim.value ?? []).filter((d) => d.selector !== selector),
+      ];
+    } catch {
+      error.value = "Failed to look up DKIM selector";
+    }
+  };
+
+  useEffect(() => {
+    fetch("/api/resolvers")
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.success) resolvers.value = data.resolvers;
+      })
+      .catch(() => {});
+  }, []);
+
   useEffect(() => {
+    // Records handed off from the builder, e.g. /?record=v%3Dspf1...
+    const params = new URLSearchParams(globalThis.location.search);
+    const handedOff = params.get("record");
+    if (handedOff) {
+      globalThis.history.replaceState(null, "", globalThis.location.pathname);
+      mode.value = "record";
+      recordText.value = handedOff;
+      recordDomain.value = params.get("domain") ?? "";
+      initialLoadDone.value = true;
+      handleLint();
+      return;
+    }
+
     const handleHashChange = () => {
       const parsed = parseHash(globalThis.location.hash);
       if (parsed) {
@@ -216,51 +2116,235 @@ export default function SpfValidator() {
           Validate SPF Record
         </h2>
 
-        <div class="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
-          <div class="md:col-span-2">
-            <label class="block text-sm font-medium text-gray-700 mb-1">
-              Domain Name
-            </label>
-            <input
-              type="text"
-              value={domain.value}
-              onInput={(
-                e,
-              ) => (domain.value = (e.target as HTMLInputElement).value)}
-              onKeyDown={(e) => {
-                if (e.key === "Enter") handleLookup();
+        <div class="flex gap-2 mb-4 border-b border-gray-200">
+          {([
+            ["domain", "Look up a domain"],
+            ["record", "Paste a record"],
+            ["bulk", "Check a list"],
+          ] as const).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => {
+                mode.value = value;
+                result.value = null;
+                evaluation.value = null;
+                error.value = null;
               }}
-              placeholder="example.com"
-              class="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
-            />
-          </div>
-          <div>
-            <label class="block text-sm font-medium text-gray-700 mb-1">
-              DNS Resolver
-            </label>
-            <select
-              value={resolver.value}
-              onChange={(e) =>
-                (resolver.value = (e.target as HTMLSelectElement).value)}
-              class="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              class={`px-3 py-2 text-sm -mb-px border-b-2 ${
+                mode.value === value
+                  ? "border-blue-600 text-blue-600 font-medium"
+                  : "border-transparent text-gray-500 hover:text-gray-700"
+              }`}
             >
-              {Resolvers.map((r) => (
-                <option key={r.value} value={r.value}>
-                  {r.label}
-                </option>
-              ))}
-            </select>
-          </div>
+              {label}
+            </button>
+          ))}
         </div>
 
+        {mode.value === "record" && (
+          <div class="space-y-4 mb-4">
+            <div>
+              <label class="block text-sm font-medium text-gray-700 mb-1">
+                SPF Record
+              </label>
+              <textarea
+                value={recordText.value}
+                onInput={(
+                  e,
+                ) => (recordText.value =
+                  (e.target as HTMLTextAreaElement).value)}
+                rows={3}
+                placeholder="v=spf1 include:_spf.example.com ~all"
+                class="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+              />
+            </div>
+            <div class="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div class="md:col-span-2">
+                <label class="block text-sm font-medium text-gray-700 mb-1">
+                  Published at <span class="text-gray-400">(optional)</span>
+                </label>
+                <input
+                  type="text"
+                  value={recordDomain.value}
+                  onInput={(
+                    e,
+                  ) => (recordDomain.value =
+                    (e.target as HTMLInputElement).value)}
+                  placeholder="example.com"
+                  class="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+                />
+              </div>
+              <div>
+                <label class="block text-sm font-medium text-gray-700 mb-1">
+                  DNS Resolver
+                </label>
+                <select
+                  value={resolver.value}
+                  onChange={(
+                    e,
+                  ) => (resolver.value = (e.target as HTMLSelectElement).value)}
+                  class="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {resolvers.value.map((r) => (
+                    <option key={r.name} value={r.name}>
+                      {r.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label class="block text-sm font-medium text-gray-700 mb-1">
+                Hypothetical include records{" "}
+                <span class="text-gray-400">
+                  (optional, one "domain: record" per line)
+                </span>
+              </label>
+              <textarea
+                value={includeRecords.value}
+                onInput={(
+                  e,
+                ) => (includeRecords.value =
+                  (e.target as HTMLTextAreaElement).value)}
+                rows={3}
+                placeholder="_spf.example.com: v=spf1 ip4:192.0.2.0/24 -all"
+                class="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+              />
+            </div>
+          </div>
+        )}
+
+        {mode.value === "bulk" && (
+          <div class="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <div class="md:col-span-2">
+              <label class="block text-sm font-medium text-gray-700 mb-1">
+                Domains{" "}
+                <span class="text-gray-400">
+                  (one per line, or CSV with a "domain" column)
+                </span>
+              </label>
+              <textarea
+                value={bulkText.value}
+                onInput={(
+                  e,
+                ) => (bulkText.value = (e.target as HTMLTextAreaElement).value)}
+                rows={6}
+                placeholder={`example.com\nexample.org`}
+                class="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+              />
+            </div>
+            <div class="space-y-4">
+              <div>
+                <label class="block text-sm font-medium text-gray-700 mb-1">
+                  DNS Resolver
+                </label>
+                <select
+                  value={resolver.value}
+                  onChange={(
+                    e,
+                  ) => (resolver.value = (e.target as HTMLSelectElement).value)}
+                  class="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {resolvers.value.map((r) => (
+                    <option key={r.name} value={r.name}>
+                      {r.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label class="block text-sm font-medium text-gray-700 mb-1">
+                  Load from file
+                </label>
+                <input
+                  type="file"
+                  accept=".csv,.txt,text/csv,text/plain"
+                  onChange={handleBulkFile}
+                  class="w-full text-sm text-gray-600"
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {mode.value === "domain" && (
+          <div class="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <div class="md:col-span-2">
+              <label class="block text-sm font-medium text-gray-700 mb-1">
+                Domain Name
+              </label>
+              <input
+                type="text"
+                value={domain.value}
+                onInput={(
+                  e,
+                ) => (domain.value = (e.target as HTMLInputElement).value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleLookup();
+                }}
+                placeholder="example.com"
+                class="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+              />
+            </div>
+            <div>
+              <label class="block text-sm font-medium text-gray-700 mb-1">
+                DNS Resolver
+              </label>
+              <select
+                value={resolver.value}
+                onChange={(
+                  e,
+                ) => (resolver.value = (e.target as HTMLSelectElement).value)}
+                class="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {resolvers.value.map((r) => (
+                  <option key={r.name} value={r.name}>
+                    {r.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div class="md:col-span-2">
+              <label class="block text-sm font-medium text-gray-700 mb-1">
+                Sending IP <span class="text-gray-400">(optional)</span>
+              </label>
+              <input
+                type="text"
+                value={ip.value}
+                onInput={(
+                  e,
+                ) => (ip.value = (e.target as HTMLInputElement).value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleLookup();
+                }}
+                placeholder="192.0.2.1 or 2001:db8::1"
+                class="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+              />
+            </div>
+          </div>
+        )}
+
         <div class="flex flex-wrap gap-3">
           <button
             type="button"
-            onClick={handleLookup}
-            disabled={!domain.value.trim() || isLoading.value}
+            onClick={mode.value === "domain"
+              ? handleLookup
+              : mode.value === "record"
+              ? handleLint
+              : handleBulk}
+            disabled={(mode.value === "domain"
+              ? !domain.value.trim()
+              : mode.value === "record"
+              ? !recordText.value.trim()
+              : !bulkText.value.trim()) || isLoading.value}
             class="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
           >
-            {isLoading.value ? "Validating..." : "Validate SPF"}
+            {isLoading.value
+              ? "Validating..."
+              : mode.value === "bulk"
+              ? "Check Domains"
+              : "Validate SPF"}
           </button>
           <button
             type="button"
@@ -279,6 +2363,26 @@ export default function SpfValidator() {
         </div>
       )}
 
+      {/* Bulk Results */}
+      {mode.value === "bulk" &&
+        (bulkRows.value.length > 0 || bulkSummary.value) && (
+        <div class="bg-white rounded-lg shadow p-6 mb-6">
+          <h3 class="text-lg font-semibold text-gray-800 mb-4">
+            Bulk Results
+          </h3>
+          <BulkDisplay
+            rows={bulkRows.value}
+            summary={bulkSummary.value}
+            pending={isLoading.value}
+            onSelect={(selected) => {
+              mode.value = "domain";
+              domain.value = selected;
+              handleLookup();
+            }}
+          />
+        </div>
+      )}
+
       {/* Results */}
       {result.value && (
         <div class="space-y-6">
@@ -288,15 +2392,43 @@ export default function SpfValidator() {
               SPF Record for {result.value.domain}
             </h3>
 
+            {progress.value && (
+              <p class="text-sm text-gray-500 mb-4 animate-pulse">
+                Expanding{" "}
+                <span class="font-mono">{progress.value.path.join(" → ")}</span>
+                {` (${progress.value.lookupCount} DNS lookups so far)`}
+              </p>
+            )}
+
             <div class="space-y-4">
               {/* Raw Record */}
               <div>
                 <span class="text-sm text-gray-500">TXT Record</span>
                 <pre class="font-mono text-sm bg-gray-50 p-3 rounded mt-1 break-all whitespace-pre-wrap">
-                  {result.value.record || "No SPF record found"}
+                  {result.value.record
+                    ? (
+                      <RecordText
+                        record={result.value.record}
+                        issues={result.value.issues}
+                      />
+                    )
+                    : "No SPF record found"}
                 </pre>
               </div>
 
+              {/* Competing and ignored records */}
+              {result.value.candidates &&
+                result.value.candidates.some((c) => c.status !== "other") &&
+                (result.value.candidates.length > 1 || !result.value.record) &&
+                (
+                  <div>
+                    <span class="text-sm text-gray-500">
+                      DNS Records ({result.value.candidates.length})
+                    </span>
+                    <CandidateList candidates={result.value.candidates} />
+                  </div>
+                )}
+
               {/* Stats Grid */}
               <div class="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div>
@@ -317,12 +2449,18 @@ export default function SpfValidator() {
                     {result.value.lookupCount} / 10
                     {result.value.lookupCount > 10 && " (Exceeded!)"}
                   </p>
+                  <p class="text-xs text-gray-500 mt-1">
+                    {result.value.voidLookupCount} / 2 void lookups
+                  </p>
                 </div>
                 <div>
                   <span class="text-sm text-gray-500">Query Time</span>
                   <p class="font-mono text-sm bg-gray-50 p-2 rounded mt-1">
                     {result.value.queryTime}ms
                   </p>
+                  <p class="mt-1">
+                    <CacheBadge cache={result.value.cache} />
+                  </p>
                 </div>
               </div>
 
@@ -352,19 +2490,324 @@ export default function SpfValidator() {
             </div>
           </div>
 
-          {/* Mechanisms Breakdown */}
-          {result.value.mechanisms.length > 0 && (
+          {/* Evaluation */}
+          {evaluation.value && (
             <div class="bg-white rounded-lg shadow p-6">
               <h3 class="text-lg font-semibold text-gray-800 mb-4">
-                Mechanisms Breakdown
+                Evaluation for {evaluation.value.ip}
               </h3>
-              <div class="bg-gray-50 rounded p-4">
-                {result.value.mechanisms.map((mechanism, i) => (
-                  <MechanismDisplay key={i} mechanism={mechanism} />
-                ))}
+              <div
+                class={`text-sm p-3 rounded border ${
+                  getEvaluationColor(evaluation.value.result)
+                }`}
+              >
+                <span class="font-mono font-bold uppercase">
+                  {evaluation.value.result}
+                </span>{" "}
+                {evaluation.value.reason}
+              </div>
+              {evaluation.value.explanation && (
+                <p class="text-sm text-gray-600 mt-3">
+                  Explanation: {evaluation.value.explanation}
+                </p>
+              )}
+              {evaluation.value.match && (
+                <p class="text-sm text-gray-600 mt-3 font-mono break-all">
+                  {[
+                    evaluation.value.domain,
+                    ...evaluation.value.match.includes,
+                  ].join(" → ")} : {evaluation.value.match.term}
+                </p>
+              )}
+              <p class="text-xs text-gray-400 mt-2">
+                {evaluation.value.lookupCount} DNS lookups,{" "}
+                {evaluation.value.voidLookupCount} void lookups
+              </p>
+            </div>
+          )}
+
+          {/* DMARC */}
+          {dmarc.value && (
+            <div class="bg-white rounded-lg shadow p-6">
+              <h3 class="text-lg font-semibold text-gray-800 mb-4">
+                DMARC Policy for {dmarc.value.domain}
+              </h3>
+              <DmarcDisplay dmarc={dmarc.value} />
+            </div>
+          )}
+
+          {/* DKIM */}
+          {dkim.value && (
+            <div class="bg-white rounded-lg shadow p-6">
+              <h3 class="text-lg font-semibold text-gray-800 mb-4">
+                DKIM Keys for {result.value.domain}
+              </h3>
+              <DkimDisplay results={dkim.value} />
+              <div class="flex gap-2 mt-4">
+                <input
+                  type="text"
+                  value={dkimSelector.value}
+                  onInput={(
+                    e,
+                  ) => (dkimSelector.value =
+                    (e.target as HTMLInputElement).value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleDkimSelector();
+                  }}
+                  placeholder="Other selector"
+                  class="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+                />
+                <button
+                  type="button"
+                  onClick={handleDkimSelector}
+                  class="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+                >
+                  Check
+                </button>
               </div>
             </div>
           )}
+
+          {/* MTA-STS and TLS-RPT */}
+          {mtaSts.value && (
+            <div class="bg-white rounded-lg shadow p-6">
+              <h3 class="text-lg font-semibold text-gray-800 mb-4">
+                Transport Security (MTA-STS, TLS-RPT)
+              </h3>
+              <MtaStsDisplay mtaSts={mtaSts.value} />
+            </div>
+          )}
+
+          {/* Authorized IPs */}
+          {ips.value && (
+            <div class="bg-white rounded-lg shadow p-6">
+              <h3 class="text-lg font-semibold text-gray-800 mb-4">
+                Authorized IP Ranges
+              </h3>
+              <IpSetDisplay
+                ips={ips.value}
+                exportParams={new URLSearchParams({
+                  domain: ips.value.domain,
+                  resolver: resolver.value,
+                }).toString()}
+              />
+            </div>
+          )}
+
+          {/* Flattening */}
+          {mode.value === "domain" && result.value.record && (
+            <div class="bg-white rounded-lg shadow p-6">
+              <h3 class="text-lg font-semibold text-gray-800 mb-4">
+                Flatten Record
+              </h3>
+              {flattened.value
+                ? <FlattenDisplay flattened={flattened.value} />
+                : (
+                  <div class="flex items-center gap-4">
+                    <p class="text-sm text-gray-600 flex-1">
+                      Replace includes with the IP ranges they authorize to stay
+                      under 10 DNS lookups.
+                    </p>
+                    <button
+                      type="button"
+                      onClick={handleFlatten}
+                      disabled={isFlattening.value}
+                      class="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      {isFlattening.value ? "Generating..." : "Generate"}
+                    </button>
+                  </div>
+                )}
+            </div>
+          )}
+
+          {/* Resolver Comparison */}
+          {mode.value === "domain" && resolvers.value.length > 1 && (
+            <div class="bg-white rounded-lg shadow p-6">
+              <h3 class="text-lg font-semibold text-gray-800 mb-4">
+                Resolver Consistency
+              </h3>
+              {compared.value
+                ? (
+                  <CompareDisplay
+                    compared={compared.value}
+                    resolvers={resolvers.value}
+                  />
+                )
+                : (
+                  <div class="flex items-center gap-4">
+                    <p class="text-sm text-gray-600 flex-1">
+                      Query every resolver without caching and compare the
+                      records each one returns.
+                    </p>
+                    <button
+                      type="button"
+                      onClick={handleCompare}
+                      disabled={isComparing.value}
+                      class="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      {isComparing.value ? "Comparing..." : "Compare"}
+                    </button>
+                  </div>
+                )}
+            </div>
+          )}
+
+          {/* History */}
+          {history.value && history.value.length > 0 && (
+            <div class="bg-white rounded-lg shadow p-6">
+              <h3 class="text-lg font-semibold text-gray-800 mb-4">
+                History
+              </h3>
+              <HistoryDisplay history={history.value} />
+            </div>
+          )}
+
+          {/* What-if simulation */}
+          {result.value.record && (
+            <div class="bg-white rounded-lg shadow p-6">
+              <h3 class="text-lg font-semibold text-gray-800 mb-4">
+                What If
+              </h3>
+              <p class="text-sm text-gray-600 mb-4">
+                Untick includes in the breakdown below or add one to see the
+                lookup count and issues without querying DNS again.
+              </p>
+              <div class="flex gap-2 mb-4">
+                <input
+                  type="text"
+                  value={addInclude.value}
+                  onInput={(
+                    e,
+                  ) => (addInclude.value =
+                    (e.target as HTMLInputElement).value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleAddInclude();
+                  }}
+                  placeholder="include:_spf.example.net"
+                  class="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+                />
+                <button
+                  type="button"
+                  onClick={handleAddInclude}
+                  disabled={isSimulating.value}
+                  class="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Add include
+                </button>
+              </div>
+
+              {(added.value.length > 0 || dropped.value.length > 0) && (
+                <div class="flex flex-wrap items-center gap-2 mb-4 text-sm font-mono">
+                  {dropped.value.map((target) => (
+                    <span
+                      key={`-${target}`}
+                      class="px-2 py-1 rounded bg-red-50 text-red-700"
+                    >
+                      - include:{target}
+                    </span>
+                  ))}
+                  {added.value.map((target) => (
+                    <button
+                      key={`+${target}`}
+                      type="button"
+                      onClick={() =>
+                        handleSimulate(
+                          dropped.value,
+                          added.value.filter((a) => a !== target),
+                        )}
+                      title="Remove from the simulation"
+                      class="px-2 py-1 rounded bg-green-50 text-green-700 hover:bg-green-100"
+                    >
+                      + include:{target} ×
+                    </button>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => handleSimulate([], [])}
+                    class="px-2 py-1 text-gray-500 hover:text-gray-700 font-sans"
+                  >
+                    Reset
+                  </button>
+                </div>
+              )}
+
+              {isSimulating.value && (
+                <p class="text-sm text-gray-500">Simulating...</p>
+              )}
+
+              {simulated.value && !isSimulating.value && (
+                <div class="space-y-3">
+                  <div class="flex flex-wrap items-center gap-4 text-sm">
+                    <span class="text-gray-500">DNS Lookups</span>
+                    <span class="font-mono">
+                      {result.value.lookupCount} →{" "}
+                      <span
+                        class={`px-2 py-1 rounded ${
+                          getLookupCountColor(simulated.value.lookupCount)
+                        }`}
+                      >
+                        {simulated.value.lookupCount} / 10
+                      </span>
+                    </span>
+                    <span class="text-xs text-gray-500">
+                      {simulated.value.voidLookupCount} / 2 void lookups
+                    </span>
+                  </div>
+                  <p class="font-mono text-sm bg-gray-50 rounded p-3 break-all">
+                    {simulated.value.record}
+                  </p>
+                  <IssueList issues={simulated.value.issues} />
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Mechanisms Breakdown */}
+          {result.value.mechanisms.length > 0 && (
+            <div class="bg-white rounded-lg shadow p-6">
+              <div class="flex items-center justify-between mb-4">
+                <h3 class="text-lg font-semibold text-gray-800">
+                  Mechanisms Breakdown
+                </h3>
+                <div class="flex text-sm border border-gray-300 rounded-md overflow-hidden">
+                  {([
+                    ["list", "List"],
+                    ["graph", "Graph"],
+                  ] as const).map(([value, label]) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => (treeView.value = value)}
+                      class={`px-3 py-1 ${
+                        treeView.value === value
+                          ? "bg-blue-600 text-white"
+                          : "text-gray-700 hover:bg-gray-50"
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {treeView.value === "graph"
+                ? <GraphDisplay result={result.value} />
+                : (
+                  <div class="bg-gray-50 rounded p-4">
+                    {result.value.mechanisms.map((mechanism, i) => (
+                      <MechanismDisplay
+                        key={i}
+                        mechanism={mechanism}
+                        path={[i]}
+                        highlight={evaluation.value?.match?.path ?? null}
+                        dropped={dropped.value}
+                        onToggle={handleToggleInclude}
+                      />
+                    ))}
+                  </div>
+                )}
+            </div>
+          )}
         </div>
       )}
 
@@ -0,0 +1,250 @@
+/**
+ * Bulk Validation
+ *
+ * Parses newline- or CSV-separated domain lists and checks the domains
+ * with a bounded number of lookups in flight, reporting each result as
+ * soon as it finishes and a summary at the end.
+ */
+
+import type { ResolverType } from "./dns.ts";
+import { checkSpf, type SpfResult } from "./spf.ts";
+
+export const MAX_BULK_DOMAINS = 1000;
+export const MAX_BULK_CONCURRENCY = 10;
+
+export type BulkStatus =
+  /** Record found without errors or warnings */
+  | "ok"
+  | "warning"
+  | "error"
+  /** No SPF record published */
+  | "none"
+  /** A DNS lookup failed, so the result is incomplete */
+  | "failed";
+
+export interface BulkResultRow {
+  type: "result";
+  domain: string;
+  status: BulkStatus;
+  record: string | null;
+  lookupCount: number;
+  voidLookupCount: number;
+  /** Error and warning counts across the whole tree */
+  errors: number;
+  warnings: number;
+  /** Messages of the errors, then the warnings */
+  issues: string[];
+  queryTime: number;
+}
+
+export interface BulkSummaryRow {
+  type: "summary";
+  total: number;
+  byStatus: Record<BulkStatus, number>;
+  /** Domains with the most DNS lookups, most first */
+  worst: Array<{ domain: string; lookupCount: number; status: BulkStatus }>;
+  /** Entries of the input that aren't domain names */
+  invalid: string[];
+}
+
+export interface BulkOptions {
+  resolver: ResolverType;
+  /** Lookups in flight at once (default 5) */
+  concurrency?: number;
+  /** Stops the check before its next domain, e.g. when the client goes */
+  signal?: AbortSignal;
+}
+
+export interface DomainList {
+  domains: string[];
+  invalid: string[];
+}
+
+const DOMAIN =
+  /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)+$/;
+
+/**
+ * Split a CSV line into fields, honouring double quotes
+ */
+function csvFields(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === "," || c === ";" || c === "\t") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  fields.push(field);
+  return fields.map((f) => f.trim());
+}
+
+/**
+ * Read domains from one-per-line text or CSV. With a header row that
+ * has a "domain" column, that column is used; otherwise the first.
+ * Duplicates are dropped and "#" starts a comment line.
+ */
+export function parseDomainList(text: string): DomainList {
+  const rows = text.split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"))
+    .map(csvFields);
+
+  let column = 0;
+  const header = rows[0]?.map((field) => field.toLowerCase());
+  if (header && !header.some((field) => DOMAIN.test(field))) {
+    const index = header.findIndex((field) =>
+      field === "domain" || field === "domains"
+    );
+    if (index >= 0) {
+      column = index;
+      rows.shift();
+    }
+  }
+
+  const domains = new Set<string>();
+  const invalid: string[] = [];
+  for (const row of rows) {
+    const value = (row[column] ?? "").toLowerCase().replace(/\.$/, "");
+    if (DOMAIN.test(value) && value.length <= 253) {
+      domains.add(value);
+    } else if (value) {
+      invalid.push(row[column]);
+    }
+  }
+
+  return { domains: [...domains], invalid };
+}
+
+function collectIssues(result: SpfResult, rows: SpfResult["issues"][]) {
+  rows.push(result.issues);
+  for (const mechanism of result.mechanisms) {
+    if (mechanism.expanded) collectIssues(mechanism.expanded, rows);
+  }
+}
+
+/**
+ * Condense a lookup result into a bulk row
+ */
+export function toBulkRow(result: SpfResult): BulkResultRow {
+  const lists: SpfResult["issues"][] = [];
+  collectIssues(result, lists);
+  const issues = lists.flat();
+  const errors = issues.filter((i) => i.type === "error");
+  const warnings = issues.filter((i) => i.type === "warning");
+
+  const status: BulkStatus = issues.some((i) => i.code === "dns-lookup-failed")
+    ? "failed"
+    : !result.record
+    ? "none"
+    : errors.length > 0
+    ? "error"
+    : warnings.length > 0
+    ? "warning"
+    : "ok";
+
+  return {
+    type: "result",
+    domain: result.domain,
+    status,
+    record: result.record,
+    lookupCount: result.lookupCount,
+    voidLookupCount: result.voidLookupCount,
+    errors: errors.length,
+    warnings: warnings.length,
+    issues: [...errors, ...warnings].map((i) => i.message),
+    queryTime: result.queryTime,
+  };
+}
+
+/**
+ * Check every domain, calling onRow as each one finishes, and return
+ * the summary; once options.signal aborts, domains not yet started are
+ * skipped and the summary covers the ones checked
+ */
+export async function checkDomains(
+  list: DomainList,
+  options: BulkOptions,
+  onRow: (row: BulkResultRow) => void,
+): Promise<BulkSummaryRow> {
+  const concurrency = Math.min(
+    Math.max(options.concurrency ?? 5, 1),
+    MAX_BULK_CONCURRENCY,
+  );
+  const rows: BulkResultRow[] = [];
+  let next = 0;
+
+  const worker = async () => {
+    while (next < list.domains.length && !options.signal?.aborted) {
+      const domain = list.domains[next++];
+      let row: BulkResultRow;
+      try {
+        row = toBulkRow(
+          await checkSpf(domain, { resolver: options.resolver }),
+        );
+      } catch (err) {
+        row = {
+          type: "result",
+          domain,
+          status: "failed",
+          record: null,
+          lookupCount: 0,
+          voidLookupCount: 0,
+          errors: 1,
+          warnings: 0,
+          issues: [err instanceof Error ? err.message : "SPF lookup failed"],
+          queryTime: 0,
+        };
+      }
+      rows.push(row);
+      onRow(row);
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      { length: Math.min(concurrency, list.domains.length) },
+      worker,
+    ),
+  );
+
+  const byStatus: Record<BulkStatus, number> = {
+    ok: 0,
+    warning: 0,
+    error: 0,
+    none: 0,
+    failed: 0,
+  };
+  for (const row of rows) byStatus[row.status]++;
+
+  return {
+    type: "summary",
+    total: rows.length,
+    byStatus,
+    worst: rows
+      .filter((row) => row.lookupCount > 0)
+      .sort((a, b) => b.lookupCount - a.lookupCount)
+      .slice(0, 10)
+      .map(({ domain, lookupCount, status }) => ({
+        domain,
+        lookupCount,
+        status,
+      })),
+    invalid: list.invalid,
+  };
+}
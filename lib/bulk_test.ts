@@ -0,0 +1,33 @@
+import { assertEquals } from "@std/assert";
+import { toBulkRow } from "./bulk.ts";
+import { checkSpf } from "./spf/mod.ts";
+import { zoneResolver } from "./spf/_test_utils.ts";
+
+Deno.test("toBulkRow marks a failed lookup inside the tree as failed", async () => {
+  const resolver = zoneResolver({
+    "TXT example.com": ["v=spf1 include:_spf.example.net -all"],
+    "TXT _spf.example.net": ["v=spf1 mx -all"],
+    "MX _spf.example.net": new Error("timed out"),
+  });
+
+  const row = toBulkRow(await checkSpf("example.com", { resolver }));
+
+  assertEquals(row.status, "failed");
+});
+
+Deno.test("toBulkRow grades records by their worst issue", async () => {
+  const resolver = zoneResolver({
+    "TXT ok.example": ["v=spf1 ip4:192.0.2.0/24 -all"],
+    "TXT warning.example": ["v=spf1 ip4:192.0.2.0/24"],
+    "TXT error.example": ["v=spf1 include:missing.example -all"],
+    "A other.example": ["192.0.2.1"],
+  });
+
+  const status = async (domain: string) =>
+    toBulkRow(await checkSpf(domain, { resolver })).status;
+
+  assertEquals(await status("ok.example"), "ok");
+  assertEquals(await status("warning.example"), "warning");
+  assertEquals(await status("error.example"), "error");
+  assertEquals(await status("other.example"), "none");
+});
@@ -0,0 +1,167 @@
+/**
+ * Cross-Resolver Comparison
+ *
+ * Expands a domain's SPF tree with several resolvers in parallel,
+ * bypassing the response cache, and lines the trees up node by node so
+ * disagreements during propagation or resolver failures stand out.
+ */
+
+import type { ResolverType } from "./dns.ts";
+import { checkSpf, type SpfResult } from "./spf.ts";
+
+export type SpfNodeStatus =
+  /** A record was selected */
+  | "ok"
+  /** The domain exists but publishes no usable record */
+  | "none"
+  | "nxdomain"
+  /** The lookup failed, e.g. SERVFAIL or a timeout */
+  | "error"
+  /** The node isn't part of this resolver's tree */
+  | "absent";
+
+export type SpfNodeDifference = "status" | "record" | "ttl";
+
+export interface SpfNodeState {
+  resolver: ResolverType;
+  status: SpfNodeStatus;
+  record: string | null;
+  ttl: number | null;
+  error?: string;
+}
+
+export interface SpfCompareNode {
+  /** Chain of include/redirect domains from the queried domain */
+  path: string[];
+  domain: string;
+  /** One state per compared resolver, in resolver order */
+  states: SpfNodeState[];
+  differences: SpfNodeDifference[];
+}
+
+export interface SpfCompareSummary {
+  resolver: ResolverType;
+  lookupCount: number;
+  queryTime: number;
+}
+
+export interface SpfCompareResult {
+  domain: string;
+  resolvers: ResolverType[];
+  summaries: SpfCompareSummary[];
+  nodes: SpfCompareNode[];
+  /** Whether every node has the same status and record everywhere */
+  consistent: boolean;
+}
+
+function stateOf(resolver: ResolverType, result: SpfResult): SpfNodeState {
+  const failure = result.issues.find((i) =>
+    i.code === "dns-lookup-failed" || i.code === "domain-not-found"
+  );
+  const status: SpfNodeStatus = result.record
+    ? "ok"
+    : failure?.code === "domain-not-found"
+    ? "nxdomain"
+    : failure
+    ? "error"
+    : "none";
+
+  return {
+    resolver,
+    status,
+    record: result.record,
+    ttl: result.recordTtl ?? null,
+    error: status === "error" ? failure!.message : undefined,
+  };
+}
+
+/**
+ * Index every record node of a tree by its include/redirect path
+ */
+function collectNodes(
+  result: SpfResult,
+  path: string[],
+  nodes: Map<string, { path: string[]; result: SpfResult }>,
+) {
+  nodes.set(path.join(" > "), { path, result });
+  for (const mechanism of result.mechanisms) {
+    if (mechanism.expanded) {
+      collectNodes(
+        mechanism.expanded,
+        [...path, mechanism.expanded.domain],
+        nodes,
+      );
+    }
+  }
+}
+
+function differencesOf(states: SpfNodeState[]): SpfNodeDifference[] {
+  const distinct = (values: unknown[]) => new Set(values).size > 1;
+  const differences: SpfNodeDifference[] = [];
+
+  if (distinct(states.map((s) => s.status))) differences.push("status");
+  if (distinct(states.filter((s) => s.record).map((s) => s.record))) {
+    differences.push("record");
+  }
+  if (distinct(states.filter((s) => s.ttl !== null).map((s) => s.ttl))) {
+    differences.push("ttl");
+  }
+  return differences;
+}
+
+/**
+ * Look up a domain's SPF tree with each resolver and diff the results.
+ * TTLs are reported as each resolver serves them, so they can differ by
+ * how long the answer has sat in that resolver's cache.
+ */
+export async function compareResolvers(
+  domain: string,
+  resolvers: ResolverType[],
+): Promise<SpfCompareResult> {
+  const results = await Promise.all(
+    resolvers.map((resolver) => checkSpf(domain, { resolver, noCache: true })),
+  );
+
+  const trees = results.map((result) => {
+    const nodes = new Map<string, { path: string[]; result: SpfResult }>();
+    collectNodes(result, [result.domain], nodes);
+    return nodes;
+  });
+
+  // Keys in first-seen order, so nodes follow the trees' own order
+  const keys = [...new Set(trees.flatMap((nodes) => [...nodes.keys()]))];
+  const nodes = keys.map((key) => {
+    const path = trees.find((t) => t.has(key))!.get(key)!.path;
+    const states = trees.map((tree, i): SpfNodeState => {
+      const node = tree.get(key);
+      return node ? stateOf(resolvers[i], node.result) : {
+        resolver: resolvers[i],
+        status: "absent",
+        record: null,
+        ttl: null,
+      };
+    });
+
+    return {
+      path,
+      domain: path[path.length - 1],
+      states,
+      differences: differencesOf(states),
+    };
+  });
+
+  return {
+    domain,
+    resolvers,
+    summaries: results.map((result, i) => ({
+      resolver: resolvers[i],
+      lookupCount: result.lookupCount,
+      queryTime: result.queryTime,
+    })),
+    nodes,
+    consistent: nodes.every((node) =>
+      !node.differences.includes("status") &&
+      !node.differences.includes("record")
+    ),
+  };
+}
@@ -0,0 +1,91 @@
+import { assertEquals } from "@std/assert";
+import { compareResolvers } from "./compare.ts";
+import { DnsError, type RecordType, registerResolver } from "./dns.ts";
+
+/** Register a resolver answering from "<type> <name>" keys with a TTL */
+function registerZone(
+  name: string,
+  ttl: number,
+  zone: Record<string, string[] | Error>,
+) {
+  registerResolver({
+    name,
+    label: name,
+    resolve(domain: string, type: RecordType) {
+      const answer = zone[`${type} ${domain}`];
+      if (answer instanceof Error) return Promise.reject(answer);
+      if (!answer) return Promise.reject(new DnsError("NXDOMAIN", 3));
+      return Promise.resolve({
+        answers: answer.map((data) => ({ name: domain, type, ttl, data })),
+      });
+    },
+  });
+}
+
+// "compare-old" still serves the records from before a change
+registerZone("compare-old", 300, {
+  "TXT example.com": ["v=spf1 include:_spf.example.net -all"],
+  "TXT _spf.example.net": ["v=spf1 ip4:192.0.2.0/24 -all"],
+  "TXT same.example": ["v=spf1 -all"],
+  "TXT flaky.example": ["v=spf1 -all"],
+});
+registerZone("compare-new", 60, {
+  "TXT example.com": ["v=spf1 include:_spf.example.org -all"],
+  "TXT _spf.example.org": ["v=spf1 ip4:198.51.100.0/24 -all"],
+  "TXT same.example": ["v=spf1 -all"],
+  "TXT flaky.example": new DnsError("Server failure", 2),
+});
+
+Deno.test("compareResolvers lines up nodes and marks what differs", async () => {
+  const result = await compareResolvers("example.com", [
+    "compare-old",
+    "compare-new",
+  ]);
+
+  assertEquals(result.consistent, false);
+  assertEquals(
+    result.nodes.map((node) => [
+      node.path,
+      node.states.map((state) => state.status),
+      node.differences,
+    ]),
+    [
+      [["example.com"], ["ok", "ok"], ["record", "ttl"]],
+      [["example.com", "_spf.example.net"], ["ok", "absent"], ["status"]],
+      [["example.com", "_spf.example.org"], ["absent", "ok"], ["status"]],
+    ],
+  );
+  assertEquals(result.summaries.map((summary) => summary.lookupCount), [1, 1]);
+});
+
+Deno.test("compareResolvers ignores TTLs when deciding consistency", async () => {
+  const result = await compareResolvers("same.example", [
+    "compare-old",
+    "compare-new",
+  ]);
+
+  assertEquals(result.consistent, true);
+  assertEquals(result.nodes[0].differences, ["ttl"]);
+  assertEquals(result.nodes[0].states.map((state) => state.ttl), [300, 60]);
+});
+
+Deno.test("compareResolvers reports a failed lookup as an error state", async () => {
+  const result = await compareResolvers("flaky.example", [
+    "compare-old",
+    "compare-new",
+  ]);
+
+  assertEquals(result.consistent, false);
+  const [old, fresh] = result.nodes[0].states;
+  assertEquals(old.status, "ok");
+  assertEquals(fresh.status, "error");
+  assertEquals(fresh.record, null);
+  assertEquals(typeof fresh.error, "string");
+});
+
+Deno.test("compareResolvers tells a missing domain from a failed lookup", async () => {
+  const result = await compareResolvers("missing.example", ["compare-old"]);
+
+  assertEquals(result.nodes[0].states[0].status, "nxdomain");
+  assertEquals(result.nodes[0].states[0].error, undefined);
+});
@@ -0,0 +1,362 @@
+/**
+ * DKIM Key Record Module
+ *
+ * Fetches `<selector>._domainkey.<domain>` key records (RFC 6376 Section
+ * 3.6.1), decodes the published public key to report its type and size,
+ * and probes commonly used selectors when none is known.
+ */
+
+import { DnsError, lookupRecords, type ResolverType } from "./dns.ts";
+import type { SpfValidationIssue } from "./spf.ts";
+
+/** Selectors used by common mail providers and ESPs */
+export const DKIM_SELECTORS = [
+  "default",
+  "dkim",
+  "google",
+  "selector1",
+  "selector2",
+  "k1",
+  "k2",
+  "k3",
+  "s1",
+  "s2",
+  "mail",
+  "smtp",
+  "mandrill",
+  "mxvault",
+  "zendesk1",
+  "zendesk2",
+  "everlytickey1",
+  "everlytickey2",
+  "pm",
+  "sig1",
+];
+
+export interface DkimKey {
+  /** k= key type, "rsa" when omitted */
+  type: string;
+  /** Key size in bits, null when the key couldn't be decoded */
+  bits: number | null;
+  /** An empty p= revokes the key */
+  revoked: boolean;
+}
+
+export interface DkimRecord {
+  raw: string;
+  tags: Record<string, string>;
+  key: DkimKey;
+  /** h= acceptable hash algorithms; empty means any */
+  hashAlgorithms: string[];
+  /** t= flags, e.g. "y" for testing mode */
+  flags: string[];
+}
+
+export interface DkimResult {
+  domain: string;
+  selector: string;
+  /** Queried name, <selector>._domainkey.<domain> */
+  name: string;
+  record: DkimRecord | null;
+  issues: SpfValidationIssue[];
+  queryTime: number;
+}
+
+export interface DkimOptions {
+  resolver: ResolverType;
+}
+
+const KNOWN_TAGS = ["v", "h", "k", "n", "p", "s", "t"];
+const KEY_TYPES = ["rsa", "ed25519"];
+
+interface DerElement {
+  tag: number;
+  /** Offset of the first content byte */
+  start: number;
+  /** Offset just past the last content byte */
+  end: number;
+}
+
+function readDer(bytes: Uint8Array, offset: number): DerElement | null {
+  if (offset + 2 > bytes.length) return null;
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let start = offset + 2;
+
+  if (length & 0x80) {
+    const size = length & 0x7f;
+    if (size === 0 || size > 4 || start + size > bytes.length) return null;
+    length = 0;
+    for (let i = 0; i < size; i++) length = length * 256 + bytes[start + i];
+    start += size;
+  }
+
+  const end = start + length;
+  return end > bytes.length ? null : { tag, start, end };
+}
+
+/**
+ * Size of the modulus in a SubjectPublicKeyInfo or bare RSAPublicKey
+ */
+function rsaModulusBits(der: Uint8Array): number | null {
+  const outer = readDer(der, 0);
+  if (!outer || outer.tag !== 0x30) return null;
+
+  let modulus = readDer(der, outer.start);
+  if (modulus?.tag === 0x30) {
+    // SubjectPublicKeyInfo: algorithm, then a BIT STRING holding the key
+    const bitString = readDer(der, modulus.end);
+    if (!bitString || bitString.tag !== 0x03) return null;
+    const key = readDer(der, bitString.start + 1);
+    if (!key || key.tag !== 0x30) return null;
+    modulus = readDer(der, key.start);
+  }
+  if (!modulus || modulus.tag !== 0x02) return null;
+
+  let start = modulus.start;
+  while (start < modulus.end && der[start] === 0) start++;
+  if (start === modulus.end) return null;
+  return (modulus.end - start - 1) * 8 + der[start].toString(2).length;
+}
+
+function decodeBase64(value: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(value) || value.length % 4 === 1) {
+    return null;
+  }
+  try {
+    return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse and validate a DKIM key record's tags
+ */
+export function parseDkimRecord(
+  raw: string,
+): { record: DkimRecord; issues: SpfValidationIssue[] } {
+  const issues: SpfValidationIssue[] = [];
+  const tags: Record<string, string> = {};
+  const parts = raw.split(";").map((part) => part.trim()).filter(Boolean);
+
+  for (const [index, part] of parts.entries()) {
+    const eq = part.indexOf("=");
+    if (eq <= 0) {
+      issues.push({
+        type: "error",
+        code: "invalid-tag",
+        message: `Invalid tag "${part}"`,
+      });
+      continue;
+    }
+    const name = part.slice(0, eq).trim();
+    const value = part.slice(eq + 1).trim();
+
+    if (name === "v" && (index !== 0 || value !== "DKIM1")) {
+      issues.push({
+        type: "error",
+        code: "invalid-version",
+        message: `"v=DKIM1" must be the first tag when present`,
+      });
+    }
+    if (name in tags) {
+      issues.push({
+        type: "error",
+        code: "duplicate-tag",
+        message: `Duplicate tag "${name}"`,
+      });
+      continue;
+    }
+    if (!KNOWN_TAGS.includes(name)) {
+      issues.push({
+        type: "warning",
+        code: "unknown-tag",
+        message: `Unknown tag "${name}" is ignored`,
+      });
+    }
+    tags[name] = value;
+  }
+
+  const list = (value: string | undefined) =>
+    (value ?? "").split(":").map((item) => item.trim().toLowerCase())
+      .filter(Boolean);
+
+  const type = (tags.k ?? "rsa").toLowerCase();
+  const keyData = (tags.p ?? "").replace(/\s+/g, "");
+  const key: DkimKey = {
+    type,
+    bits: null,
+    revoked: tags.p !== undefined && keyData === "",
+  };
+
+  if (tags.p === undefined) {
+    issues.push({
+      type: "error",
+      code: "missing-public-key",
+      message: `Missing required "p" tag`,
+    });
+  } else if (key.revoked) {
+    issues.push({
+      type: "error",
+      code: "revoked-key",
+      message: "The key has been revoked (empty p=)",
+    });
+  } else if (!KEY_TYPES.includes(type)) {
+    issues.push({
+      type: "error",
+      code: "unsupported-key-type",
+      message: `Unsupported key type k=${tags.k}`,
+    });
+  } else {
+    const der = decodeBase64(keyData);
+    if (type === "ed25519") {
+      // RFC 8463: the bare 32-byte public key
+      if (der?.length === 32) key.bits = 256;
+    } else if (der) {
+      key.bits = rsaModulusBits(der);
+    }
+
+    if (key.bits === null) {
+      issues.push({
+        type: "error",
+        code: "invalid-public-key",
+        message: `p= is not a valid base64 ${type} public key`,
+      });
+    } else if (type === "rsa" && key.bits < 1024) {
+      issues.push({
+        type: "error",
+        code: "weak-key",
+        message:
+          `${key.bits}-bit RSA key is too short; verifiers ignore keys under 1024 bits (RFC 8301)`,
+      });
+    } else if (type === "rsa" && key.bits < 2048) {
+      issues.push({
+        type: "warning",
+        code: "short-key",
+        message: `${key.bits}-bit RSA key; 2048 bits is recommended`,
+      });
+    }
+  }
+
+  const hashAlgorithms = list(tags.h);
+  if (hashAlgorithms.length > 0 && !hashAlgorithms.includes("sha256")) {
+    issues.push({
+      type: "error",
+      code: "weak-hash",
+      message: `h=${tags.h} doesn't allow sha256; sha1 must not be used`,
+    });
+  }
+
+  const services = list(tags.s);
+  if (
+    services.length > 0 && !services.includes("*") &&
+    !services.includes("email")
+  ) {
+    issues.push({
+      type: "error",
+      code: "invalid-service-type",
+      message: `s=${tags.s} doesn't allow email`,
+    });
+  }
+
+  const flags = list(tags.t);
+  if (flags.includes("y")) {
+    issues.push({
+      type: "warning",
+      code: "testing-mode",
+      message:
+        "t=y: the domain is testing DKIM; verifiers may treat failures as unsigned",
+    });
+  }
+
+  return {
+    record: { raw, tags, key, hashAlgorithms, flags },
+    issues,
+  };
+}
+
+/**
+ * Look up and validate the key record of one selector
+ */
+export async function lookupDkim(
+  domain: string,
+  selector: string,
+  options: DkimOptions,
+): Promise<DkimResult> {
+  const startTime = performance.now();
+  const name = `${selector}._domainkey.${domain}`;
+  const issues: SpfValidationIssue[] = [];
+  const result = (record: DkimRecord | null): DkimResult => ({
+    domain,
+    selector,
+    name,
+    record,
+    issues,
+    queryTime: Math.round(performance.now() - startTime),
+  });
+
+  let records: string[];
+  try {
+    const response = await lookupRecords(name, "TXT", {
+      resolver: options.resolver,
+    });
+    records = response.answers.map((answer) => answer.data);
+  } catch (err) {
+    if (err instanceof DnsError && err.status === 3) {
+      records = [];
+    } else {
+      issues.push({
+        type: "error",
+        code: "dns-lookup-failed",
+        message: `DNS lookup failed: ${
+          err instanceof Error ? err.message : "Unknown error"
+        }`,
+      });
+      return result(null);
+    }
+  }
+
+  // Key records don't require v=, so any TXT record with tags is a candidate
+  const candidates = records.filter((r) =>
+    /^\s*(v\s*=\s*DKIM1|[a-z]+\s*=)/.test(r)
+  );
+  if (candidates.length === 0) {
+    issues.push({
+      type: "error",
+      code: "no-dkim-record",
+      message: `No DKIM key record found at ${name}`,
+    });
+    return result(null);
+  }
+  if (candidates.length > 1) {
+    issues.push({
+      type: "warning",
+      code: "multiple-dkim-records",
+      message:
+        `${candidates.length} key records at ${name}; verifiers may use any of them`,
+    });
+  }
+
+  const parsed = parseDkimRecord(candidates[0]);
+  issues.push(...parsed.issues);
+  return result(parsed.record);
+}
+
+/**
+ * Probe selectors and return those that publish a key record, along with
+ * those whose lookup failed, since they may publish one too
+ */
+export async function probeDkimSelectors(
+  domain: string,
+  options: DkimOptions,
+  selectors: string[] = DKIM_SELECTORS,
+): Promise<DkimResult[]> {
+  const results = await Promise.all(
+    selectors.map((selector) => lookupDkim(domain, selector, options)),
+  );
+  return results.filter((result) =>
+    result.record !== null ||
+    result.issues.some((i) => i.code === "dns-lookup-failed")
+  );
+}
@@ -0,0 +1,66 @@
+import { assertEquals } from "@std/assert";
+import { parseDkimRecord, probeDkimSelectors } from "./dkim.ts";
+import { DnsError, type RecordType, registerResolver } from "./dns.ts";
+
+async function publicKey(bits: number): Promise<string> {
+  const { publicKey } = await crypto.subtle.generateKey(
+    {
+      name: "RSASSA-PKCS1-v1_5",
+      modulusLength: bits,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: "SHA-256",
+    },
+    true,
+    ["sign", "verify"],
+  );
+  const der = new Uint8Array(await crypto.subtle.exportKey("spki", publicKey));
+  return btoa(String.fromCharCode(...der));
+}
+
+const zone: Record<string, string[] | Error> = {
+  "TXT google._domainkey.example.com": [
+    `v=DKIM1; k=rsa; p=${await publicKey(1024)}`,
+  ],
+  "TXT selector1._domainkey.example.com": new DnsError("Server failure", 2),
+};
+
+registerResolver({
+  name: "dkim-test",
+  label: "DKIM test zone",
+  resolve(domain: string, type: RecordType) {
+    const answer = zone[`${type} ${domain}`];
+    if (answer instanceof Error) return Promise.reject(answer);
+    if (!answer) return Promise.reject(new DnsError("NXDOMAIN", 3));
+    return Promise.resolve({
+      answers: answer.map((data) => ({ name: domain, type, ttl: 0, data })),
+    });
+  },
+});
+
+Deno.test("parseDkimRecord reads the RSA key size", async () => {
+  const { record, issues } = parseDkimRecord(
+    `v=DKIM1; k=rsa; p=${await publicKey(2048)}`,
+  );
+
+  assertEquals(record.key, { type: "rsa", bits: 2048, revoked: false });
+  assertEquals(issues, []);
+});
+
+Deno.test("parseDkimRecord treats an empty p= as a revoked key", () => {
+  const { record } = parseDkimRecord("v=DKIM1; p=");
+
+  assertEquals(record.key.revoked, true);
+});
+
+Deno.test("probeDkimSelectors keeps selectors whose lookup failed", async () => {
+  const results = await probeDkimSelectors("example.com", {
+    resolver: "dkim-test",
+  });
+
+  assertEquals(results.map((result) => result.selector), [
+    "google",
+    "selector1",
+  ]);
+  assertEquals(results[1].record, null);
+  assertEquals(results[1].issues.map((i) => i.code), ["dns-lookup-failed"]);
+});
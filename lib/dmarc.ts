@@ -0,0 +1,557 @@
+/**
+ * DMARC Record Module
+ *
+ * Fetches and validates the `_dmarc` record of a domain (RFC 7489),
+ * falling back to the organizational domain's record, checks that
+ * external report destinations have authorized the domain (Section 7.1),
+ * and explains how an SPF result aligns under the aspf mode.
+ */
+
+import { DnsError, lookupRecords, type ResolverType } from "./dns.ts";
+import type { SpfEvaluationResult } from "./evaluate.ts";
+import type { SpfValidationIssue } from "./spf.ts";
+
+export type DmarcPolicy = "none" | "quarantine" | "reject";
+export type DmarcAlignmentMode = "r" | "s";
+
+export interface DmarcUri {
+  uri: string;
+  /** Mailbox of a mailto: URI */
+  address: string | null;
+  /** Domain of the mailbox */
+  domain: string | null;
+  /** Size limit suffix, e.g. "10m" */
+  maxSize?: string;
+  /** The destination is outside the policy's organizational domain */
+  external: boolean;
+  /** The destination published an authorization record (external only) */
+  authorized?: boolean;
+}
+
+export interface DmarcRecord {
+  raw: string;
+  tags: Record<string, string>;
+  policy: DmarcPolicy | null;
+  subdomainPolicy: DmarcPolicy | null;
+  pct: number;
+  adkim: DmarcAlignmentMode;
+  aspf: DmarcAlignmentMode;
+  rua: DmarcUri[];
+  ruf: DmarcUri[];
+  fo: string[];
+  ri: number;
+}
+
+export interface DmarcSpfAlignment {
+  mode: DmarcAlignmentMode;
+  /** Domain of the RFC5321.MailFrom identity SPF checked */
+  mailFromDomain: string;
+  /** Whether the MailFrom domain aligns with the From domain */
+  aligned: boolean;
+  /** SPF result, when a sending IP was evaluated */
+  spfResult?: SpfEvaluationResult;
+  /** Whether SPF produces a DMARC pass, when the SPF result is known */
+  dmarcPass?: boolean;
+  explanation: string[];
+}
+
+export interface DmarcResult {
+  domain: string;
+  organizationalDomain: string;
+  /** Domain whose _dmarc record applies, null when none was found */
+  recordDomain: string | null;
+  record: DmarcRecord | null;
+  /** Policy applied to mail from the domain: sp= when inherited */
+  effectivePolicy: DmarcPolicy | null;
+  alignment: DmarcSpfAlignment | null;
+  issues: SpfValidationIssue[];
+  queryTime: number;
+}
+
+export interface DmarcOptions {
+  resolver: ResolverType;
+  /** Envelope sender domain; defaults to the domain itself */
+  mailFromDomain?: string;
+  /** SPF result for the envelope sender, if one was evaluated */
+  spfResult?: SpfEvaluationResult;
+}
+
+const POLICIES: DmarcPolicy[] = ["none", "quarantine", "reject"];
+const KNOWN_TAGS = [
+  "v",
+  "p",
+  "sp",
+  "pct",
+  "adkim",
+  "aspf",
+  "rua",
+  "ruf",
+  "fo",
+  "rf",
+  "ri",
+];
+
+/** Second-level labels commonly used for registrations under ccTLDs */
+const COUNTRY_SECOND_LEVELS = [
+  "ac",
+  "co",
+  "com",
+  "edu",
+  "gov",
+  "ltd",
+  "me",
+  "mil",
+  "net",
+  "nhs",
+  "org",
+  "plc",
+  "sch",
+];
+
+/**
+ * Approximate the organizational domain (RFC 7489 Section 3.2) without
+ * the Public Suffix List: the registrable domain is taken to be the last
+ * two labels, or three under common ccTLD second levels such as co.uk
+ */
+export function organizationalDomain(domain: string): string {
+  const labels = domain.toLowerCase().replace(/\.$/, "").split(".");
+  const tld = labels[labels.length - 1];
+  const second = labels[labels.length - 2];
+  const size = labels.length > 2 && tld.length === 2 &&
+      COUNTRY_SECOND_LEVELS.includes(second)
+    ? 3
+    : 2;
+  return labels.slice(-size).join(".");
+}
+
+async function queryTxt(
+  name: string,
+  resolver: ResolverType,
+): Promise<string[]> {
+  try {
+    const response = await lookupRecords(name, "TXT", { resolver });
+    return response.answers.map((answer) => answer.data);
+  } catch (err) {
+    if (err instanceof DnsError && err.status === 3) return [];
+    throw err;
+  }
+}
+
+function parseUris(
+  tag: string,
+  value: string,
+  orgDomain: string,
+  issues: SpfValidationIssue[],
+): DmarcUri[] {
+  return value.split(",").map((part) => part.trim()).filter(Boolean).map(
+    (uri) => {
+      const match = uri.match(/^mailto:([^!]+)(?:!(\d+[kmgt]?))?$/i);
+      if (!match) {
+        issues.push({
+          type: "error",
+          code: "invalid-report-uri",
+          message: `Invalid ${tag} URI "${uri}" (expected mailto:address)`,
+        });
+        return { uri, address: null, domain: null, external: false };
+      }
+
+      let address: string;
+      try {
+        address = decodeURIComponent(match[1]);
+      } catch {
+        issues.push({
+          type: "error",
+          code: "invalid-report-uri",
+          message: `Invalid ${tag} URI "${uri}" (malformed %-encoding)`,
+        });
+        return { uri, address: null, domain: null, external: false };
+      }
+      const at = address.lastIndexOf("@");
+      const domain = at > 0 ? address.slice(at + 1).toLowerCase() : null;
+      if (!domain) {
+        issues.push({
+          type: "error",
+          code: "invalid-report-uri",
+          message: `Invalid ${tag} address "${address}"`,
+        });
+      }
+
+      return {
+        uri,
+        address,
+        domain,
+        maxSize: match[2],
+        external: !!domain && organizationalDomain(domain) !== orgDomain,
+      };
+    },
+  );
+}
+
+function parseMode(
+  tag: string,
+  value: string | undefined,
+  issues: SpfValidationIssue[],
+): DmarcAlignmentMode {
+  if (value === undefined) return "r";
+  const mode = value.toLowerCase();
+  if (mode === "r" || mode === "s") return mode;
+  issues.push({
+    type: "error",
+    code: "invalid-tag-value",
+    message: `Invalid ${tag}=${value} (expected "r" or "s")`,
+  });
+  return "r";
+}
+
+function parsePolicy(
+  tag: string,
+  value: string | undefined,
+  issues: SpfValidationIssue[],
+): DmarcPolicy | null {
+  if (value === undefined) return null;
+  const policy = value.toLowerCase() as DmarcPolicy;
+  if (POLICIES.includes(policy)) return policy;
+  issues.push({
+    type: "error",
+    code: "invalid-tag-value",
+    message: `Invalid ${tag}=${value} (expected none, quarantine or reject)`,
+  });
+  return null;
+}
+
+/**
+ * Parse and validate a DMARC record's tags
+ */
+export function parseDmarcRecord(
+  raw: string,
+  orgDomain: string,
+): { record: DmarcRecord; issues: SpfValidationIssue[] } {
+  const issues: SpfValidationIssue[] = [];
+  const tags: Record<string, string> = {};
+  const parts = raw.split(";").map((part) => part.trim()).filter(Boolean);
+
+  for (const [index, part] of parts.entries()) {
+    const eq = part.indexOf("=");
+    if (eq <= 0) {
+      issues.push({
+        type: "error",
+        code: "invalid-tag",
+        message: `Invalid tag "${part}"`,
+      });
+      continue;
+    }
+    const name = part.slice(0, eq).trim().toLowerCase();
+    const value = part.slice(eq + 1).trim();
+
+    if (index === 0 && (name !== "v" || value !== "DMARC1")) {
+      issues.push({
+        type: "error",
+        code: "invalid-version",
+        message: `Record must start with "v=DMARC1"`,
+      });
+    }
+    if (name in tags) {
+      issues.push({
+        type: "error",
+        code: "duplicate-tag",
+        message: `Duplicate tag "${name}"`,
+      });
+      continue;
+    }
+    if (!KNOWN_TAGS.includes(name)) {
+      issues.push({
+        type: "warning",
+        code: "unknown-tag",
+        message: `Unknown tag "${name}" is ignored`,
+      });
+    }
+    tags[name] = value;
+  }
+
+  const policy = parsePolicy("p", tags.p, issues);
+  if (tags.p === undefined) {
+    issues.push({
+      type: "error",
+      code: "missing-policy",
+      message: `Missing required "p" tag`,
+    });
+  }
+
+  let pct = 100;
+  if (tags.pct !== undefined) {
+    if (/^\d{1,3}$/.test(tags.pct) && Number(tags.pct) <= 100) {
+      pct = Number(tags.pct);
+    } else {
+      issues.push({
+        type: "error",
+        code: "invalid-tag-value",
+        message: `Invalid pct=${tags.pct} (expected 0-100)`,
+      });
+    }
+  }
+
+  const fo = (tags.fo ?? "0").split(":").map((option) => option.trim());
+  for (const option of fo) {
+    if (!["0", "1", "d", "s"].includes(option)) {
+      issues.push({
+        type: "error",
+        code: "invalid-tag-value",
+        message: `Invalid fo option "${option}" (expected 0, 1, d or s)`,
+      });
+    }
+  }
+
+  if (
+    tags.rf !== undefined &&
+    tags.rf.split(":").some((f) => f.trim().toLowerCase() !== "afrf")
+  ) {
+    issues.push({
+      type: "error",
+      code: "invalid-tag-value",
+      message: `Invalid rf=${tags.rf} (only "afrf" is defined)`,
+    });
+  }
+
+  let ri = 86400;
+  if (tags.ri !== undefined) {
+    if (/^\d+$/.test(tags.ri) && Number(tags.ri) <= 0xffffffff) {
+      ri = Number(tags.ri);
+    } else {
+      issues.push({
+        type: "error",
+        code: "invalid-tag-value",
+        message: `Invalid ri=${tags.ri} (expected seconds)`,
+      });
+    }
+  }
+
+  const record: DmarcRecord = {
+    raw,
+    tags,
+    policy,
+    subdomainPolicy: parsePolicy("sp", tags.sp, issues),
+    pct,
+    adkim: parseMode("adkim", tags.adkim, issues),
+    aspf: parseMode("aspf", tags.aspf, issues),
+    rua: tags.rua ? parseUris("rua", tags.rua, orgDomain, issues) : [],
+    ruf: tags.ruf ? parseUris("ruf", tags.ruf, orgDomain, issues) : [],
+    fo,
+    ri,
+  };
+
+  if (policy === "none") {
+    issues.push({
+      type: "warning",
+      code: "monitoring-only",
+      message: `p=none only monitors; failing mail is still delivered`,
+    });
+  }
+  if (pct < 100) {
+    issues.push({
+      type: "warning",
+      code: "partial-enforcement",
+      message: `pct=${pct}: the policy applies to only ${pct}% of failing mail`,
+    });
+  }
+  if (record.rua.length === 0) {
+    issues.push({
+      type: "warning",
+      code: "no-aggregate-reports",
+      message: `No rua= destination; aggregate reports won't be sent`,
+    });
+  }
+
+  return { record, issues };
+}
+
+/**
+ * Find the DMARC record among TXT records; several records mean none
+ * applies (RFC 7489 Section 6.6.3)
+ */
+async function findRecord(
+  domain: string,
+  resolver: ResolverType,
+  issues: SpfValidationIssue[],
+): Promise<string | null> {
+  const records = (await queryTxt(`_dmarc.${domain}`, resolver))
+    .filter((r) => /^v\s*=\s*DMARC1\s*(;|$)/i.test(r));
+
+  if (records.length > 1) {
+    issues.push({
+      type: "error",
+      code: "multiple-dmarc-records",
+      message:
+        `Multiple DMARC records at _dmarc.${domain}; receivers ignore them all`,
+    });
+    return null;
+  }
+  return records[0] ?? null;
+}
+
+/**
+ * Check external rua/ruf destinations for an authorization record at
+ * <domain>._report._dmarc.<destination> (RFC 7489 Section 7.1)
+ */
+async function authorizeDestinations(
+  domain: string,
+  uris: DmarcUri[],
+  resolver: ResolverType,
+  issues: SpfValidationIssue[],
+) {
+  await Promise.all(
+    uris.filter((uri) => uri.external && uri.domain).map(async (uri) => {
+      const name = `${domain}._report._dmarc.${uri.domain}`;
+      try {
+        const records = await queryTxt(name, resolver);
+        uri.authorized = records.some((r) => /^v\s*=\s*DMARC1/i.test(r));
+      } catch {
+        uri.authorized = false;
+      }
+      if (!uri.authorized) {
+        issues.push({
+          type: "error",
+          code: "unauthorized-report-destination",
+          message:
+            `${uri.domain} has not authorized reports for ${domain} (no DMARC1 record at ${name})`,
+        });
+      }
+    }),
+  );
+}
+
+/**
+ * Explain whether SPF can produce a DMARC pass for mail from a domain
+ */
+export function explainSpfAlignment(
+  fromDomain: string,
+  mailFromDomain: string,
+  mode: DmarcAlignmentMode,
+  spfResult?: SpfEvaluationResult,
+): DmarcSpfAlignment {
+  const from = fromDomain.toLowerCase();
+  const mailFrom = mailFromDomain.toLowerCase();
+  const aligned = mode === "s"
+    ? from === mailFrom
+    : organizationalDomain(from) === organizationalDomain(mailFrom);
+
+  const explanation = [
+    "SPF authenticates the envelope sender (MAIL FROM) domain, not the From header that DMARC protects.",
+    mode === "s"
+      ? `aspf=s (strict): SPF only counts when the MAIL FROM domain is exactly ${from}.`
+      : `aspf=r (relaxed): SPF counts when the MAIL FROM domain shares the organizational domain ${
+        organizationalDomain(from)
+      }, so subdomains such as bounces.${
+        organizationalDomain(from)
+      } also align.`,
+    aligned
+      ? `MAIL FROM ${mailFrom} is aligned with ${from}.`
+      : `MAIL FROM ${mailFrom} is not aligned with ${from}; an SPF pass for it can't satisfy DMARC, so DKIM has to align instead.`,
+  ];
+
+  let dmarcPass: boolean | undefined;
+  if (spfResult) {
+    dmarcPass = aligned && spfResult === "pass";
+    explanation.push(
+      spfResult === "pass"
+        ? aligned
+          ? "SPF passed and is aligned: DMARC passes on SPF."
+          : "SPF passed but is not aligned: it doesn't count for DMARC."
+        : `SPF result is ${spfResult}; only an aligned pass counts for DMARC.`,
+    );
+  }
+
+  return {
+    mode,
+    mailFromDomain: mailFrom,
+    aligned,
+    spfResult,
+    dmarcPass,
+    explanation,
+  };
+}
+
+/**
+ * Look up and validate the DMARC policy that applies to a domain
+ */
+export async function lookupDmarc(
+  domain: string,
+  options: DmarcOptions,
+): Promise<DmarcResult> {
+  const startTime = performance.now();
+  const issues: SpfValidationIssue[] = [];
+  const orgDomain = organizationalDomain(domain);
+  const { resolver } = options;
+
+  let recordDomain: string | null = domain;
+  let raw: string | null;
+  try {
+    raw = await findRecord(domain, resolver, issues);
+    if (!raw && orgDomain !== domain) {
+      recordDomain = orgDomain;
+      raw = await findRecord(orgDomain, resolver, issues);
+    }
+  } catch (err) {
+    issues.push({
+      type: "error",
+      code: "dns-lookup-failed",
+      message: `DNS lookup failed: ${
+        err instanceof Error ? err.message : "Unknown error"
+      }`,
+    });
+    raw = null;
+  }
+
+  if (!raw) {
+    if (!issues.some((i) => i.type === "error")) {
+      issues.push({
+        type: "error",
+        code: "no-dmarc-record",
+        message: `No DMARC record found at _dmarc.${domain}${
+          orgDomain !== domain ? ` or _dmarc.${orgDomain}` : ""
+        }`,
+      });
+    }
+    return {
+      domain,
+      organizationalDomain: orgDomain,
+      recordDomain: null,
+      record: null,
+      effectivePolicy: null,
+      alignment: null,
+      issues,
+      queryTime: Math.round(performance.now() - startTime),
+    };
+  }
+
+  const parsed = parseDmarcRecord(raw, orgDomain);
+  issues.push(...parsed.issues);
+  const record = parsed.record;
+
+  await authorizeDestinations(
+    recordDomain,
+    [...record.rua, ...record.ruf],
+    resolver,
+    issues,
+  );
+
+  const inherited = recordDomain !== domain;
+  const effectivePolicy = inherited
+    ? record.subdomainPolicy ?? record.policy
+    : record.policy;
+
+  return {
+    domain,
+    organizationalDomain: orgDomain,
+    recordDomain,
+    record,
+    effectivePolicy,
+    alignment: explainSpfAlignment(
+      domain,
+      options.mailFromDomain || domain,
+      record.aspf,
+      options.spfResult,
+    ),
+    issues,
+    queryTime: Math.round(performance.now() - startTime),
+  };
+}
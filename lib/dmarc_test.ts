@@ -0,0 +1,107 @@
+import { assertEquals } from "@std/assert";
+import {
+  explainSpfAlignment,
+  lookupDmarc,
+  organizationalDomain,
+  parseDmarcRecord,
+} from "./dmarc.ts";
+import { DnsError, type RecordType, registerResolver } from "./dns.ts";
+
+const zone: Record<string, string[]> = {
+  "TXT _dmarc.example.com": ["v=DMARC1; p=reject; rua=mailto:%E0%A4%A@x"],
+  "TXT _dmarc.example.org": ["v=DMARC1; p=none; sp=quarantine"],
+};
+
+registerResolver({
+  name: "dmarc-test",
+  label: "DMARC test zone",
+  resolve(domain: string, type: RecordType) {
+    const answer = zone[`${type} ${domain}`];
+    if (!answer) return Promise.reject(new DnsError("NXDOMAIN", 3));
+    return Promise.resolve({
+      answers: answer.map((data) => ({ name: domain, type, ttl: 0, data })),
+    });
+  },
+});
+
+Deno.test("organizationalDomain keeps two labels, or three under ccTLD second levels", () => {
+  assertEquals(organizationalDomain("mail.example.com"), "example.com");
+  assertEquals(organizationalDomain("a.b.example.co.uk"), "example.co.uk");
+  assertEquals(organizationalDomain("Example.COM."), "example.com");
+});
+
+Deno.test("parseDmarcRecord reads the policy tags", () => {
+  const { record, issues } = parseDmarcRecord(
+    "v=DMARC1; p=quarantine; sp=reject; pct=50; aspf=s; rua=mailto:d@example.com!10m",
+    "example.com",
+  );
+
+  assertEquals(issues.map((i) => i.code), ["partial-enforcement"]);
+  assertEquals(record.policy, "quarantine");
+  assertEquals(record.subdomainPolicy, "reject");
+  assertEquals(record.pct, 50);
+  assertEquals(record.aspf, "s");
+  assertEquals(record.adkim, "r");
+  assertEquals(record.rua, [{
+    uri: "mailto:d@example.com!10m",
+    address: "d@example.com",
+    domain: "example.com",
+    maxSize: "10m",
+    external: false,
+  }]);
+});
+
+Deno.test("parseDmarcRecord flags a missing policy and bad values", () => {
+  const { issues } = parseDmarcRecord("v=DMARC1; pct=150; fo=2", "example.com");
+
+  assertEquals(issues.map((i) => i.code), [
+    "missing-policy",
+    "invalid-tag-value",
+    "invalid-tag-value",
+    "no-aggregate-reports",
+  ]);
+});
+
+Deno.test("parseDmarcRecord reports a malformed %-encoded report URI", () => {
+  const { record, issues } = parseDmarcRecord(
+    "v=DMARC1; p=reject; rua=mailto:%E0%A4%A@x",
+    "example.com",
+  );
+
+  assertEquals(issues.map((i) => i.code), ["invalid-report-uri"]);
+  assertEquals(record.rua[0].address, null);
+});
+
+Deno.test("lookupDmarc doesn't fail on a malformed report URI", async () => {
+  const result = await lookupDmarc("example.com", { resolver: "dmarc-test" });
+
+  assertEquals(result.effectivePolicy, "reject");
+  assertEquals(result.issues.map((i) => i.code), ["invalid-report-uri"]);
+});
+
+Deno.test("lookupDmarc applies the organizational domain's sp= to subdomains", async () => {
+  const result = await lookupDmarc("mail.example.org", {
+    resolver: "dmarc-test",
+  });
+
+  assertEquals(result.recordDomain, "example.org");
+  assertEquals(result.effectivePolicy, "quarantine");
+});
+
+Deno.test("explainSpfAlignment compares organizational domains in relaxed mode", () => {
+  assertEquals(
+    explainSpfAlignment("example.com", "bounces.example.com", "r", "pass")
+      .dmarcPass,
+    true,
+  );
+  assertEquals(
+    explainSpfAlignment("example.com", "bounces.example.com", "s", "pass")
+      .dmarcPass,
+    false,
+  );
+  assertEquals(
+    explainSpfAlignment("example.com", "example.com", "s", "softfail")
+      .dmarcPass,
+    false,
+  );
+});
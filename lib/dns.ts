@@ -1,21 +1,82 @@
 /**
  * DNS Resolver Module for SPF Lookups
  *
- * Provides TXT record resolution with DNS-over-HTTPS backends:
- * - Google DNS-over-HTTPS
- * - Cloudflare DNS-over-HTTPS
+ * Provides TXT, A, AAAA, MX and PTR record resolution (plus the legacy
+ * SPF type 99, to detect records still published with it) through
+ * pluggable resolvers:
+ * - DNS-over-HTTPS JSON APIs (Google, Cloudflare, or any custom URL)
+ * - RFC 8484 DNS-over-HTTPS wire format (`application/dns-message`)
+ * - The system resolver via Deno.resolveDns, optionally against a
+ *   specific nameserver
+ *
+ * Responses are cached according to their TTLs (see dns_cache.ts).
+ *
+ * Google, Cloudflare and Quad9 are registered by default. Further resolvers are
+ * added with registerResolver() or from a JSON configuration (see
+ * parseResolverConfig), e.g. to use an internal recursive resolver or a
+ * local stand-in for tests.
+ */
+
+import { type CachedDnsResponse, createDnsCache } from "./dns_cache.ts";
+import {
+  decodeMessage,
+  DNS_TYPES,
+  type DnsRecord,
+  encodeQuery,
+  toBase64Url,
+} from "./dns_message.ts";
+import { DnsError, type MxRecord } from "./spf/mod.ts";
+
+export { DnsError };
+
+/** Name of a registered resolver, as used in the `resolver` query parameter */
+export type ResolverType = string;
+
+export type RecordType = "TXT" | "A" | "AAAA" | "MX" | "PTR" | "SPF";
+
+export interface DnsAnswer {
+  name: string;
+  type: RecordType;
+  ttl: number;
+  /**
+   * Presentation form: addresses for A/AAAA, "<preference> <exchange>" for
+   * MX, host names for PTR and the concatenated text for TXT and SPF
+   */
+  data: string;
+  /** TXT/SPF character-strings as published, before concatenation */
+  strings?: string[];
+}
+
+export interface DnsResponse {
+  answers: DnsAnswer[];
+  /**
+   * How long an empty answer may be cached: the lesser of the authority
+   * SOA's TTL and minimum field (RFC 2308)
+   */
+  negativeTtl?: number;
+}
+
+/**
+ * A DNS backend. resolve() returns the answers of the requested type and
+ * throws DnsError for a non-zero response code.
  */
+export interface DnsResolver {
+  name: string;
+  label: string;
+  resolve(domain: string, type: RecordType): Promise<DnsResponse>;
+}
 
-export type ResolverType = "google" | "cloudflare";
+interface GoogleDnsRecord {
+  name: string;
+  type: number;
+  TTL: number;
+  data: string;
+}
 
 interface GoogleDnsResponse {
   Status: number;
-  Answer?: Array<{
-    name: string;
-    type: number;
-    TTL: number;
-    data: string;
-  }>;
+  Answer?: GoogleDnsRecord[];
+  Authority?: GoogleDnsRecord[];
 }
 
 const DNS_STATUS_MESSAGES: Record<number, string> = {
@@ -26,97 +87,451 @@ const DNS_STATUS_MESSAGES: Record<number, string> = {
   5: "Query refused",
 };
 
+function statusError(status: number, negativeTtl?: number): DnsError {
+  return new DnsError(
+    DNS_STATUS_MESSAGES[status] || `DNS error: ${status}`,
+    status,
+    negativeTtl,
+  );
+}
+
+function normalizeName(name: string): string {
+  return name.replace(/\.$/, "").toLowerCase();
+}
+
 /**
- * Resolve TXT records using Google's DNS-over-HTTPS API
+ * Split TXT presentation data such as `"v=spf1 " "-all"` into its
+ * character-strings, decoding `\"` and `\DDD` escapes. Unquoted data is
+ * a single string.
  */
-export async function resolveWithGoogleDoH(domain: string): Promise<string[]> {
-  const params = new URLSearchParams({
-    name: domain,
-    type: "16", // TXT record type
-    cd: "true", // Disable DNSSEC validation
-  });
+export function parseTxtData(data: string): string[] {
+  if (!data.startsWith('"')) return [data];
 
-  const url = `https://dns.google/resolve?${params}`;
-  const response = await fetch(url, {
-    headers: { Accept: "application/dns-json" },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Google DNS request failed: ${response.statusText}`);
+  const strings: string[] = [];
+  const pattern = /"((?:[^"\\]|\\.)*)"/g;
+  for (const match of data.matchAll(pattern)) {
+    strings.push(
+      match[1].replace(
+        /\\(\d{3}|.)/g,
+        (_, escaped: string) =>
+          escaped.length === 3 ? String.fromCharCode(Number(escaped)) : escaped,
+      ),
+    );
   }
+  return strings;
+}
 
-  const data: GoogleDnsResponse = await response.json();
+/**
+ * Extract the answers of the requested type from a JSON DoH response
+ */
+function parseAnswers(
+  data: GoogleDnsResponse,
+  type: RecordType,
+): DnsResponse {
+  const soa = data.Authority?.find((a) => a.type === DNS_TYPES.SOA);
+  const minimum = soa ? Number(soa.data.trim().split(/\s+/).pop()) : NaN;
+  const negativeTtl = soa && !isNaN(minimum)
+    ? Math.min(soa.TTL, minimum)
+    : undefined;
 
   if (data.Status !== 0) {
-    throw new Error(
-      DNS_STATUS_MESSAGES[data.Status] || `DNS error: ${data.Status}`,
-    );
+    throw statusError(data.Status, negativeTtl);
   }
 
   if (!data.Answer) {
-    return [];
+    return { answers: [], negativeTtl };
   }
 
-  return data.Answer
-    .filter((a) => a.type === 16)
-    .map((a) => a.data.replace(/^"|"$/g, "").replace(/"\s*"/g, ""));
+  const answers = data.Answer
+    .filter((a) => a.type === DNS_TYPES[type])
+    .map((a) => {
+      const answer: DnsAnswer = {
+        name: normalizeName(a.name),
+        type,
+        ttl: a.TTL,
+        data: a.data,
+      };
+      if (type === "TXT" || type === "SPF") {
+        answer.strings = parseTxtData(a.data);
+        answer.data = answer.strings.join("");
+      }
+      return answer;
+    });
+
+  return { answers, negativeTtl };
+}
+
+export interface DohJsonResolverOptions {
+  name: string;
+  label?: string;
+  /** JSON API endpoint, e.g. "https://dns.google/resolve" */
+  url: string;
 }
 
 /**
- * Resolve TXT records using Cloudflare's DNS-over-HTTPS API
+ * Create a resolver for a DNS-over-HTTPS JSON API
+ * (`application/dns-json`, as offered by Google and Cloudflare)
  */
-export async function resolveWithCloudflareDoH(
-  domain: string,
-): Promise<string[]> {
-  const params = new URLSearchParams({
-    name: domain,
-    type: "TXT",
-    cd: "true",
-  });
+export function createDohJsonResolver(
+  options: DohJsonResolverOptions,
+): DnsResolver {
+  const label = options.label ?? options.name;
 
-  const url = `https://cloudflare-dns.com/dns-query?${params}`;
-  const response = await fetch(url, {
-    headers: { Accept: "application/dns-json" },
-  });
+  return {
+    name: options.name,
+    label,
+    async resolve(domain, type) {
+      const params = new URLSearchParams({
+        name: domain,
+        type,
+        cd: "true", // Disable DNSSEC validation
+      });
+
+      const response = await fetch(`${options.url}?${params}`, {
+        headers: { Accept: "application/dns-json" },
+      });
+
+      if (!response.ok) {
+        throw new Error(`${label} request failed: ${response.statusText}`);
+      }
+
+      const data: GoogleDnsResponse = await response.json();
+      return parseAnswers(data, type);
+    },
+  };
+}
+
+export interface DohResolverOptions {
+  name: string;
+  label?: string;
+  /** RFC 8484 endpoint, e.g. "https://dns.quad9.net/dns-query" */
+  url: string;
+  /** Send the query as a `dns` GET parameter (default) or a POST body */
+  method?: "GET" | "POST";
+}
+
+/**
+ * Create a resolver speaking RFC 8484 DNS-over-HTTPS wire format
+ */
+export function createDohResolver(options: DohResolverOptions): DnsResolver {
+  const label = options.label ?? options.name;
+  const method = options.method ?? "GET";
+
+  return {
+    name: options.name,
+    label,
+    async resolve(domain, type) {
+      const query = encodeQuery(domain, DNS_TYPES[type], {
+        checkingDisabled: true,
+      });
+
+      const response = method === "GET"
+        ? await fetch(`${options.url}?dns=${toBase64Url(query)}`, {
+          headers: { Accept: "application/dns-message" },
+        })
+        : await fetch(options.url, {
+          method: "POST",
+          headers: {
+            Accept: "application/dns-message",
+            "Content-Type": "application/dns-message",
+          },
+          body: query,
+        });
+
+      if (!response.ok) {
+        throw new Error(`${label} request failed: ${response.statusText}`);
+      }
 
-  if (!response.ok) {
-    throw new Error(`Cloudflare DNS request failed: ${response.statusText}`);
+      const message = decodeMessage(
+        new Uint8Array(await response.arrayBuffer()),
+      );
+
+      const soa = message.authority.find((r: DnsRecord) =>
+        r.type === DNS_TYPES.SOA
+      );
+      const negativeTtl = soa ? Math.min(soa.ttl, soa.minimum!) : undefined;
+
+      if (message.rcode !== 0) {
+        throw statusError(message.rcode, negativeTtl);
+      }
+
+      const answers = message.answers
+        .filter((record) => record.type === DNS_TYPES[type])
+        .map((record) => ({
+          name: record.name,
+          type,
+          ttl: record.ttl,
+          data: record.data,
+          strings: record.strings,
+        }));
+
+      return { answers, negativeTtl };
+    },
+  };
+}
+
+export interface SystemResolverOptions {
+  name: string;
+  label?: string;
+  /** Nameserver to query instead of the system default */
+  nameserver?: { ipAddr: string; port?: number };
+}
+
+/**
+ * Create a resolver backed by Deno.resolveDns (requires --allow-net).
+ * Deno reports both NXDOMAIN and empty answers as NotFound; both map to
+ * DnsError status 3.
+ */
+export function createSystemResolver(
+  options: SystemResolverOptions,
+): DnsResolver {
+  const nameServer = options.nameserver && {
+    ipAddr: options.nameserver.ipAddr,
+    port: options.nameserver.port ?? 53,
+  };
+
+  return {
+    name: options.name,
+    label: options.label ?? options.name,
+    async resolve(domain, type) {
+      const lookupOptions = nameServer ? { nameServer } : undefined;
+      // Deno.resolveDns doesn't expose TTLs
+      const answer = (data: string, strings?: string[]): DnsAnswer => ({
+        name: normalizeName(domain),
+        type,
+        ttl: 0,
+        data,
+        strings,
+      });
+
+      try {
+        switch (type) {
+          case "SPF":
+            // Deno.resolveDns can't query type 99; report it as unpublished
+            return { answers: [] };
+          case "TXT": {
+            const records = await Deno.resolveDns(
+              domain,
+              "TXT",
+              lookupOptions,
+            );
+            return {
+              answers: records.map((chunks) => answer(chunks.join(""), chunks)),
+            };
+          }
+          case "MX": {
+            const records = await Deno.resolveDns(domain, "MX", lookupOptions);
+            return {
+              answers: records.map((mx) =>
+                answer(`${mx.preference} ${mx.exchange}`)
+              ),
+            };
+          }
+          default: {
+            const records = await Deno.resolveDns(domain, type, lookupOptions);
+            return { answers: records.map((data) => answer(data)) };
+          }
+        }
+      } catch (err) {
+        if (err instanceof Deno.errors.NotFound) {
+          throw new DnsError(DNS_STATUS_MESSAGES[3], 3);
+        }
+        throw err;
+      }
+    },
+  };
+}
+
+export interface ResolverConfig {
+  name: string;
+  label?: string;
+  type: "doh" | "doh-json" | "system";
+  /** Endpoint URL, for "doh" and "doh-json" */
+  url?: string;
+  /** HTTP method, for "doh" */
+  method?: "GET" | "POST";
+  /** "host" or "host:port" ("[v6]:port" for IPv6), for "system" */
+  nameserver?: string;
+}
+
+function parseNameserver(input: string): { ipAddr: string; port?: number } {
+  const bracketed = input.match(/^\[(.+)\](?::(\d+))?$/);
+  if (bracketed) {
+    return {
+      ipAddr: bracketed[1],
+      port: bracketed[2] ? Number(bracketed[2]) : undefined,
+    };
   }
 
-  const data: GoogleDnsResponse = await response.json();
+  const parts = input.split(":");
+  if (parts.length === 2) {
+    return { ipAddr: parts[0], port: Number(parts[1]) };
+  }
 
-  if (data.Status !== 0) {
-    throw new Error(
-      DNS_STATUS_MESSAGES[data.Status] || `DNS error: ${data.Status}`,
-    );
+  return { ipAddr: input };
+}
+
+/**
+ * Build resolvers from a JSON array of ResolverConfig entries, e.g.
+ * `[{"name":"internal","type":"system","nameserver":"10.0.0.53"}]`
+ */
+export function parseResolverConfig(json: string): DnsResolver[] {
+  const entries: ResolverConfig[] = JSON.parse(json);
+  if (!Array.isArray(entries)) {
+    throw new Error("Resolver configuration must be a JSON array");
   }
 
-  if (!data.Answer) {
-    return [];
+  return entries.map((entry) => {
+    if (!entry.name || !/^[a-z0-9_-]+$/i.test(entry.name)) {
+      throw new Error(`Invalid resolver name: ${entry.name}`);
+    }
+
+    switch (entry.type) {
+      case "doh":
+        if (!entry.url) {
+          throw new Error(`Resolver ${entry.name} is missing "url"`);
+        }
+        return createDohResolver({
+          name: entry.name,
+          label: entry.label,
+          url: entry.url,
+          method: entry.method,
+        });
+      case "doh-json":
+        if (!entry.url) {
+          throw new Error(`Resolver ${entry.name} is missing "url"`);
+        }
+        return createDohJsonResolver({
+          name: entry.name,
+          label: entry.label,
+          url: entry.url,
+        });
+      case "system":
+        return createSystemResolver({
+          name: entry.name,
+          label: entry.label,
+          nameserver: entry.nameserver
+            ? parseNameserver(entry.nameserver)
+            : undefined,
+        });
+      default:
+        throw new Error(
+          `Unknown resolver type for ${entry.name}: ${entry.type}`,
+        );
+    }
+  });
+}
+
+const resolvers = new Map<string, DnsResolver>();
+
+/** Names of all registered resolvers, in registration order */
+export const VALID_RESOLVERS: ResolverType[] = [];
+
+/**
+ * Register a resolver, replacing any existing one with the same name
+ */
+export function registerResolver(resolver: DnsResolver) {
+  if (!resolvers.has(resolver.name)) {
+    VALID_RESOLVERS.push(resolver.name);
   }
+  resolvers.set(resolver.name, resolver);
+}
 
-  return data.Answer
-    .filter((a) => a.type === 16)
-    .map((a) => a.data.replace(/^"|"$/g, "").replace(/"\s*"/g, ""));
+/**
+ * List registered resolvers for display
+ */
+export function listResolvers(): Array<{ name: string; label: string }> {
+  return VALID_RESOLVERS.map((name) => ({
+    name,
+    label: resolvers.get(name)!.label,
+  }));
 }
 
+/**
+ * Register the resolvers configured in the DNS_RESOLVERS environment
+ * variable, a JSON array of ResolverConfig entries
+ */
+export function registerResolversFromEnv() {
+  const config = Deno.env.get("DNS_RESOLVERS");
+  if (config) parseResolverConfig(config).forEach(registerResolver);
+}
+
+registerResolver(createDohJsonResolver({
+  name: "google",
+  label: "Google DNS (DoH)",
+  url: "https://dns.google/resolve",
+}));
+
+registerResolver(createDohJsonResolver({
+  name: "cloudflare",
+  label: "Cloudflare DNS (DoH)",
+  url: "https://cloudflare-dns.com/dns-query",
+}));
+
+registerResolver(createDohResolver({
+  name: "quad9",
+  label: "Quad9 DNS (DoH)",
+  url: "https://dns.quad9.net/dns-query",
+}));
+
+/** Response cache shared by all lookups */
+export const dnsCache = createDnsCache({
+  negativeTtlOf: (err) =>
+    err instanceof DnsError && err.status === 3
+      ? err.negativeTtl ?? 0
+      : undefined,
+});
+
 export interface ResolveOptions {
   resolver?: ResolverType;
+  /** Bypass the response cache (default false) */
+  noCache?: boolean;
 }
 
 /**
- * Resolve TXT records using DNS-over-HTTPS
+ * Look up full answers (TTL, TXT character-strings) with a registered
+ * resolver, through the response cache
  */
-export async function resolveTxt(
+export async function lookupRecords(
   domain: string,
+  type: RecordType,
   options: ResolveOptions = {},
-): Promise<string[]> {
-  const { resolver = "google" } = options;
+): Promise<CachedDnsResponse> {
+  const { resolver = "google", noCache = false } = options;
 
-  const resolverFunctions: Record<ResolverType, (domain: string) => Promise<string[]>> = {
-    google: resolveWithGoogleDoH,
-    cloudflare: resolveWithCloudflareDoH,
-  };
+  const backend = resolvers.get(resolver);
+  if (!backend) {
+    throw new Error(`Unknown resolver: ${resolver}`);
+  }
+
+  if (noCache) {
+    return {
+      ...(await backend.resolve(domain, type)),
+      cacheHit: false,
+      ttl: 0,
+    };
+  }
+
+  const key = `${resolver}:${type}:${normalizeName(domain)}`;
+  return await dnsCache.lookup(key, () => backend.resolve(domain, type));
+}
+
+/**
+ * Resolve mail exchangers, sorted by preference
+ */
+export async function resolveMx(
+  domain: string,
+  options: ResolveOptions = {},
+): Promise<MxRecord[]> {
+  const response = await lookupRecords(domain, "MX", options);
 
-  return resolverFunctions[resolver](domain);
+  return response.answers
+    .map(({ data }) => {
+      const [preference, exchange = ""] = data.trim().split(/\s+/);
+      return {
+        preference: Number(preference),
+        exchange: exchange.replace(/\.$/, "").toLowerCase(),
+      };
+    })
+    .sort((a, b) => a.preference - b.preference);
 }
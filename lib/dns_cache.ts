@@ -0,0 +1,156 @@
+/**
+ * DNS Response Cache
+ *
+ * TTL-aware, size-bounded cache for resolver responses, shared across
+ * lookups and requests. Positive answers live for their smallest record
+ * TTL; NODATA and NXDOMAIN answers for the SOA-derived negative TTL
+ * (RFC 2308). Concurrent identical queries share one in-flight request.
+ */
+
+import type { DnsResponse } from "./dns.ts";
+
+export interface CachedDnsResponse extends DnsResponse {
+  /** Answered from the cache (or a concurrent identical query) */
+  cacheHit: boolean;
+  /** Seconds until the cached response expires */
+  ttl: number;
+}
+
+export interface DnsCacheOptions {
+  /** Maximum number of cached responses (default 10000) */
+  maxEntries?: number;
+  /** Upper bound for any TTL, in seconds (default 1 day) */
+  maxTtl?: number;
+  /** Clock, in milliseconds; injectable for tests */
+  now?: () => number;
+  /**
+   * Negative TTL for an error that is a cacheable answer (NXDOMAIN), or
+   * undefined for failures that must be retried
+   */
+  negativeTtlOf?: (err: unknown) => number | undefined;
+}
+
+export interface DnsCacheStats {
+  size: number;
+  hits: number;
+  misses: number;
+}
+
+export interface DnsCache {
+  /**
+   * Return the cached response for key, or run query and cache its
+   * result. Cached negative answers rethrow the original error.
+   */
+  lookup(
+    key: string,
+    query: () => Promise<DnsResponse>,
+  ): Promise<CachedDnsResponse>;
+  clear(): void;
+  stats(): DnsCacheStats;
+}
+
+interface CacheEntry {
+  response?: DnsResponse;
+  error?: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Create a cache. Keys should identify resolver, type and name, since
+ * different resolvers may legitimately disagree.
+ */
+export function createDnsCache(options: DnsCacheOptions = {}): DnsCache {
+  const {
+    maxEntries = 10_000,
+    maxTtl = 86_400,
+    now = Date.now,
+    negativeTtlOf = () => undefined,
+  } = options;
+
+  const entries = new Map<string, CacheEntry>();
+  const inflight = new Map<string, Promise<CacheEntry>>();
+  let hits = 0;
+  let misses = 0;
+
+  const store = (key: string, entry: CacheEntry) => {
+    if (entry.expiresAt <= now()) return;
+    entries.delete(key);
+    entries.set(key, entry);
+    while (entries.size > maxEntries) {
+      entries.delete(entries.keys().next().value!);
+    }
+  };
+
+  const toResult = (entry: CacheEntry, cacheHit: boolean) => {
+    if (entry.error) throw entry.error;
+    return {
+      ...entry.response!,
+      cacheHit,
+      ttl: Math.max(0, Math.ceil((entry.expiresAt - now()) / 1000)),
+    };
+  };
+
+  const run = async (
+    key: string,
+    query: () => Promise<DnsResponse>,
+  ): Promise<CacheEntry> => {
+    const startedAt = now();
+    let entry: CacheEntry;
+
+    try {
+      const response = await query();
+      const ttl = response.answers.length > 0
+        ? Math.min(...response.answers.map((a) => a.ttl))
+        : response.negativeTtl ?? 0;
+      entry = { response, expiresAt: startedAt + Math.min(ttl, maxTtl) * 1000 };
+    } catch (err) {
+      const ttl = negativeTtlOf(err);
+      if (ttl === undefined) throw err;
+      entry = {
+        error: err,
+        expiresAt: startedAt + Math.min(ttl, maxTtl) * 1000,
+      };
+    }
+
+    store(key, entry);
+    return entry;
+  };
+
+  return {
+    async lookup(key, query) {
+      const cached = entries.get(key);
+      if (cached && cached.expiresAt > now()) {
+        hits++;
+        entries.delete(key);
+        entries.set(key, cached);
+        return toResult(cached, true);
+      }
+      if (cached) entries.delete(key);
+
+      const pending = inflight.get(key);
+      if (pending) {
+        hits++;
+        return toResult(await pending, true);
+      }
+
+      misses++;
+      const promise = run(key, query);
+      inflight.set(key, promise);
+      try {
+        return toResult(await promise, false);
+      } finally {
+        inflight.delete(key);
+      }
+    },
+
+    clear() {
+      entries.clear();
+      hits = 0;
+      misses = 0;
+    },
+
+    stats() {
+      return { size: entries.size, hits, misses };
+    },
+  };
+}
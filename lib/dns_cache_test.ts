@@ -0,0 +1,110 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { createDnsCache } from "./dns_cache.ts";
+import { DnsError, type DnsResponse } from "./dns.ts";
+
+function answer(ttl: number, data = "192.0.2.1"): DnsResponse {
+  return { answers: [{ name: "example.com", type: "A", ttl, data }] };
+}
+
+function clock() {
+  let time = 0;
+  return {
+    now: () => time,
+    advance: (seconds: number) => time += seconds * 1000,
+  };
+}
+
+Deno.test("cache keeps answers for their smallest TTL", async () => {
+  const time = clock();
+  const cache = createDnsCache({ now: time.now });
+  let queries = 0;
+  const query = () => {
+    queries++;
+    return Promise.resolve({
+      answers: [...answer(300).answers, ...answer(60, "192.0.2.2").answers],
+    });
+  };
+
+  assertEquals((await cache.lookup("A example.com", query)).cacheHit, false);
+  time.advance(59);
+  const cached = await cache.lookup("A example.com", query);
+  assertEquals(cached.cacheHit, true);
+  assertEquals(cached.ttl, 1);
+  time.advance(1);
+  assertEquals((await cache.lookup("A example.com", query)).cacheHit, false);
+  assertEquals(queries, 2);
+  assertEquals(cache.stats(), { size: 1, hits: 1, misses: 2 });
+});
+
+Deno.test("cache keeps NODATA for the negative TTL", async () => {
+  const time = clock();
+  const cache = createDnsCache({ now: time.now });
+  const query = () => Promise.resolve({ answers: [], negativeTtl: 30 });
+
+  await cache.lookup("TXT example.com", query);
+  time.advance(29);
+  assertEquals((await cache.lookup("TXT example.com", query)).cacheHit, true);
+  time.advance(1);
+  assertEquals((await cache.lookup("TXT example.com", query)).cacheHit, false);
+});
+
+Deno.test("cache rethrows cached NXDOMAIN but retries other failures", async () => {
+  const cache = createDnsCache({
+    negativeTtlOf: (err) =>
+      err instanceof DnsError && err.status === 3 ? 60 : undefined,
+  });
+  let queries = 0;
+  const fail = (status: number) => () => {
+    queries++;
+    return Promise.reject(new DnsError("failed", status));
+  };
+
+  await assertRejects(() => cache.lookup("A missing.example", fail(3)));
+  await assertRejects(() => cache.lookup("A missing.example", fail(3)));
+  assertEquals(queries, 1);
+
+  await assertRejects(() => cache.lookup("A broken.example", fail(2)));
+  await assertRejects(() => cache.lookup("A broken.example", fail(2)));
+  assertEquals(queries, 3);
+});
+
+Deno.test("cache caps TTLs at maxTtl", async () => {
+  const time = clock();
+  const cache = createDnsCache({ now: time.now, maxTtl: 10 });
+  const query = () => Promise.resolve(answer(3600));
+
+  assertEquals((await cache.lookup("A example.com", query)).ttl, 10);
+  time.advance(10);
+  assertEquals((await cache.lookup("A example.com", query)).cacheHit, false);
+});
+
+Deno.test("cache evicts the least recently used entry", async () => {
+  const cache = createDnsCache({ maxEntries: 2 });
+  const query = () => Promise.resolve(answer(300));
+
+  await cache.lookup("a", query);
+  await cache.lookup("b", query);
+  await cache.lookup("a", query);
+  await cache.lookup("c", query);
+
+  assertEquals((await cache.lookup("a", query)).cacheHit, true);
+  assertEquals((await cache.lookup("b", query)).cacheHit, false);
+});
+
+Deno.test("cache shares one query between concurrent lookups", async () => {
+  const cache = createDnsCache();
+  let queries = 0;
+  const query = async () => {
+    queries++;
+    await Promise.resolve();
+    return answer(300);
+  };
+
+  const results = await Promise.all([
+    cache.lookup("A example.com", query),
+    cache.lookup("A example.com", query),
+  ]);
+
+  assertEquals(queries, 1);
+  assertEquals(results.map((result) => result.cacheHit), [false, true]);
+});
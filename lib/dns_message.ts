@@ -0,0 +1,321 @@
+/**
+ * DNS Wire Format
+ *
+ * Encodes queries and decodes responses in the RFC 1035 message format, as
+ * carried by DNS-over-HTTPS (RFC 8484, `application/dns-message`). Only the
+ * record types SPF validation needs are decoded: A, AAAA, MX, PTR, TXT and
+ * the legacy SPF type, plus CNAME and SOA for answer chains and negative
+ * caching.
+ */
+
+import { formatIp } from "./spf/mod.ts";
+
+export const DNS_TYPES = {
+  A: 1,
+  NS: 2,
+  CNAME: 5,
+  SOA: 6,
+  PTR: 12,
+  MX: 15,
+  TXT: 16,
+  AAAA: 28,
+  OPT: 41,
+  SPF: 99,
+} as const;
+
+const CLASS_IN = 1;
+const FLAG_RD = 0x0100;
+const FLAG_CD = 0x0010;
+
+export interface DnsQuestion {
+  name: string;
+  type: number;
+  class: number;
+}
+
+export interface DnsRecord {
+  name: string;
+  type: number;
+  class: number;
+  ttl: number;
+  /** Presentation form: address, host name, "<preference> <exchange>", ... */
+  data: string;
+  /** TXT character-strings, kept separate as published */
+  strings?: string[];
+  /** SOA minimum field, used as the negative-caching TTL (RFC 2308) */
+  minimum?: number;
+}
+
+export interface DnsMessage {
+  id: number;
+  flags: number;
+  rcode: number;
+  questions: DnsQuestion[];
+  answers: DnsRecord[];
+  authority: DnsRecord[];
+  additional: DnsRecord[];
+}
+
+export interface EncodeQueryOptions {
+  /** Message ID; RFC 8484 recommends 0 so responses stay cacheable */
+  id?: number;
+  /** Set the CD (checking disabled) bit */
+  checkingDisabled?: boolean;
+}
+
+/**
+ * Error raised for a truncated or malformed message
+ */
+export class DnsMessageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DnsMessageError";
+  }
+}
+
+function encodeName(name: string): number[] {
+  const bytes: number[] = [];
+  const encoder = new TextEncoder();
+
+  for (const label of name.replace(/\.$/, "").split(".")) {
+    if (!label) continue;
+    const encoded = encoder.encode(label);
+    if (encoded.length > 63) {
+      throw new DnsMessageError(`Label too long: ${label}`);
+    }
+    bytes.push(encoded.length, ...encoded);
+  }
+
+  bytes.push(0);
+  if (bytes.length > 255) {
+    throw new DnsMessageError(`Name too long: ${name}`);
+  }
+  return bytes;
+}
+
+/**
+ * Encode a recursive query for a single question
+ */
+export function encodeQuery(
+  name: string,
+  type: number,
+  options: EncodeQueryOptions = {},
+) {
+  const { id = 0, checkingDisabled = false } = options;
+  const flags = FLAG_RD | (checkingDisabled ? FLAG_CD : 0);
+
+  return new Uint8Array([
+    id >> 8,
+    id & 0xff,
+    flags >> 8,
+    flags & 0xff,
+    0,
+    1, // QDCOUNT
+    0,
+    0, // ANCOUNT
+    0,
+    0, // NSCOUNT
+    0,
+    0, // ARCOUNT
+    ...encodeName(name),
+    type >> 8,
+    type & 0xff,
+    CLASS_IN >> 8,
+    CLASS_IN & 0xff,
+  ]);
+}
+
+class Reader {
+  private view: DataView;
+  offset = 0;
+
+  constructor(readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private ensure(length: number, at = this.offset) {
+    if (at + length > this.bytes.length) {
+      throw new DnsMessageError("Truncated DNS message");
+    }
+  }
+
+  u8(): number {
+    this.ensure(1);
+    return this.view.getUint8(this.offset++);
+  }
+
+  u16(): number {
+    this.ensure(2);
+    const value = this.view.getUint16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    this.ensure(4);
+    const value = this.view.getUint32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  slice(length: number): Uint8Array {
+    this.ensure(length);
+    const value = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  /**
+   * Read a possibly compressed name (RFC 1035 Section 4.1.4)
+   */
+  name(): string {
+    const labels: string[] = [];
+    const decoder = new TextDecoder();
+    let offset = this.offset;
+    let jumped = false;
+    let jumps = 0;
+
+    while (true) {
+      this.ensure(1, offset);
+      const length = this.bytes[offset];
+
+      if ((length & 0xc0) === 0xc0) {
+        this.ensure(2, offset);
+        if (++jumps > 64) {
+          throw new DnsMessageError("Compression pointer loop");
+        }
+        const pointer = ((length & 0x3f) << 8) | this.bytes[offset + 1];
+        if (!jumped) this.offset = offset + 2;
+        jumped = true;
+        offset = pointer;
+        continue;
+      }
+
+      if (length === 0) {
+        if (!jumped) this.offset = offset + 1;
+        break;
+      }
+
+      this.ensure(length + 1, offset);
+      labels.push(
+        decoder.decode(this.bytes.subarray(offset + 1, offset + 1 + length)),
+      );
+      offset += length + 1;
+    }
+
+    return labels.join(".").toLowerCase();
+  }
+}
+
+function decodeRecord(reader: Reader): DnsRecord {
+  const name = reader.name();
+  const type = reader.u16();
+  const recordClass = reader.u16();
+  const ttl = reader.u32();
+  const length = reader.u16();
+  const end = reader.offset + length;
+
+  const record: DnsRecord = { name, type, class: recordClass, ttl, data: "" };
+
+  switch (type) {
+    case DNS_TYPES.A: {
+      const bytes = reader.slice(4);
+      record.data = Array.from(bytes).join(".");
+      break;
+    }
+    case DNS_TYPES.AAAA: {
+      const bytes = reader.slice(16);
+      const value = bytes.reduce((acc, b) => (acc << 8n) | BigInt(b), 0n);
+      record.data = formatIp({ version: 6, value });
+      break;
+    }
+    case DNS_TYPES.MX: {
+      const preference = reader.u16();
+      record.data = `${preference} ${reader.name()}`;
+      break;
+    }
+    case DNS_TYPES.PTR:
+    case DNS_TYPES.CNAME:
+    case DNS_TYPES.NS:
+      record.data = reader.name();
+      break;
+    case DNS_TYPES.TXT:
+    case DNS_TYPES.SPF: {
+      const decoder = new TextDecoder();
+      const strings: string[] = [];
+      while (reader.offset < end) {
+        strings.push(decoder.decode(reader.slice(reader.u8())));
+      }
+      record.strings = strings;
+      record.data = strings.join("");
+      break;
+    }
+    case DNS_TYPES.SOA: {
+      const mname = reader.name();
+      const rname = reader.name();
+      const [serial, refresh, retry, expire, minimum] = [
+        reader.u32(),
+        reader.u32(),
+        reader.u32(),
+        reader.u32(),
+        reader.u32(),
+      ];
+      record.data =
+        `${mname} ${rname} ${serial} ${refresh} ${retry} ${expire} ${minimum}`;
+      record.minimum = minimum;
+      break;
+    }
+    default:
+      reader.slice(length);
+  }
+
+  if (reader.offset !== end) {
+    throw new DnsMessageError(`Malformed RDATA for record type ${type}`);
+  }
+
+  return record;
+}
+
+/**
+ * Decode a DNS message
+ */
+export function decodeMessage(bytes: Uint8Array): DnsMessage {
+  const reader = new Reader(bytes);
+  const id = reader.u16();
+  const flags = reader.u16();
+  const counts = [reader.u16(), reader.u16(), reader.u16(), reader.u16()];
+
+  const questions: DnsQuestion[] = [];
+  for (let i = 0; i < counts[0]; i++) {
+    questions.push({
+      name: reader.name(),
+      type: reader.u16(),
+      class: reader.u16(),
+    });
+  }
+
+  const readRecords = (count: number) =>
+    Array.from({ length: count }, () => decodeRecord(reader));
+
+  return {
+    id,
+    flags,
+    rcode: flags & 0x0f,
+    questions,
+    answers: readRecords(counts[1]),
+    authority: readRecords(counts[2]),
+    additional: readRecords(counts[3]),
+  };
+}
+
+/**
+ * Encode bytes as unpadded base64url, for the RFC 8484 `dns` GET parameter
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(
+    /=+$/,
+    "",
+  );
+}
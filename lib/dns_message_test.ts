@@ -0,0 +1,141 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  decodeMessage,
+  DNS_TYPES,
+  DnsMessageError,
+  encodeQuery,
+  toBase64Url,
+} from "./dns_message.ts";
+
+const u16 = (n: number) => [n >> 8, n & 0xff];
+const u32 = (n: number) => [...u16(n >>> 16), ...u16(n & 0xffff)];
+const text = (s: string) => [...new TextEncoder().encode(s)];
+const label = (s: string) => [s.length, ...text(s)];
+// example.com sits right after the header, so later names point back to it
+const EXAMPLE_COM = [0xc0, 12];
+
+function record(type: number, rdata: number[], ttl = 300): number[] {
+  return [
+    ...EXAMPLE_COM,
+    ...u16(type),
+    ...u16(1),
+    ...u32(ttl),
+    ...u16(rdata.length),
+    ...rdata,
+  ];
+}
+
+function response(
+  rcode: number,
+  answers: number[][],
+  authority: number[][] = [],
+): Uint8Array {
+  return new Uint8Array([
+    ...u16(0),
+    ...u16(0x8180 | rcode),
+    ...u16(1),
+    ...u16(answers.length),
+    ...u16(authority.length),
+    ...u16(0),
+    ...label("example"),
+    ...label("com"),
+    0,
+    ...u16(DNS_TYPES.TXT),
+    ...u16(1),
+    ...answers.flat(),
+    ...authority.flat(),
+  ]);
+}
+
+Deno.test("encodeQuery encodes a recursive query with the CD bit", () => {
+  assertEquals(
+    Array.from(
+      encodeQuery("example.com.", DNS_TYPES.MX, { checkingDisabled: true }),
+    ),
+    [
+      ...u16(0), // ID
+      ...u16(0x0110), // RD and CD
+      ...u16(1), // QDCOUNT
+      ...u16(0),
+      ...u16(0),
+      ...u16(0),
+      ...label("example"),
+      ...label("com"),
+      0,
+      ...u16(DNS_TYPES.MX),
+      ...u16(1), // IN
+    ],
+  );
+});
+
+Deno.test("encodeQuery rejects labels over 63 bytes", () => {
+  assertThrows(
+    () => encodeQuery(`${"a".repeat(64)}.example.com`, DNS_TYPES.A),
+    DnsMessageError,
+  );
+});
+
+Deno.test("decodeMessage decodes answers, following compressed names", () => {
+  const message = decodeMessage(response(0, [
+    record(DNS_TYPES.A, [192, 0, 2, 1]),
+    record(DNS_TYPES.AAAA, [0x20, 0x01, 0x0d, 0xb8, ...Array(11).fill(0), 1]),
+    record(DNS_TYPES.MX, [...u16(10), ...label("mail"), ...EXAMPLE_COM]),
+    record(DNS_TYPES.TXT, [...label("v=spf1 "), ...label("-all")]),
+  ], [
+    record(DNS_TYPES.SOA, [
+      ...label("ns"),
+      ...EXAMPLE_COM,
+      ...label("hostmaster"),
+      ...EXAMPLE_COM,
+      ...u32(2024010101),
+      ...u32(7200),
+      ...u32(3600),
+      ...u32(1209600),
+      ...u32(600),
+    ], 900),
+  ]));
+
+  assertEquals(message.rcode, 0);
+  assertEquals(message.questions, [
+    { name: "example.com", type: DNS_TYPES.TXT, class: 1 },
+  ]);
+  assertEquals(message.answers.map((answer) => answer.data), [
+    "192.0.2.1",
+    "2001:db8::1",
+    "10 mail.example.com",
+    "v=spf1 -all",
+  ]);
+  assertEquals(message.answers[3].strings, ["v=spf1 ", "-all"]);
+  assertEquals(message.authority[0].minimum, 600);
+  assertEquals(message.authority[0].ttl, 900);
+});
+
+Deno.test("decodeMessage reads the response code", () => {
+  assertEquals(decodeMessage(response(3, [])).rcode, 3);
+});
+
+Deno.test("decodeMessage rejects truncated and looping messages", () => {
+  const full = response(0, [record(DNS_TYPES.A, [192, 0, 2, 1])]);
+  assertThrows(() => decodeMessage(full.slice(0, -2)), DnsMessageError);
+
+  const loop = response(0, []);
+  loop.set([0xc0, 12], 12);
+  assertThrows(
+    () => decodeMessage(loop),
+    DnsMessageError,
+    "Compression pointer loop",
+  );
+});
+
+Deno.test("decodeMessage rejects RDATA of the wrong length", () => {
+  assertThrows(
+    () => decodeMessage(response(0, [record(DNS_TYPES.A, [192, 0, 2, 1, 0])])),
+    DnsMessageError,
+    "Malformed RDATA",
+  );
+});
+
+Deno.test("toBase64Url encodes without padding", () => {
+  assertEquals(toBase64Url(new Uint8Array([0xfb, 0xff, 0xbf])), "-_-_");
+  assertEquals(toBase64Url(new Uint8Array([0xff])), "_w");
+});
@@ -0,0 +1,35 @@
+/**
+ * SPF Evaluation
+ *
+ * Runs the engine's check_host() (see lib/spf/evaluate.ts) with a
+ * registered resolver.
+ */
+
+import type { ResolverType } from "./dns.ts";
+import { spfResolver } from "./spf.ts";
+import {
+  type EvaluateOptions as EngineEvaluateOptions,
+  evaluateSpf as evaluateSpfWith,
+  type SpfEvaluation,
+} from "./spf/mod.ts";
+
+export type {
+  SpfEvaluation,
+  SpfEvaluationMatch,
+  SpfEvaluationResult,
+} from "./spf/mod.ts";
+
+export interface EvaluateOptions
+  extends Omit<EngineEvaluateOptions, "resolver"> {
+  resolver?: ResolverType;
+}
+
+/**
+ * Evaluate whether a client IP is authorized to send mail for a domain
+ */
+export function evaluateSpf(options: EvaluateOptions): Promise<SpfEvaluation> {
+  return evaluateSpfWith({
+    ...options,
+    resolver: spfResolver(options.resolver ?? "google"),
+  });
+}
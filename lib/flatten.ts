@@ -0,0 +1,433 @@
+/**
+ * SPF Flattening
+ *
+ * Rewrites an expanded SPF tree into a record set that needs fewer DNS
+ * lookups: include, redirect, a and mx terms whose answers are fully
+ * static become ip4/ip6 terms, and the pass ranges are packed into
+ * chained `include:_spf1.<domain>` records sized to fit a plain UDP
+ * response. Terms that depend on the sending host (ptr, exists, macros)
+ * are kept as written.
+ */
+
+import {
+  estimateTxtResponseSize,
+  formatNetwork,
+  type IpNetwork,
+  mergeNetworks,
+  networkRange,
+  parseCidr,
+  splitTxtStrings,
+} from "./spf/mod.ts";
+import { collectIpSet, type SpfIpBlocks } from "./ipset.ts";
+import {
+  formatMechanism,
+  LOOKUP_MECHANISMS,
+  MAX_DNS_LOOKUPS,
+  type SpfMechanism,
+  type SpfResult,
+  type SpfValidationIssue,
+} from "./spf.ts";
+
+export interface FlattenOptions {
+  /** Label prefix of chained records (default "_spf", giving _spf1, _spf2, ...) */
+  prefix?: string;
+  /** TTL of the generated zone entries (default 3600) */
+  ttl?: number;
+  /** Largest DNS response a record may produce, in bytes (default 512) */
+  maxUdpSize?: number;
+  /** Include domains to keep as includes rather than flatten */
+  keep?: string[];
+}
+
+export interface FlattenedRecord {
+  name: string;
+  value: string;
+  /** TXT character-strings of at most 255 bytes */
+  strings: string[];
+  /** Estimated size of the DNS response carrying the record */
+  responseSize: number;
+}
+
+export interface FlattenDiffLine {
+  op: " " | "-" | "+";
+  text: string;
+}
+
+export interface SpfFlattenResult {
+  domain: string;
+  original: string | null;
+  records: FlattenedRecord[];
+  /** DNS lookups the flattened record set needs */
+  lookupCount: number;
+  /** Zone file entries for the records */
+  zone: string;
+  /** Term-by-term diff of the domain's record */
+  diff: FlattenDiffLine[];
+  /** Terms kept because they can't be flattened */
+  kept: string[];
+  issues: SpfValidationIssue[];
+}
+
+function quoteTxt(value: string): string {
+  return `"${value.replace(/[\\"]/g, (c) => `\\${c}`)}"`;
+}
+
+/**
+ * Whether every answer below a result is known without a sending host
+ */
+function isStatic(result: SpfResult): boolean {
+  if (!result.record) return false;
+  return result.mechanisms.every((m) => {
+    if (m.macro) return false;
+    switch (m.type) {
+      case "ptr":
+      case "exists":
+        return false;
+      case "a":
+      case "mx":
+        return !!m.resolved && !m.resolved.error;
+      case "include":
+      case "redirect":
+        return !!m.expanded && isStatic(m.expanded);
+      default:
+        return true;
+    }
+  });
+}
+
+/**
+ * DNS lookups a term costs, including everything below it
+ */
+function lookupsOf(mechanism: SpfMechanism): number {
+  if (!LOOKUP_MECHANISMS.includes(mechanism.type)) return 0;
+  const nested = mechanism.expanded?.mechanisms ?? [];
+  return 1 + nested.reduce((sum, m) => sum + lookupsOf(m), 0);
+}
+
+/**
+ * The "all" term that ends evaluation of a record, following redirects
+ */
+function finalAll(result: SpfResult): SpfMechanism | null {
+  const all = result.mechanisms.find((m) => m.type === "all");
+  if (all) return all;
+  const redirect = result.mechanisms.find((m) => m.type === "redirect");
+  return redirect?.expanded ? finalAll(redirect.expanded) : null;
+}
+
+function networksOf(blocks: SpfIpBlocks): IpNetwork[] {
+  return [
+    ...blocks.ipv4.map((cidr) => parseCidr(cidr, 4)!),
+    ...blocks.ipv6.map((cidr) => parseCidr(cidr, 6)!),
+  ];
+}
+
+function ipTerm(qualifier: string, network: IpNetwork): string {
+  const type = network.address.version === 4 ? "ip4" : "ip6";
+  const full = network.prefix === (network.address.version === 4 ? 32 : 128);
+  const address = full
+    ? formatNetwork(network).replace(/\/\d+$/, "")
+    : formatNetwork(network);
+  return `${qualifier === "+" ? "" : qualifier}${type}:${address}`;
+}
+
+function overlaps(a: IpNetwork, b: IpNetwork): boolean {
+  if (a.address.version !== b.address.version) return false;
+  const [aStart, aEnd] = networkRange(a);
+  const [bStart, bEnd] = networkRange(b);
+  return aStart <= bEnd && bStart <= aEnd;
+}
+
+/**
+ * Line diff of two term lists (longest common subsequence)
+ */
+function diffTerms(before: string[], after: string[]): FlattenDiffLine[] {
+  const lengths = Array.from(
+    { length: before.length + 1 },
+    () => new Array<number>(after.length + 1).fill(0),
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: FlattenDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      lines.push({ op: " ", text: before[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ op: "-", text: before[i++] });
+    } else {
+      lines.push({ op: "+", text: after[j++] });
+    }
+  }
+  while (i < before.length) lines.push({ op: "-", text: before[i++] });
+  while (j < after.length) lines.push({ op: "+", text: after[j++] });
+  return lines;
+}
+
+/**
+ * Build a flattened record set for an expanded SPF result
+ */
+export function flattenSpf(
+  result: SpfResult,
+  options: FlattenOptions = {},
+): SpfFlattenResult {
+  const {
+    prefix = "_spf",
+    ttl = 3600,
+    maxUdpSize = 512,
+    keep = [],
+  } = options;
+  const domain = result.domain;
+  const issues: SpfValidationIssue[] = [];
+  const kept: string[] = [];
+
+  if (!result.record) {
+    return {
+      domain,
+      original: null,
+      records: [],
+      lookupCount: 0,
+      zone: "",
+      diff: [],
+      kept,
+      issues: [{ type: "error", message: `No SPF record found for ${domain}` }],
+    };
+  }
+
+  // Terms of the new root record; null marks where the pass ranges go
+  const head: Array<string | null> = [];
+  const tail: string[] = [];
+  const pass: IpNetwork[] = [];
+  const others: Array<{ network: IpNetwork; afterPass: boolean }> = [];
+  let lookupCount = 0;
+
+  const placePass = (networks: IpNetwork[]) => {
+    if (networks.length === 0) return;
+    if (!head.includes(null)) head.push(null);
+    pass.push(...networks);
+  };
+  const placeOther = (qualifier: string, networks: IpNetwork[]) => {
+    for (const network of networks) {
+      head.push(ipTerm(qualifier, network));
+      others.push({ network, afterPass: head.includes(null) });
+    }
+  };
+  const keepTerm = (mechanism: SpfMechanism) => {
+    const term = formatMechanism(mechanism);
+    head.push(term);
+    lookupCount += lookupsOf(mechanism);
+    if (LOOKUP_MECHANISMS.includes(mechanism.type)) kept.push(term);
+  };
+  const placeBlocks = (blocks: SpfIpBlocks[]) => {
+    for (const block of blocks) {
+      if (block.qualifier === "+") placePass(networksOf(block));
+      else placeOther(block.qualifier, mergeNetworks(networksOf(block)));
+    }
+  };
+
+  let redirect: SpfMechanism | undefined;
+  for (const mechanism of result.mechanisms) {
+    const { type, qualifier } = mechanism;
+
+    if (type === "redirect") {
+      redirect = mechanism;
+      continue;
+    }
+    if (mechanism.modifier || type === "all") {
+      tail.push(formatMechanism(mechanism));
+      continue;
+    }
+
+    if (type === "ip4" || type === "ip6") {
+      const network = parseCidr(mechanism.value, type === "ip4" ? 4 : 6);
+      if (!network) keepTerm(mechanism);
+      else if (qualifier === "+") placePass([network]);
+      else placeOther(qualifier, [network]);
+      continue;
+    }
+
+    if (
+      (type === "a" || type === "mx") && !mechanism.macro &&
+      mechanism.resolved && !mechanism.resolved.error
+    ) {
+      const set = collectIpSet({ ...result, mechanisms: [mechanism] });
+      placeBlocks(set.blocks);
+      continue;
+    }
+
+    if (
+      type === "include" && mechanism.expanded &&
+      isStatic(mechanism.expanded) &&
+      !keep.includes(mechanism.expanded.domain)
+    ) {
+      const blocks = collectIpSet(mechanism.expanded).blocks.filter((b) =>
+        b.qualifier === "+"
+      );
+      if (qualifier === "+") {
+        placePass(blocks.flatMap(networksOf));
+      } else {
+        placeOther(qualifier, mergeNetworks(blocks.flatMap(networksOf)));
+      }
+      continue;
+    }
+
+    if (type === "include" && !mechanism.expanded?.record) {
+      issues.push({
+        type: "warning",
+        message: `"${
+          formatMechanism(mechanism)
+        }" could not be resolved and is kept as written`,
+      });
+    }
+
+    keepTerm(mechanism);
+  }
+
+  // redirect is ignored when "all" is present
+  if (redirect && !result.mechanisms.some((m) => m.type === "all")) {
+    const target = redirect.expanded;
+    if (target && isStatic(target) && !keep.includes(target.domain)) {
+      placeBlocks(collectIpSet(target).blocks);
+      const all = finalAll(target);
+      if (all) tail.unshift(formatMechanism(all));
+    } else {
+      tail.push(formatMechanism(redirect));
+      lookupCount += lookupsOf(redirect);
+      kept.push(formatMechanism(redirect));
+    }
+  }
+
+  const passTerms = [4, 6].flatMap((version) =>
+    mergeNetworks(pass.filter((n) => n.address.version === version))
+  ).map((network) => ipTerm("+", network));
+
+  for (const { network, afterPass } of others) {
+    if (afterPass && pass.some((p) => overlaps(p, network))) {
+      issues.push({
+        type: "warning",
+        message: `${
+          formatNetwork(network)
+        } overlaps flattened pass ranges that are now checked first`,
+      });
+    }
+  }
+
+  const fits = (name: string, terms: string[]) =>
+    estimateTxtResponseSize(name, ["v=spf1", ...terms].join(" ")) <=
+      maxUdpSize;
+  const rootTerms = (middle: string[]) => [
+    ...head.flatMap((term) => (term === null ? middle : [term])),
+    ...tail,
+  ];
+
+  const records: Array<{ name: string; terms: string[] }> = [];
+
+  if (fits(domain, rootTerms(passTerms))) {
+    records.push({ name: domain, terms: rootTerms(passTerms) });
+  } else {
+    const chainName = (n: number) => `${prefix}${n}.${domain}`;
+    records.push({
+      name: domain,
+      terms: rootTerms([`include:${chainName(1)}`]),
+    });
+
+    let remaining = passTerms;
+    for (let n = 1; remaining.length > 0; n++) {
+      const name = chainName(n);
+      const next = `include:${chainName(n + 1)}`;
+      let count = remaining.length;
+      if (!fits(name, [...remaining, "-all"])) {
+        count = 0;
+        while (
+          count < remaining.length &&
+          fits(name, [...remaining.slice(0, count + 1), next, "-all"])
+        ) {
+          count++;
+        }
+      }
+      if (count === 0) {
+        issues.push({
+          type: "error",
+          message: `${
+            remaining[0]
+          } does not fit in a ${maxUdpSize}-byte response`,
+        });
+        break;
+      }
+      const terms = remaining.slice(0, count);
+      remaining = remaining.slice(count);
+      records.push({
+        name,
+        terms: remaining.length > 0
+          ? [...terms, next, "-all"]
+          : [...terms, "-all"],
+      });
+    }
+    lookupCount += records.length - 1;
+  }
+
+  const flattened = records.map(({ name, terms }) => {
+    const value = ["v=spf1", ...terms].join(" ");
+    return {
+      name,
+      value,
+      strings: splitTxtStrings(value),
+      responseSize: estimateTxtResponseSize(name, value),
+    };
+  });
+
+  if (flattened[0].responseSize > maxUdpSize) {
+    issues.push({
+      type: "error",
+      message: `${domain} needs a ${
+        flattened[0].responseSize
+      }-byte response even after flattening (limit ${maxUdpSize})`,
+    });
+  }
+
+  if (lookupCount > MAX_DNS_LOOKUPS) {
+    issues.push({
+      type: "error",
+      message:
+        `Flattened records still need ${lookupCount} DNS lookups (RFC 7208 allows max ${MAX_DNS_LOOKUPS})`,
+    });
+  }
+
+  if (pass.length > 0) {
+    issues.push({
+      type: "warning",
+      message:
+        "Flattened ranges are a snapshot; regenerate them when included providers change their records",
+    });
+  }
+
+  const zone = flattened
+    .map((r) => `${r.name}. ${ttl} IN TXT ${r.strings.map(quoteTxt).join(" ")}`)
+    .map((line) => `${line}\n`)
+    .join("");
+
+  const originalTerms = result.record.trim().split(/\s+/);
+  const diff = diffTerms(originalTerms, flattened[0].value.split(" "));
+  for (const record of flattened.slice(1)) {
+    diff.push({ op: "+", text: `${record.name}: ${record.value}` });
+  }
+
+  return {
+    domain,
+    original: result.record,
+    records: flattened,
+    lookupCount,
+    zone,
+    diff,
+    kept,
+    issues,
+  };
+}
@@ -0,0 +1,95 @@
+import { assert, assertEquals } from "@std/assert";
+import { flattenSpf } from "./flatten.ts";
+import { checkSpf } from "./spf/mod.ts";
+import { type Zone, zoneResolver } from "./spf/_test_utils.ts";
+
+async function flatten(zone: Zone, keep?: string[]) {
+  const result = await checkSpf("example.com", {
+    resolver: zoneResolver(zone),
+  });
+  return flattenSpf(result, { keep });
+}
+
+Deno.test("flattenSpf replaces static includes and mx with merged ranges", async () => {
+  const flattened = await flatten({
+    "TXT example.com": ["v=spf1 include:_spf.example.net mx -all"],
+    "TXT _spf.example.net": [
+      "v=spf1 ip4:192.0.2.0/25 ip4:192.0.2.128/25 -all",
+    ],
+    "MX example.com": ["10 mail.example.com"],
+    "A mail.example.com": ["198.51.100.1"],
+  });
+
+  assertEquals(flattened.records.map((record) => record.value), [
+    "v=spf1 ip4:192.0.2.0/24 ip4:198.51.100.1 -all",
+  ]);
+  assertEquals(flattened.lookupCount, 0);
+  assertEquals(flattened.kept, []);
+  assertEquals(
+    flattened.zone,
+    'example.com. 3600 IN TXT "v=spf1 ip4:192.0.2.0/24 ip4:198.51.100.1 -all"\n',
+  );
+  assertEquals(flattened.diff, [
+    { op: " ", text: "v=spf1" },
+    { op: "-", text: "include:_spf.example.net" },
+    { op: "-", text: "mx" },
+    { op: "+", text: "ip4:192.0.2.0/24" },
+    { op: "+", text: "ip4:198.51.100.1" },
+    { op: " ", text: "-all" },
+  ]);
+});
+
+Deno.test("flattenSpf keeps terms that depend on the sending host", async () => {
+  const flattened = await flatten({
+    "TXT example.com": [
+      "v=spf1 ip4:192.0.2.0/24 exists:%{i}.allow.example.com include:dynamic.example.net include:kept.example.net -all",
+    ],
+    "TXT dynamic.example.net": ["v=spf1 ptr -all"],
+    "TXT kept.example.net": ["v=spf1 ip4:198.51.100.0/24 -all"],
+  }, ["kept.example.net"]);
+
+  assertEquals(
+    flattened.records[0].value,
+    "v=spf1 ip4:192.0.2.0/24 exists:%{i}.allow.example.com include:dynamic.example.net include:kept.example.net -all",
+  );
+  assertEquals(flattened.kept, [
+    "exists:%{i}.allow.example.com",
+    "include:dynamic.example.net",
+    "include:kept.example.net",
+  ]);
+  assertEquals(flattened.lookupCount, 4);
+});
+
+Deno.test("flattenSpf chains records that don't fit one response", async () => {
+  const ranges = Array.from({ length: 80 }, (_, i) => `ip4:10.${i}.0.0/24`);
+  const flattened = await flatten({
+    "TXT example.com": ["v=spf1 include:_spf.example.net ~all"],
+    "TXT _spf.example.net": [`v=spf1 ${ranges.join(" ")} -all`],
+  });
+
+  assert(flattened.records.length > 2);
+  assertEquals(
+    flattened.records[0].value,
+    "v=spf1 include:_spf1.example.com ~all",
+  );
+  for (const [n, record] of flattened.records.slice(1).entries()) {
+    assertEquals(record.name, `_spf${n + 1}.example.com`);
+    assert(record.responseSize <= 512);
+    assert(record.strings.every((string) => string.length <= 255));
+  }
+  const terms = flattened.records.flatMap((record) =>
+    record.value.split(" ").filter((term) => term.startsWith("ip4:"))
+  );
+  assertEquals(terms.length, 80);
+  assertEquals(flattened.lookupCount, flattened.records.length - 1);
+  assertEquals(flattened.issues.filter((i) => i.type === "error"), []);
+});
+
+Deno.test("flattenSpf reports a domain without a record", async () => {
+  const flattened = await flatten({ "A example.com": ["192.0.2.1"] });
+
+  assertEquals(flattened.records, []);
+  assertEquals(flattened.issues.map((i) => i.message), [
+    "No SPF record found for example.com",
+  ]);
+});
@@ -0,0 +1,273 @@
+/**
+ * Include Graph
+ *
+ * Turns an expanded SPF tree into a graph with one node per queried
+ * domain and an edge for each include and redirect, so a domain that
+ * several records include is drawn once. Nodes carry their issue counts
+ * and lookup cost; the graph can be exported as Graphviz DOT or Mermaid.
+ */
+
+import {
+  LOOKUP_MECHANISMS,
+  MAX_DNS_LOOKUPS,
+  type SpfMechanism,
+  type SpfResult,
+} from "./spf/mod.ts";
+
+export type SpfGraphStatus =
+  | "ok"
+  | "warning"
+  | "error"
+  /** No record was found, or it couldn't be fetched */
+  | "failed";
+
+export type SpfGraphCost = "low" | "medium" | "high";
+
+export interface SpfGraphNode {
+  id: string;
+  domain: string;
+  record: string | null;
+  status: SpfGraphStatus;
+  /** Counts of the node's own issues */
+  errors: number;
+  warnings: number;
+  /** DNS lookups the terms of this record cost */
+  ownLookups: number;
+  /** Lookups of this record and everything it includes or redirects to */
+  lookups: number;
+  cost: SpfGraphCost;
+}
+
+export interface SpfGraphEdge {
+  from: string;
+  to: string;
+  type: "include" | "redirect";
+  qualifier: string;
+  /** Why the target wasn't expanded here, e.g. a circular reference */
+  error?: string;
+}
+
+export interface SpfGraph {
+  domain: string;
+  nodes: SpfGraphNode[];
+  edges: SpfGraphEdge[];
+}
+
+export type GraphFormat = "json" | "dot" | "mermaid";
+
+export const GRAPH_FORMATS: GraphFormat[] = ["json", "dot", "mermaid"];
+
+/**
+ * Share of the lookup budget a record uses: more than half is high and
+ * more than a fifth is medium
+ */
+export function lookupCost(lookups: number): SpfGraphCost {
+  if (lookups > MAX_DNS_LOOKUPS / 2) return "high";
+  if (lookups > MAX_DNS_LOOKUPS / 5) return "medium";
+  return "low";
+}
+
+/** Includes the expander gives up on before querying DNS */
+const UNCOUNTED_CODES = [
+  "circular-reference",
+  "macro-expansion-failed",
+  "missing-domain",
+];
+
+function countsAsLookup(mechanism: SpfMechanism): boolean {
+  return LOOKUP_MECHANISMS.includes(mechanism.type) && !mechanism.error &&
+    (!mechanism.modifier || mechanism.type === "redirect") &&
+    !mechanism.expanded?.issues.some((i) =>
+      UNCOUNTED_CODES.includes(i.code ?? "")
+    );
+}
+
+function nodeStatus(result: SpfResult): SpfGraphStatus {
+  if (!result.record) return "failed";
+  if (result.issues.some((i) => i.type === "error")) return "error";
+  if (result.issues.some((i) => i.type === "warning")) return "warning";
+  return "ok";
+}
+
+/**
+ * Build the include graph. Includes the expander didn't follow (circular
+ * references, the lookup limit, failed lookups) become edges to the node
+ * of the same domain, carrying the reason.
+ */
+export function buildSpfGraph(result: SpfResult): SpfGraph {
+  const nodes = new Map<string, SpfGraphNode>();
+  const edges: SpfGraphEdge[] = [];
+
+  const visit = (node: SpfResult): SpfGraphNode => {
+    const key = node.domain.toLowerCase();
+    let graphNode = nodes.get(key);
+    if (!graphNode || (!graphNode.record && node.record)) {
+      graphNode = {
+        id: graphNode?.id ?? `n${nodes.size}`,
+        domain: key,
+        record: node.record,
+        status: nodeStatus(node),
+        errors: node.issues.filter((i) => i.type === "error").length,
+        warnings: node.issues.filter((i) => i.type === "warning").length,
+        ownLookups: node.mechanisms.filter(countsAsLookup).length,
+        lookups: 0,
+        cost: "low",
+      };
+      nodes.set(key, graphNode);
+    }
+
+    let lookups = node.mechanisms.filter(countsAsLookup).length;
+    for (const mechanism of node.mechanisms) {
+      const target = mechanism.expanded;
+      if (
+        !target ||
+        (mechanism.type !== "include" && mechanism.type !== "redirect")
+      ) {
+        continue;
+      }
+
+      const child = visit(target);
+      // Unexpanded targets are stubs with the reason as their only issue
+      const followed = target.record !== null;
+      if (followed) lookups += child.lookups;
+      edges.push({
+        from: graphNode.id,
+        to: child.id,
+        type: mechanism.type,
+        qualifier: mechanism.qualifier,
+        ...(!followed && { error: target.issues[0]?.message }),
+      });
+    }
+
+    if (node.record) {
+      graphNode.lookups = lookups;
+      graphNode.cost = lookupCost(lookups);
+    }
+    return graphNode;
+  };
+
+  visit(result);
+  return {
+    domain: result.domain,
+    nodes: [...nodes.values()],
+    edges,
+  };
+}
+
+const STATUS_COLORS: Record<SpfGraphStatus, { fill: string; text: string }> = {
+  ok: { fill: "#dcfce7", text: "#166534" },
+  warning: { fill: "#fef9c3", text: "#854d0e" },
+  error: { fill: "#fee2e2", text: "#991b1b" },
+  failed: { fill: "#e5e7eb", text: "#374151" },
+};
+
+const COST_STROKES: Record<SpfGraphCost, { color: string; width: number }> = {
+  low: { color: "#9ca3af", width: 1 },
+  medium: { color: "#f59e0b", width: 2 },
+  high: { color: "#dc2626", width: 3 },
+};
+
+export function graphNodeColors(node: SpfGraphNode) {
+  return {
+    ...STATUS_COLORS[node.status],
+    stroke: COST_STROKES[node.cost].color,
+    strokeWidth: COST_STROKES[node.cost].width,
+  };
+}
+
+export function graphEdgeLabel(edge: SpfGraphEdge): string {
+  return edge.type === "redirect" ? "redirect" : `${edge.qualifier}include`;
+}
+
+/**
+ * Label lines for a node: its domain, its lookups and its issues
+ */
+export function graphNodeLines(node: SpfGraphNode): string[] {
+  const issues = [
+    node.errors > 0 && `${node.errors} error${node.errors === 1 ? "" : "s"}`,
+    node.warnings > 0 &&
+    `${node.warnings} warning${node.warnings === 1 ? "" : "s"}`,
+  ].filter(Boolean);
+  return [
+    node.domain,
+    node.record
+      ? `${node.lookups} lookup${node.lookups === 1 ? "" : "s"}`
+      : "no record",
+    ...(issues.length > 0 ? [issues.join(", ")] : []),
+  ];
+}
+
+function dotString(text: string): string {
+  return `"${text.replaceAll("\\", "\\\\").replaceAll('"', '\\"')}"`;
+}
+
+/**
+ * Graphviz DOT, e.g. for `dot -Tsvg`
+ */
+export function formatGraphDot(graph: SpfGraph): string {
+  const lines = [
+    `digraph ${dotString(`SPF ${graph.domain}`)} {`,
+    "  rankdir=TB;",
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+  ];
+  for (const node of graph.nodes) {
+    const colors = graphNodeColors(node);
+    lines.push(
+      `  ${node.id} [label=${
+        dotString(graphNodeLines(node).join("\n"))
+      }, fillcolor="${colors.fill}", fontcolor="${colors.text}", color="${colors.stroke}", penwidth=${colors.strokeWidth}];`,
+    );
+  }
+  for (const edge of graph.edges) {
+    const attributes = edge.error
+      ? [
+        `label=${dotString(`${graphEdgeLabel(edge)}\n${edge.error}`)}`,
+        "style=dashed",
+        'color="#dc2626"',
+      ]
+      : [
+        `label=${dotString(graphEdgeLabel(edge))}`,
+        ...(edge.type === "redirect" ? ["style=bold"] : []),
+      ];
+    lines.push(`  ${edge.from} -> ${edge.to} [${attributes.join(", ")}];`);
+  }
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+}
+
+function mermaidString(text: string): string {
+  return `"${text.replaceAll('"', "#quot;")}"`;
+}
+
+/**
+ * Mermaid flowchart, for Markdown that renders ```mermaid blocks
+ */
+export function formatGraphMermaid(graph: SpfGraph): string {
+  const lines = ["flowchart TD"];
+  for (const node of graph.nodes) {
+    lines.push(
+      `  ${node.id}[${mermaidString(graphNodeLines(node).join("<br/>"))}]`,
+    );
+  }
+  for (const edge of graph.edges) {
+    const label = edge.error
+      ? `${graphEdgeLabel(edge)}: ${edge.error}`
+      : graphEdgeLabel(edge);
+    const arrow = edge.error
+      ? "-.->"
+      : edge.type === "redirect"
+      ? "==>"
+      : "-->";
+    lines.push(
+      `  ${edge.from} ${arrow}|${mermaidString(label)}| ${edge.to}`,
+    );
+  }
+  for (const node of graph.nodes) {
+    const colors = graphNodeColors(node);
+    lines.push(
+      `  style ${node.id} fill:${colors.fill},color:${colors.text},stroke:${colors.stroke},stroke-width:${colors.strokeWidth}px`,
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
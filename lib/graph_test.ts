@@ -0,0 +1,43 @@
+import { assertEquals } from "@std/assert";
+import { buildSpfGraph } from "./graph.ts";
+import { checkSpf } from "./spf/mod.ts";
+import { zoneResolver } from "./spf/_test_utils.ts";
+
+Deno.test("buildSpfGraph draws a shared include once with an edge from each branch", async () => {
+  const resolver = zoneResolver({
+    "TXT a.example": ["v=spf1 include:b.example include:c.example -all"],
+    "TXT b.example": ["v=spf1 include:d.example -all"],
+    "TXT c.example": ["v=spf1 include:d.example -all"],
+    "TXT d.example": ["v=spf1 a -all"],
+    "A d.example": ["192.0.2.1"],
+  });
+
+  const graph = buildSpfGraph(await checkSpf("a.example", { resolver }));
+
+  const byDomain = new Map(graph.nodes.map((node) => [node.domain, node]));
+  assertEquals(graph.nodes.length, 4);
+  assertEquals(graph.edges.filter((edge) => edge.error), []);
+  assertEquals(
+    graph.edges.filter((edge) => edge.to === byDomain.get("d.example")?.id)
+      .length,
+    2,
+  );
+  assertEquals(byDomain.get("a.example")?.lookups, 6);
+  assertEquals(byDomain.get("b.example")?.lookups, 2);
+});
+
+Deno.test("buildSpfGraph marks the edge closing a loop", async () => {
+  const resolver = zoneResolver({
+    "TXT a.example": ["v=spf1 include:b.example -all"],
+    "TXT b.example": ["v=spf1 include:a.example -all"],
+  });
+
+  const graph = buildSpfGraph(await checkSpf("a.example", { resolver }));
+
+  assertEquals(graph.nodes.length, 2);
+  assertEquals(
+    graph.edges.filter((edge) => edge.error).map((edge) => edge.error),
+    ["Circular reference detected: a.example"],
+  );
+  assertEquals(graph.nodes[0].lookups, 1);
+});
@@ -0,0 +1,207 @@
+/**
+ * SPF History
+ *
+ * Keeps timestamped snapshots of each domain's SPF tree in Deno KV so
+ * changes can be traced over time. A snapshot holds the record text of
+ * every node in the tree; a lookup that finds the same tree as the
+ * latest snapshot only refreshes that snapshot's lastChecked time.
+ * Lookups that failed somewhere in the tree aren't recorded, so a
+ * transient SERVFAIL doesn't show up as a change.
+ */
+
+import type { ResolverType } from "./dns.ts";
+import { openStore } from "./kv.ts";
+import type { SpfResult } from "./spf.ts";
+import { parseSpfTerms } from "./spf/mod.ts";
+
+export interface SpfSnapshotNode {
+  /** Chain of include/redirect domains from the queried domain */
+  path: string[];
+  record: string | null;
+}
+
+export interface SpfSnapshot {
+  domain: string;
+  resolver: ResolverType;
+  /** When this tree was first seen, in milliseconds since the epoch */
+  timestamp: number;
+  /** When a lookup last returned this tree */
+  lastChecked: number;
+  lookupCount: number;
+  voidLookupCount: number;
+  nodes: SpfSnapshotNode[];
+}
+
+export interface SpfNodeChange {
+  path: string[];
+  change: "added" | "removed" | "changed";
+  before: string | null;
+  after: string | null;
+  addedTerms: string[];
+  removedTerms: string[];
+}
+
+export interface SpfSnapshotDiff {
+  lookupCountDelta: number;
+  voidLookupCountDelta: number;
+  nodes: SpfNodeChange[];
+}
+
+export interface SpfHistoryEntry {
+  snapshot: SpfSnapshot;
+  /** Changes from the previous snapshot, null for the oldest one */
+  diff: SpfSnapshotDiff | null;
+}
+
+const HISTORY_PREFIX = "spf-history";
+
+/**
+ * Collect the tree's nodes, returning false if any lookup failed
+ */
+function collectNodes(
+  result: SpfResult,
+  path: string[],
+  nodes: SpfSnapshotNode[],
+): boolean {
+  if (result.issues.some((i) => i.code === "dns-lookup-failed")) return false;
+
+  nodes.push({ path, record: result.record });
+  return result.mechanisms.every((mechanism) =>
+    !mechanism.expanded ||
+    collectNodes(
+      mechanism.expanded,
+      [...path, mechanism.expanded.domain],
+      nodes,
+    )
+  );
+}
+
+function sameTree(a: SpfSnapshot, b: SpfSnapshot): boolean {
+  return a.lookupCount === b.lookupCount &&
+    a.voidLookupCount === b.voidLookupCount &&
+    JSON.stringify(a.nodes) === JSON.stringify(b.nodes);
+}
+
+/**
+ * Terms of a record as written, without the version
+ */
+function termsOf(record: string | null): string[] {
+  if (!record) return [];
+  return parseSpfTerms(record).terms.map((term) =>
+    record.slice(term.start, term.end)
+  );
+}
+
+/**
+ * Terms in a that aren't matched by a term in b, counting repeats
+ */
+function missingFrom(a: string[], b: string[]): string[] {
+  const remaining = [...b];
+  return a.filter((term) => {
+    const index = remaining.indexOf(term);
+    if (index < 0) return true;
+    remaining.splice(index, 1);
+    return false;
+  });
+}
+
+/**
+ * Structural changes between two snapshots of the same domain
+ */
+export function diffSnapshots(
+  before: SpfSnapshot,
+  after: SpfSnapshot,
+): SpfSnapshotDiff {
+  const keyOf = (node: SpfSnapshotNode) => node.path.join(" > ");
+  const beforeNodes = new Map(before.nodes.map((n) => [keyOf(n), n]));
+  const afterNodes = new Map(after.nodes.map((n) => [keyOf(n), n]));
+  const keys = [...new Set([...afterNodes.keys(), ...beforeNodes.keys()])];
+
+  const nodes: SpfNodeChange[] = [];
+  for (const key of keys) {
+    const old = beforeNodes.get(key);
+    const current = afterNodes.get(key);
+    if (old && current && old.record === current.record) continue;
+
+    const oldTerms = termsOf(old?.record ?? null);
+    const newTerms = termsOf(current?.record ?? null);
+    nodes.push({
+      path: (current ?? old)!.path,
+      change: !old ? "added" : !current ? "removed" : "changed",
+      before: old?.record ?? null,
+      after: current?.record ?? null,
+      addedTerms: missingFrom(newTerms, oldTerms),
+      removedTerms: missingFrom(oldTerms, newTerms),
+    });
+  }
+
+  return {
+    lookupCountDelta: after.lookupCount - before.lookupCount,
+    voidLookupCountDelta: after.voidLookupCount - before.voidLookupCount,
+    nodes,
+  };
+}
+
+/**
+ * Store a lookup result, or refresh the latest snapshot when the tree
+ * hasn't changed. Returns null when the lookup failed and wasn't stored.
+ */
+export async function recordSnapshot(
+  result: SpfResult,
+  resolver: ResolverType,
+  now = Date.now(),
+): Promise<SpfSnapshot | null> {
+  const domain = result.domain.toLowerCase();
+  const nodes: SpfSnapshotNode[] = [];
+  if (!collectNodes(result, [domain], nodes)) return null;
+
+  const snapshot: SpfSnapshot = {
+    domain,
+    resolver,
+    timestamp: now,
+    lastChecked: now,
+    lookupCount: result.lookupCount,
+    voidLookupCount: result.voidLookupCount,
+    nodes,
+  };
+
+  const kv = await openStore();
+  const latest = await Array.fromAsync(
+    kv.list<SpfSnapshot>({ prefix: [HISTORY_PREFIX, domain] }, {
+      reverse: true,
+      limit: 1,
+    }),
+  );
+  if (latest[0] && sameTree(latest[0].value, snapshot)) {
+    const refreshed = { ...latest[0].value, lastChecked: now };
+    await kv.set(latest[0].key, refreshed);
+    return refreshed;
+  }
+
+  await kv.set([HISTORY_PREFIX, domain, now], snapshot);
+  return snapshot;
+}
+
+/**
+ * Snapshots of a domain, newest first, each with its changes from the
+ * one before it
+ */
+export async function getHistory(
+  domain: string,
+  limit = 50,
+): Promise<SpfHistoryEntry[]> {
+  const kv = await openStore();
+  // One extra snapshot so the oldest listed entry still gets a diff
+  const entries = await Array.fromAsync(
+    kv.list<SpfSnapshot>(
+      { prefix: [HISTORY_PREFIX, domain.toLowerCase()] },
+      { reverse: true, limit: limit + 1 },
+    ),
+  );
+  const snapshots = entries.map((entry) => entry.value);
+
+  return snapshots.slice(0, limit).map((snapshot, i) => ({
+    snapshot,
+    diff: snapshots[i + 1] ? diffSnapshots(snapshots[i + 1], snapshot) : null,
+  }));
+}
@@ -0,0 +1,154 @@
+/**
+ * HTTPS Fetcher Module
+ *
+ * Policy documents such as MTA-STS are fetched through a named fetcher,
+ * registered and picked the same way as DNS resolvers, so checks can run
+ * against a local stand-in instead of the live web.
+ */
+
+export interface HttpsResponse {
+  url: string;
+  status: number;
+  contentType: string | null;
+  body: string;
+}
+
+/**
+ * An HTTPS backend. get() resolves with any HTTP status, including
+ * redirects, and throws when no response was received.
+ */
+export interface HttpsFetcher {
+  name: string;
+  label: string;
+  get(url: string): Promise<HttpsResponse>;
+}
+
+export interface FetchHttpsFetcherOptions {
+  name: string;
+  label?: string;
+  /** Give up after this many milliseconds (default 10000) */
+  timeout?: number;
+  /** Reject bodies larger than this many bytes (default 65536) */
+  maxBytes?: number;
+}
+
+/**
+ * Read a response body, cancelling it as soon as it passes maxBytes
+ * rather than buffering the rest
+ */
+async function readBody(
+  response: Response,
+  url: string,
+  maxBytes: number,
+): Promise<string> {
+  if (!response.body) return "";
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Response from ${url} exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return new TextDecoder().decode(body);
+}
+
+/**
+ * Create a fetcher backed by the global fetch(). Redirects are returned
+ * as-is rather than followed.
+ */
+export function createFetchHttpsFetcher(
+  options: FetchHttpsFetcherOptions,
+): HttpsFetcher {
+  const timeout = options.timeout ?? 10000;
+  const maxBytes = options.maxBytes ?? 65536;
+
+  return {
+    name: options.name,
+    label: options.label ?? options.name,
+    async get(url) {
+      const response = await fetch(url, {
+        redirect: "manual",
+        signal: AbortSignal.timeout(timeout),
+      });
+
+      return {
+        url,
+        status: response.status,
+        contentType: response.headers.get("content-type"),
+        body: await readBody(response, url, maxBytes),
+      };
+    },
+  };
+}
+
+export interface StaticHttpsFetcherOptions {
+  name: string;
+  label?: string;
+  /** Responses by URL; other URLs fail as if the host were unreachable */
+  responses: Record<
+    string,
+    { status?: number; contentType?: string; body: string }
+  >;
+}
+
+/**
+ * Create a fetcher that serves fixed responses, for local stand-ins
+ */
+export function createStaticHttpsFetcher(
+  options: StaticHttpsFetcherOptions,
+): HttpsFetcher {
+  return {
+    name: options.name,
+    label: options.label ?? options.name,
+    get(url) {
+      const response = options.responses[url];
+      if (!response) {
+        return Promise.reject(new Error(`Connection to ${url} failed`));
+      }
+      return Promise.resolve({
+        url,
+        status: response.status ?? 200,
+        contentType: response.contentType ?? "text/plain",
+        body: response.body,
+      });
+    },
+  };
+}
+
+const fetchers = new Map<string, HttpsFetcher>();
+
+/**
+ * Register a fetcher, replacing any existing one with the same name
+ */
+export function registerFetcher(fetcher: HttpsFetcher) {
+  fetchers.set(fetcher.name, fetcher);
+}
+
+/**
+ * Look up a registered fetcher by name
+ */
+export function getFetcher(name = "default"): HttpsFetcher {
+  const fetcher = fetchers.get(name);
+  if (!fetcher) {
+    throw new Error(`Unknown fetcher: ${name}`);
+  }
+  return fetcher;
+}
+
+registerFetcher(createFetchHttpsFetcher({
+  name: "default",
+  label: "HTTPS",
+}));
@@ -0,0 +1,324 @@
+/**
+ * Effective Authorized IP Set
+ *
+ * Walks an expanded SPF tree and lists every address range it names:
+ * ip4/ip6 terms plus the resolved addresses of a and mx terms. Each range
+ * keeps the include path it came from and the qualifier it resolves to
+ * for the queried domain, and the ranges are merged into minimal CIDR
+ * blocks per qualifier.
+ */
+
+import {
+  formatNetwork,
+  type IpNetwork,
+  networkRange,
+  parseCidr,
+  parseIp,
+  rangeToNetworks,
+} from "./spf/mod.ts";
+import {
+  formatMechanism,
+  parseDomainCidr,
+  type SpfMechanism,
+  type SpfResult,
+} from "./spf.ts";
+
+export interface SpfIpRange {
+  /** CIDR block, e.g. "192.0.2.0/24" */
+  cidr: string;
+  version: 4 | 6;
+  /** Qualifier a match in this range resolves to for the queried domain */
+  qualifier: string;
+  /** Term that names the range, as written in its record */
+  term: string;
+  /** Domain whose record contains the term */
+  domain: string;
+  /** Chain of include/redirect domains from the queried domain */
+  path: string[];
+}
+
+export interface SpfUnresolvedTerm {
+  term: string;
+  domain: string;
+  path: string[];
+  reason: string;
+}
+
+export interface SpfIpBlocks {
+  qualifier: string;
+  ipv4: string[];
+  ipv6: string[];
+  ipv4Count: number;
+  /** Decimal string, since IPv6 counts overflow JSON numbers */
+  ipv6Count: string;
+}
+
+export interface SpfIpSet {
+  domain: string;
+  /** Every range in evaluation order */
+  ranges: SpfIpRange[];
+  /**
+   * Minimal CIDR blocks per qualifier. An address named by several terms
+   * only counts towards the first one, as in check_host().
+   */
+  blocks: SpfIpBlocks[];
+  /** Terms whose addresses can't be listed without a sending host */
+  unresolved: SpfUnresolvedTerm[];
+}
+
+export type IpSetFormat = "json" | "text" | "csv";
+
+export const IP_SET_FORMATS: IpSetFormat[] = ["json", "text", "csv"];
+
+/**
+ * Qualifier a term resolves to once wrapped by an include. Only a pass
+ * inside an included record makes the include match; anything else
+ * falls through to the next term of the including record.
+ */
+function throughInclude(outer: string, inner: string): string | null {
+  return inner === "+" ? outer : null;
+}
+
+function networksOf(mechanism: SpfMechanism): IpNetwork[] {
+  switch (mechanism.type) {
+    case "ip4":
+    case "ip6": {
+      const network = parseCidr(
+        mechanism.value,
+        mechanism.type === "ip4" ? 4 : 6,
+      );
+      return network ? [network] : [];
+    }
+    case "a":
+    case "mx": {
+      const spec = parseDomainCidr(mechanism.value);
+      if (!spec || !mechanism.resolved) return [];
+      return mechanism.resolved.addresses.flatMap((address) => {
+        const ip = parseIp(address);
+        if (!ip) return [];
+        return [{
+          address: ip,
+          prefix: ip.version === 4 ? spec.cidr4 : spec.cidr6,
+        }];
+      });
+    }
+    default:
+      return [];
+  }
+}
+
+function unresolvedReason(mechanism: SpfMechanism): string | null {
+  if (mechanism.macro) return "Contains macros";
+
+  switch (mechanism.type) {
+    case "a":
+    case "mx":
+      if (mechanism.resolved?.error) return mechanism.resolved.error;
+      return mechanism.resolved ? null : "Not resolved";
+    case "ptr":
+      return "Depends on the sending host's PTR names";
+    case "exists":
+      return "Depends on the sending host";
+    case "include":
+    case "redirect":
+      if (mechanism.expanded?.record) return null;
+      return mechanism.expanded?.issues[0]?.message ?? "Not resolved";
+    default:
+      return null;
+  }
+}
+
+function collect(
+  result: SpfResult,
+  path: string[],
+  map: (qualifier: string) => string | null,
+  set: SpfIpSet,
+) {
+  const terms = result.mechanisms.filter((m) => !m.modifier && !m.error);
+  const redirect = result.mechanisms.find((m) =>
+    m.modifier && m.type === "redirect"
+  );
+  const hasAll = terms.some((m) => m.type === "all");
+
+  for (const mechanism of terms) {
+    // Terms after "all" are never reached
+    if (mechanism.type === "all") return;
+
+    const qualifier = map(mechanism.qualifier);
+    if (qualifier === null) continue;
+
+    const term = formatMechanism(mechanism);
+    const reason = unresolvedReason(mechanism);
+    if (reason) {
+      set.unresolved.push({ term, domain: result.domain, path, reason });
+      continue;
+    }
+
+    if (mechanism.type === "include") {
+      const included = mechanism.expanded!;
+      collect(
+        included,
+        [...path, included.domain],
+        (inner) => throughInclude(qualifier, inner),
+        set,
+      );
+      continue;
+    }
+
+    for (const network of networksOf(mechanism)) {
+      const { version } = network.address;
+      const [start] = networkRange(network);
+      set.ranges.push({
+        cidr: formatNetwork({
+          address: { version, value: start },
+          prefix: network.prefix,
+        }),
+        version,
+        qualifier,
+        term,
+        domain: result.domain,
+        path,
+      });
+    }
+  }
+
+  // redirect only applies when no "all" is present
+  if (redirect && !hasAll) {
+    const term = formatMechanism(redirect);
+    const reason = unresolvedReason(redirect);
+    if (reason) {
+      set.unresolved.push({ term, domain: result.domain, path, reason });
+      return;
+    }
+    const target = redirect.expanded!;
+    collect(target, [...path, target.domain], map, set);
+  }
+}
+
+/**
+ * Subtract the sorted, disjoint intervals in covered from [start, end]
+ */
+function subtract(
+  start: bigint,
+  end: bigint,
+  covered: Array<[bigint, bigint]>,
+): Array<[bigint, bigint]> {
+  const remaining: Array<[bigint, bigint]> = [];
+  let cursor = start;
+  for (const [s, e] of covered) {
+    if (e < cursor) continue;
+    if (s > end) break;
+    if (s > cursor) remaining.push([cursor, s - 1n]);
+    cursor = e + 1n;
+    if (cursor > end) return remaining;
+  }
+  if (cursor <= end) remaining.push([cursor, end]);
+  return remaining;
+}
+
+/**
+ * Insert [start, end] into sorted, disjoint intervals, joining neighbours
+ */
+function insert(
+  intervals: Array<[bigint, bigint]>,
+  start: bigint,
+  end: bigint,
+): Array<[bigint, bigint]> {
+  const result: Array<[bigint, bigint]> = [];
+  for (const [s, e] of intervals) {
+    if (e + 1n < start) {
+      result.push([s, e]);
+    } else if (s > end + 1n) {
+      result.push([start, end]);
+      start = s;
+      end = e;
+    } else {
+      if (s < start) start = s;
+      if (e > end) end = e;
+    }
+  }
+  result.push([start, end]);
+  return result;
+}
+
+function mergeBlocks(ranges: SpfIpRange[]): SpfIpBlocks[] {
+  const covered: Record<4 | 6, Array<[bigint, bigint]>> = { 4: [], 6: [] };
+  const byQualifier = new Map<
+    string,
+    Record<4 | 6, Array<[bigint, bigint]>>
+  >();
+
+  for (const range of ranges) {
+    const network = parseCidr(range.cidr, range.version)!;
+    const [start, end] = networkRange(network);
+    const owned = byQualifier.get(range.qualifier) ?? { 4: [], 6: [] };
+    byQualifier.set(range.qualifier, owned);
+
+    for (const [s, e] of subtract(start, end, covered[range.version])) {
+      owned[range.version] = insert(owned[range.version], s, e);
+    }
+    covered[range.version] = insert(covered[range.version], start, end);
+  }
+
+  return [...byQualifier].map(([qualifier, owned]) => {
+    const blocksOf = (version: 4 | 6) =>
+      owned[version].flatMap(([s, e]) => rangeToNetworks(version, s, e));
+    const countOf = (version: 4 | 6) =>
+      owned[version].reduce((sum, [s, e]) => sum + e - s + 1n, 0n);
+
+    return {
+      qualifier,
+      ipv4: blocksOf(4).map(formatNetwork),
+      ipv6: blocksOf(6).map(formatNetwork),
+      ipv4Count: Number(countOf(4)),
+      ipv6Count: countOf(6).toString(),
+    };
+  });
+}
+
+/**
+ * Compute the effective IP set of an expanded SPF result
+ */
+export function collectIpSet(result: SpfResult): SpfIpSet {
+  const set: SpfIpSet = {
+    domain: result.domain,
+    ranges: [],
+    blocks: [],
+    unresolved: [],
+  };
+
+  collect(result, [result.domain], (qualifier) => qualifier, set);
+  set.blocks = mergeBlocks(set.ranges);
+  return set;
+}
+
+/**
+ * Plain text export: the merged blocks that pass, one per line
+ */
+export function formatIpSetText(set: SpfIpSet): string {
+  const pass = set.blocks.find((b) => b.qualifier === "+");
+  const lines = pass ? [...pass.ipv4, ...pass.ipv6] : [];
+  return lines.map((line) => `${line}\n`).join("");
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * CSV export: every range with its qualifier and origin
+ */
+export function formatIpSetCsv(set: SpfIpSet): string {
+  const rows = [
+    ["cidr", "version", "qualifier", "term", "domain", "path"],
+    ...set.ranges.map((r) => [
+      r.cidr,
+      String(r.version),
+      r.qualifier,
+      r.term,
+      r.domain,
+      r.path.join(" > "),
+    ]),
+  ];
+  return rows.map((row) => `${row.map(csvField).join(",")}\n`).join("");
+}
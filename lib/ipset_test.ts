@@ -0,0 +1,72 @@
+import { assertEquals } from "@std/assert";
+import { collectIpSet, formatIpSetText } from "./ipset.ts";
+import { checkSpf } from "./spf/mod.ts";
+import { zoneResolver } from "./spf/_test_utils.ts";
+
+Deno.test("collectIpSet merges ranges and gives each address to its first term", async () => {
+  const resolver = zoneResolver({
+    "TXT example.com": [
+      "v=spf1 -ip4:192.0.2.1 ip4:192.0.2.0/25 ip4:192.0.2.128/25 a/30 -all ip4:198.51.100.0/24",
+    ],
+    "A example.com": ["203.0.113.5"],
+  });
+
+  const set = collectIpSet(await checkSpf("example.com", { resolver }));
+
+  assertEquals(set.blocks.map(({ qualifier, ipv4 }) => ({ qualifier, ipv4 })), [
+    { qualifier: "-", ipv4: ["192.0.2.1/32"] },
+    {
+      qualifier: "+",
+      ipv4: [
+        "192.0.2.0/32",
+        "192.0.2.2/31",
+        "192.0.2.4/30",
+        "192.0.2.8/29",
+        "192.0.2.16/28",
+        "192.0.2.32/27",
+        "192.0.2.64/26",
+        "192.0.2.128/25",
+        "203.0.113.4/30",
+      ],
+    },
+  ]);
+  assertEquals(set.blocks[1].ipv4Count, 259);
+});
+
+Deno.test("collectIpSet only takes passing ranges from includes", async () => {
+  const resolver = zoneResolver({
+    "TXT example.com": ["v=spf1 ~include:_spf.example.net -all"],
+    "TXT _spf.example.net": [
+      "v=spf1 ip6:2001:db8::/32 -ip4:192.0.2.0/24 exists:%{i}.example.net -all",
+    ],
+  });
+
+  const set = collectIpSet(await checkSpf("example.com", { resolver }));
+
+  assertEquals(
+    set.ranges.map(({ cidr, qualifier, path }) => ({ cidr, qualifier, path })),
+    [
+      {
+        cidr: "2001:db8::/32",
+        qualifier: "~",
+        path: ["example.com", "_spf.example.net"],
+      },
+    ],
+  );
+  assertEquals(set.unresolved.map((term) => term.reason), ["Contains macros"]);
+  assertEquals(formatIpSetText(set), "");
+});
+
+Deno.test("collectIpSet follows redirect when there is no all", async () => {
+  const resolver = zoneResolver({
+    "TXT example.com": ["v=spf1 ip4:192.0.2.0/24 redirect=_spf.example.net"],
+    "TXT _spf.example.net": ["v=spf1 ip4:198.51.100.0/24 -all"],
+  });
+
+  const set = collectIpSet(await checkSpf("example.com", { resolver }));
+
+  assertEquals(formatIpSetText(set).trim().split("\n"), [
+    "192.0.2.0/24",
+    "198.51.100.0/24",
+  ]);
+});
@@ -0,0 +1,17 @@
+/**
+ * Deno KV Store
+ *
+ * Opens the local KV database shared by lookup history and the
+ * watchlist. KV_PATH can point it at a file or ":memory:"; by default
+ * Deno picks its own local database.
+ */
+
+let kvPromise: Promise<Deno.Kv> | null = null;
+
+/**
+ * Open the store once and share it between callers
+ */
+export function openStore(): Promise<Deno.Kv> {
+  kvPromise ??= Deno.openKv(Deno.env.get("KV_PATH") || undefined);
+  return kvPromise;
+}
@@ -0,0 +1,465 @@
+/**
+ * MTA-STS and TLS-RPT Module
+ *
+ * Checks a domain's SMTP transport-security posture: the `_mta-sts`
+ * record and the HTTPS policy it announces (RFC 8461), with the policy's
+ * mx patterns matched against the domain's actual MX hosts, and the
+ * `_smtp._tls` reporting record (RFC 8460).
+ */
+
+import {
+  DnsError,
+  lookupRecords,
+  resolveMx,
+  type ResolverType,
+} from "./dns.ts";
+import { getFetcher } from "./https.ts";
+import type { SpfValidationIssue } from "./spf.ts";
+
+export type MtaStsMode = "enforce" | "testing" | "none";
+
+export interface MtaStsPolicy {
+  raw: string;
+  version: string | null;
+  mode: MtaStsMode | null;
+  /** mx patterns, e.g. "mail.example.com" or "*.example.net" */
+  mx: string[];
+  /** max_age in seconds */
+  maxAge: number | null;
+}
+
+export interface MtaStsMxCheck {
+  host: string;
+  preference: number;
+  /** First policy pattern matching the host, null when none does */
+  pattern: string | null;
+}
+
+export interface TlsRptRecord {
+  raw: string;
+  /** Report destinations, mailto: or https: URIs */
+  rua: string[];
+}
+
+export interface MtaStsResult {
+  domain: string;
+  /** _mta-sts TXT record, null when none was found */
+  record: string | null;
+  /** Policy id from the TXT record */
+  id: string | null;
+  policyUrl: string;
+  policy: MtaStsPolicy | null;
+  mx: MtaStsMxCheck[];
+  tlsRpt: TlsRptRecord | null;
+  issues: SpfValidationIssue[];
+  queryTime: number;
+}
+
+export interface MtaStsOptions {
+  resolver: ResolverType;
+  /** Name of a registered HTTPS fetcher (default "default") */
+  fetcher?: string;
+}
+
+const MODES: MtaStsMode[] = ["enforce", "testing", "none"];
+/** RFC 8461 Section 3.2: max_age is at most 31557600 seconds (a year) */
+const MAX_AGE_LIMIT = 31557600;
+
+async function queryTxt(
+  name: string,
+  resolver: ResolverType,
+): Promise<string[]> {
+  try {
+    const response = await lookupRecords(name, "TXT", { resolver });
+    return response.answers.map((answer) => answer.data);
+  } catch (err) {
+    if (err instanceof DnsError && err.status === 3) return [];
+    throw err;
+  }
+}
+
+/**
+ * Split a "k=v; k=v" record into its tags
+ */
+function parseTags(record: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+  for (const part of record.split(";")) {
+    const eq = part.indexOf("=");
+    if (eq > 0) tags[part.slice(0, eq).trim()] = part.slice(eq + 1).trim();
+  }
+  return tags;
+}
+
+/**
+ * Whether an MX host matches a policy pattern: a leading "*." stands
+ * for exactly one label (RFC 8461 Section 4.1)
+ */
+export function matchesMxPattern(host: string, pattern: string): boolean {
+  const name = host.toLowerCase().replace(/\.$/, "");
+  const target = pattern.toLowerCase().replace(/\.$/, "");
+  if (!target.startsWith("*.")) return name === target;
+
+  const dot = name.indexOf(".");
+  return dot > 0 && name.slice(dot + 1) === target.slice(2);
+}
+
+/**
+ * Parse and validate a policy document's "key: value" lines
+ */
+export function parseMtaStsPolicy(
+  raw: string,
+): { policy: MtaStsPolicy; issues: SpfValidationIssue[] } {
+  const issues: SpfValidationIssue[] = [];
+  const policy: MtaStsPolicy = {
+    raw,
+    version: null,
+    mode: null,
+    mx: [],
+    maxAge: null,
+  };
+
+  for (const line of raw.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    const colon = line.indexOf(":");
+    if (colon <= 0) {
+      issues.push({
+        type: "error",
+        code: "invalid-policy-line",
+        message: `Invalid policy line "${line.trim()}"`,
+      });
+      continue;
+    }
+    const key = line.slice(0, colon).trim();
+    const value = line.slice(colon + 1).trim();
+
+    switch (key) {
+      case "version":
+        policy.version = value;
+        break;
+      case "mode":
+        if (MODES.includes(value as MtaStsMode)) {
+          policy.mode = value as MtaStsMode;
+        } else {
+          issues.push({
+            type: "error",
+            code: "invalid-policy-mode",
+            message:
+              `Invalid mode "${value}" (expected enforce, testing or none)`,
+          });
+        }
+        break;
+      case "mx":
+        policy.mx.push(value);
+        break;
+      case "max_age":
+        if (/^\d{1,10}$/.test(value) && Number(value) <= MAX_AGE_LIMIT) {
+          policy.maxAge = Number(value);
+        } else {
+          issues.push({
+            type: "error",
+            code: "invalid-max-age",
+            message: `Invalid max_age "${value}" (0 to ${MAX_AGE_LIMIT})`,
+          });
+        }
+        break;
+    }
+  }
+
+  if (policy.version !== "STSv1") {
+    issues.push({
+      type: "error",
+      code: "invalid-policy-version",
+      message: `Policy must start with "version: STSv1"`,
+    });
+  }
+  if (!policy.mode && !issues.some((i) => i.code === "invalid-policy-mode")) {
+    issues.push({
+      type: "error",
+      code: "missing-policy-mode",
+      message: `Policy is missing "mode"`,
+    });
+  }
+  if (
+    policy.maxAge === null && !issues.some((i) => i.code === "invalid-max-age")
+  ) {
+    issues.push({
+      type: "error",
+      code: "missing-max-age",
+      message: `Policy is missing "max_age"`,
+    });
+  }
+  if (policy.mode && policy.mode !== "none" && policy.mx.length === 0) {
+    issues.push({
+      type: "error",
+      code: "missing-mx-patterns",
+      message: `mode: ${policy.mode} requires at least one "mx" line`,
+    });
+  }
+  for (const pattern of policy.mx) {
+    if (!/^(\*\.)?[a-z0-9_-]+(\.[a-z0-9_-]+)+\.?$/i.test(pattern)) {
+      issues.push({
+        type: "error",
+        code: "invalid-mx-pattern",
+        message: `Invalid mx pattern "${pattern}"`,
+      });
+    }
+  }
+
+  if (policy.mode === "testing") {
+    issues.push({
+      type: "warning",
+      code: "testing-mode",
+      message:
+        "mode: testing only reports failures; senders still deliver without TLS",
+    });
+  } else if (policy.mode === "none") {
+    issues.push({
+      type: "warning",
+      code: "policy-disabled",
+      message: "mode: none withdraws the policy",
+    });
+  }
+  if (policy.maxAge !== null && policy.maxAge < 86400) {
+    issues.push({
+      type: "warning",
+      code: "short-max-age",
+      message:
+        `max_age of ${policy.maxAge}s is under a day; weeks are recommended`,
+    });
+  }
+
+  return { policy, issues };
+}
+
+async function fetchPolicy(
+  url: string,
+  fetcherName: string | undefined,
+  issues: SpfValidationIssue[],
+): Promise<MtaStsPolicy | null> {
+  let response;
+  try {
+    response = await getFetcher(fetcherName).get(url);
+  } catch (err) {
+    issues.push({
+      type: "error",
+      code: "policy-fetch-failed",
+      message: `Couldn't fetch ${url}: ${
+        err instanceof Error ? err.message : "Unknown error"
+      }`,
+    });
+    return null;
+  }
+
+  if (response.status !== 200) {
+    issues.push({
+      type: "error",
+      code: "policy-fetch-failed",
+      message: response.status >= 300 && response.status < 400
+        ? `${url} redirects (HTTP ${response.status}); senders don't follow redirects`
+        : `${url} returned HTTP ${response.status}`,
+    });
+    return null;
+  }
+
+  if (!response.contentType?.toLowerCase().startsWith("text/plain")) {
+    issues.push({
+      type: "warning",
+      code: "policy-content-type",
+      message: `Policy is served as "${
+        response.contentType ?? "no content type"
+      }" instead of text/plain`,
+    });
+  }
+
+  const parsed = parseMtaStsPolicy(response.body);
+  issues.push(...parsed.issues);
+  return parsed.policy;
+}
+
+/**
+ * Match each MX host against the policy's patterns
+ */
+async function checkMxHosts(
+  domain: string,
+  policy: MtaStsPolicy,
+  resolver: ResolverType,
+  issues: SpfValidationIssue[],
+): Promise<MtaStsMxCheck[]> {
+  let hosts;
+  try {
+    hosts = await resolveMx(domain, { resolver });
+  } catch (err) {
+    if (err instanceof DnsError && err.status === 3) return [];
+    issues.push({
+      type: "error",
+      code: "dns-lookup-failed",
+      message: `MX lookup failed: ${
+        err instanceof Error ? err.message : "Unknown error"
+      }`,
+    });
+    return [];
+  }
+
+  const checks = hosts.map((mx) => ({
+    host: mx.exchange,
+    preference: mx.preference,
+    pattern: policy.mx.find((p) => matchesMxPattern(mx.exchange, p)) ?? null,
+  }));
+
+  if (policy.mode === "none") return checks;
+
+  for (const check of checks.filter((c) => c.pattern === null)) {
+    issues.push({
+      type: policy.mode === "enforce" ? "error" : "warning",
+      code: "mx-not-covered",
+      message: policy.mode === "enforce"
+        ? `MX host ${check.host} matches no policy mx pattern; senders won't deliver to it`
+        : `MX host ${check.host} matches no policy mx pattern`,
+    });
+  }
+  for (const pattern of policy.mx) {
+    if (!checks.some((c) => matchesMxPattern(c.host, pattern))) {
+      issues.push({
+        type: "warning",
+        code: "unused-mx-pattern",
+        message: `Policy mx pattern "${pattern}" matches no MX host`,
+      });
+    }
+  }
+
+  return checks;
+}
+
+async function lookupTlsRpt(
+  domain: string,
+  resolver: ResolverType,
+  issues: SpfValidationIssue[],
+): Promise<TlsRptRecord | null> {
+  const name = `_smtp._tls.${domain}`;
+  const records = (await queryTxt(name, resolver))
+    .filter((r) => /^v\s*=\s*TLSRPTv1\s*(;|$)/.test(r));
+
+  if (records.length === 0) {
+    issues.push({
+      type: "warning",
+      code: "no-tls-rpt-record",
+      message: `No TLS-RPT record at ${name}; TLS failures won't be reported`,
+    });
+    return null;
+  }
+  if (records.length > 1) {
+    issues.push({
+      type: "error",
+      code: "multiple-tls-rpt-records",
+      message: `Multiple TLS-RPT records at ${name}; senders ignore them all`,
+    });
+    return null;
+  }
+
+  const raw = records[0];
+  const rua = (parseTags(raw).rua ?? "").split(",").map((uri) => uri.trim())
+    .filter(Boolean);
+  if (rua.length === 0) {
+    issues.push({
+      type: "error",
+      code: "missing-report-uri",
+      message: `TLS-RPT record is missing "rua"`,
+    });
+  }
+  for (const uri of rua) {
+    if (!/^(mailto:[^@\s]+@[^@\s]+|https:\/\/\S+)$/i.test(uri)) {
+      issues.push({
+        type: "error",
+        code: "invalid-report-uri",
+        message:
+          `Invalid TLS-RPT rua URI "${uri}" (expected mailto: or https:)`,
+      });
+    }
+  }
+
+  return { raw, rua };
+}
+
+/**
+ * Check a domain's MTA-STS policy and TLS-RPT record
+ */
+export async function checkMtaSts(
+  domain: string,
+  options: MtaStsOptions,
+): Promise<MtaStsResult> {
+  const startTime = performance.now();
+  const issues: SpfValidationIssue[] = [];
+  const { resolver } = options;
+  const result: MtaStsResult = {
+    domain,
+    record: null,
+    id: null,
+    policyUrl: `https://mta-sts.${domain}/.well-known/mta-sts.txt`,
+    policy: null,
+    mx: [],
+    tlsRpt: null,
+    issues,
+    queryTime: 0,
+  };
+
+  try {
+    const records = (await queryTxt(`_mta-sts.${domain}`, resolver))
+      .filter((r) => /^v\s*=\s*STSv1\s*(;|$)/.test(r));
+
+    if (records.length === 0) {
+      issues.push({
+        type: "warning",
+        code: "no-mta-sts-record",
+        message:
+          `No MTA-STS record at _mta-sts.${domain}; senders may deliver without TLS`,
+      });
+    } else if (records.length > 1) {
+      issues.push({
+        type: "error",
+        code: "multiple-mta-sts-records",
+        message:
+          `Multiple MTA-STS records at _mta-sts.${domain}; senders ignore them all`,
+      });
+    } else {
+      result.record = records[0];
+      const id = parseTags(records[0]).id ?? null;
+      result.id = id;
+      if (!id || !/^[a-z0-9]{1,32}$/i.test(id)) {
+        issues.push({
+          type: "error",
+          code: "invalid-policy-id",
+          message: id
+            ? `Invalid id "${id}" (1-32 letters and digits)`
+            : `MTA-STS record is missing "id"`,
+        });
+      }
+
+      result.policy = await fetchPolicy(
+        result.policyUrl,
+        options.fetcher,
+        issues,
+      );
+      if (result.policy) {
+        result.mx = await checkMxHosts(
+          domain,
+          result.policy,
+          resolver,
+          issues,
+        );
+      }
+    }
+
+    result.tlsRpt = await lookupTlsRpt(domain, resolver, issues);
+  } catch (err) {
+    issues.push({
+      type: "error",
+      code: "dns-lookup-failed",
+      message: `DNS lookup failed: ${
+        err instanceof Error ? err.message : "Unknown error"
+      }`,
+    });
+  }
+
+  result.queryTime = Math.round(performance.now() - startTime);
+  return result;
+}
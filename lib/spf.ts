@@ -0,0 +1,72 @@
+/**
+ * SPF Lookups
+ *
+ * Binds the SPF engine in lib/spf/ to the registered DNS resolvers and
+ * the shared response cache, so the app picks a resolver by name.
+ */
+
+import { lookupRecords, type ResolverType } from "./dns.ts";
+import {
+  checkSpf as checkSpfWith,
+  type CheckSpfOptions as EngineCheckSpfOptions,
+  type SpfResolver,
+  type SpfResult,
+} from "./spf/mod.ts";
+
+export {
+  formatMechanism,
+  LOOKUP_MECHANISMS,
+  MAX_DNS_LOOKUPS,
+  MAX_NAME_LOOKUPS,
+  MAX_VOID_LOOKUPS,
+  parseDomainCidr,
+  parseSpfRecord,
+  selectSpfRecord,
+  type SpfMechanism,
+  type SpfProgressEvent,
+  type SpfRecordCandidate,
+  type SpfResolution,
+  type SpfResult,
+  type SpfValidationIssue,
+} from "./spf/mod.ts";
+
+export interface CheckSpfOptions
+  extends Omit<EngineCheckSpfOptions, "resolver"> {
+  resolver: ResolverType;
+  /** Bypass the DNS response cache (default false) */
+  noCache?: boolean;
+}
+
+/**
+ * An engine resolver that queries a registered resolver through the
+ * response cache
+ */
+export function spfResolver(
+  resolver: ResolverType,
+  noCache = false,
+): SpfResolver {
+  return {
+    async lookup(name, type) {
+      const response = await lookupRecords(name, type, { resolver, noCache });
+      return {
+        answers: response.answers,
+        cache: { hit: response.cacheHit, ttl: response.ttl },
+      };
+    },
+  };
+}
+
+/**
+ * Look up and expand the SPF record of a domain with a registered
+ * resolver, flagging records over the DNS lookup limit
+ */
+export function checkSpf(
+  domain: string,
+  options: CheckSpfOptions,
+): Promise<SpfResult> {
+  const { resolver, noCache, ...rest } = options;
+  return checkSpfWith(domain, {
+    ...rest,
+    resolver: spfResolver(resolver, noCache),
+  });
+}
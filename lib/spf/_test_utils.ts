@@ -0,0 +1,38 @@
+/**
+ * Fixed DNS data for the package's tests
+ */
+
+import { DnsError, type SpfRecordType, type SpfResolver } from "./resolver.ts";
+
+/**
+ * Answers by "<type> <name>", e.g. "TXT example.com"; an Error is thrown
+ * as the lookup failure
+ */
+export type Zone = Record<string, string[] | Error>;
+
+/**
+ * A resolver answering from a zone. Names with no entry of any type are
+ * NXDOMAIN; every query is appended to queries as "<type> <name>".
+ */
+export function zoneResolver(
+  zone: Zone,
+  queries: string[] = [],
+): SpfResolver {
+  const names = new Set(
+    Object.keys(zone).map((key) => key.slice(key.indexOf(" ") + 1)),
+  );
+  return {
+    lookup(name: string, type: SpfRecordType) {
+      const key = `${type} ${name.toLowerCase().replace(/\.$/, "")}`;
+      queries.push(key);
+      const answer = zone[key];
+      if (answer instanceof Error) return Promise.reject(answer);
+      if (!answer && !names.has(key.slice(type.length + 1))) {
+        return Promise.reject(new DnsError("NXDOMAIN", 3));
+      }
+      return Promise.resolve({
+        answers: (answer ?? []).map((data) => ({ data, ttl: 300 })),
+      });
+    },
+  };
+}
@@ -0,0 +1,558 @@
+/**
+ * SPF Evaluator
+ *
+ * Implements check_host() from RFC 7208 Section 4: fetches the SPF record
+ * of a domain, walks its mechanisms in order and returns the result of the
+ * first one that matches the client IP, following include and redirect.
+ */
+
+import {
+  cidrContains,
+  type IpAddress,
+  parseCidr,
+  parseIp,
+  reverseName,
+} from "./ip.ts";
+import { expandDomainSpec, expandMacros, MacroError } from "./macro.ts";
+import {
+  formatMechanism,
+  parseDomainCidr,
+  parseSpfRecord,
+  selectSpfRecord,
+} from "./record.ts";
+import {
+  isNxDomain,
+  queryMx,
+  queryPtr,
+  queryRecords,
+  type SpfResolver,
+} from "./resolver.ts";
+import {
+  MAX_DNS_LOOKUPS,
+  MAX_NAME_LOOKUPS,
+  MAX_VOID_LOOKUPS,
+  type SpfMechanism,
+} from "./types.ts";
+
+export type SpfEvaluationResult =
+  | "pass"
+  | "fail"
+  | "softfail"
+  | "neutral"
+  | "none"
+  | "permerror"
+  | "temperror";
+
+export interface SpfEvaluationMatch {
+  /** Domain whose record holds the matching term */
+  domain: string;
+  /** Matching term as written in the record, e.g. "ip4:192.0.2.0/24" */
+  term: string;
+  /** Mechanism indices from the top-level record down to the match */
+  path: number[];
+  /** include/redirect targets traversed to reach the match */
+  includes: string[];
+}
+
+export interface SpfEvaluation {
+  result: SpfEvaluationResult;
+  domain: string;
+  ip: string;
+  sender: string;
+  helo: string;
+  match: SpfEvaluationMatch | null;
+  reason: string;
+  /** Expanded exp= text, only present for a "fail" result */
+  explanation?: string;
+  lookupCount: number;
+  voidLookupCount: number;
+  queryTime: number;
+}
+
+export interface EvaluateOptions {
+  ip: string;
+  domain?: string;
+  sender?: string;
+  helo?: string;
+  resolver: SpfResolver;
+}
+
+interface EvaluationContext {
+  ip: IpAddress;
+  sender: string;
+  helo: string;
+  resolver: SpfResolver;
+  lookupCount: number;
+  voidLookupCount: number;
+}
+
+interface CheckHostOutcome {
+  result: SpfEvaluationResult;
+  reason: string;
+  match: SpfEvaluationMatch | null;
+  explanation?: string;
+}
+
+const QUALIFIER_RESULTS: Record<string, SpfEvaluationResult> = {
+  "+": "pass",
+  "-": "fail",
+  "~": "softfail",
+  "?": "neutral",
+};
+
+const MECHANISMS = ["all", "include", "a", "mx", "ptr", "ip4", "ip6", "exists"];
+
+/**
+ * Raised to abort evaluation with permerror or temperror. Both propagate
+ * unchanged through include and redirect (RFC 7208 Section 5.2).
+ */
+class CheckHostError extends Error {
+  constructor(readonly result: "permerror" | "temperror", message: string) {
+    super(message);
+    this.name = "CheckHostError";
+  }
+}
+
+function isValidDomain(domain: string): boolean {
+  if (domain.length === 0 || domain.length > 253) return false;
+  const labels = domain.split(".");
+  return labels.length > 1 &&
+    labels.every((label) => label.length > 0 && label.length <= 63);
+}
+
+function countLookup(ctx: EvaluationContext) {
+  ctx.lookupCount++;
+  if (ctx.lookupCount > MAX_DNS_LOOKUPS) {
+    throw new CheckHostError(
+      "permerror",
+      `DNS lookup limit exceeded (${MAX_DNS_LOOKUPS})`,
+    );
+  }
+}
+
+/**
+ * Expand the macros in a domain-spec for the domain being evaluated
+ */
+function expandTarget(
+  spec: string,
+  domain: string,
+  ctx: EvaluationContext,
+): string {
+  try {
+    return expandDomainSpec(spec, { ...ctx, domain });
+  } catch (err) {
+    if (err instanceof MacroError) {
+      throw new CheckHostError("permerror", err.message);
+    }
+    throw err;
+  }
+}
+
+/**
+ * Run a mechanism's DNS query, counting empty answers and NXDOMAIN as void
+ * lookups (RFC 7208 Section 4.6.4) and mapping other failures to temperror
+ */
+async function queryDns<T>(
+  ctx: EvaluationContext,
+  query: () => Promise<T[]>,
+): Promise<T[]> {
+  let answers: T[];
+  try {
+    answers = await query();
+  } catch (err) {
+    if (!isNxDomain(err)) {
+      throw new CheckHostError(
+        "temperror",
+        `DNS lookup failed: ${
+          err instanceof Error ? err.message : "Unknown error"
+        }`,
+      );
+    }
+    answers = [];
+  }
+
+  if (answers.length === 0) {
+    ctx.voidLookupCount++;
+    if (ctx.voidLookupCount > MAX_VOID_LOOKUPS) {
+      throw new CheckHostError(
+        "permerror",
+        `Void lookup limit exceeded (${MAX_VOID_LOOKUPS})`,
+      );
+    }
+  }
+
+  return answers;
+}
+
+function resolveAddresses(
+  name: string,
+  ctx: EvaluationContext,
+): Promise<string[]> {
+  return queryRecords(ctx.resolver, name, ctx.ip.version === 4 ? "A" : "AAAA");
+}
+
+/**
+ * Resolve the target domain and prefix lengths of an a/mx term
+ */
+function domainCidrOf(
+  mechanism: SpfMechanism,
+  currentDomain: string,
+  ctx: EvaluationContext,
+): { domain: string; cidr4: number; cidr6: number } {
+  const spec = parseDomainCidr(mechanism.value);
+  if (!spec) {
+    throw new CheckHostError(
+      "permerror",
+      `Invalid CIDR length in "${formatMechanism(mechanism)}"`,
+    );
+  }
+
+  return {
+    ...spec,
+    domain: spec.domain
+      ? expandTarget(spec.domain, currentDomain, ctx)
+      : currentDomain,
+  };
+}
+
+function addressesMatch(
+  addresses: string[],
+  prefix: number,
+  ctx: EvaluationContext,
+): boolean {
+  return addresses.some((address) => {
+    const parsed = parseIp(address);
+    return parsed !== null &&
+      cidrContains({ address: parsed, prefix }, ctx.ip);
+  });
+}
+
+async function matchPtr(
+  target: string,
+  ctx: EvaluationContext,
+): Promise<boolean> {
+  let names: string[];
+  try {
+    names = await queryPtr(ctx.resolver, reverseName(ctx.ip));
+  } catch {
+    // A failed PTR query is not an error: the mechanism just doesn't match
+    return false;
+  }
+
+  for (const name of names.slice(0, MAX_NAME_LOOKUPS)) {
+    if (name !== target && !name.endsWith(`.${target}`)) continue;
+    try {
+      const addresses = await resolveAddresses(name, ctx);
+      if (addressesMatch(addresses, ctx.ip.version === 4 ? 32 : 128, ctx)) {
+        return true;
+      }
+    } catch {
+      continue;
+    }
+  }
+
+  return false;
+}
+
+async function matchMechanism(
+  mechanism: SpfMechanism,
+  domain: string,
+  ctx: EvaluationContext,
+): Promise<boolean> {
+  switch (mechanism.type) {
+    case "all":
+      return true;
+
+    case "ip4":
+    case "ip6": {
+      const version = mechanism.type === "ip4" ? 4 : 6;
+      const network = parseCidr(mechanism.value, version);
+      if (!network) {
+        throw new CheckHostError(
+          "permerror",
+          `Invalid ${mechanism.type} network: "${mechanism.value}"`,
+        );
+      }
+      return cidrContains(network, ctx.ip);
+    }
+
+    case "a": {
+      countLookup(ctx);
+      const { domain: target, cidr4, cidr6 } = domainCidrOf(
+        mechanism,
+        domain,
+        ctx,
+      );
+      const addresses = await queryDns(
+        ctx,
+        () => resolveAddresses(target, ctx),
+      );
+      return addressesMatch(
+        addresses,
+        ctx.ip.version === 4 ? cidr4 : cidr6,
+        ctx,
+      );
+    }
+
+    case "mx": {
+      countLookup(ctx);
+      const { domain: target, cidr4, cidr6 } = domainCidrOf(
+        mechanism,
+        domain,
+        ctx,
+      );
+      const hosts = await queryDns(
+        ctx,
+        () => queryMx(ctx.resolver, target),
+      );
+      if (hosts.length > MAX_NAME_LOOKUPS) {
+        throw new CheckHostError(
+          "permerror",
+          `"mx:${target}" returned ${hosts.length} MX records (max ${MAX_NAME_LOOKUPS})`,
+        );
+      }
+      for (const host of hosts) {
+        const addresses = await queryDns(
+          ctx,
+          () => resolveAddresses(host.exchange, ctx),
+        );
+        if (
+          addressesMatch(addresses, ctx.ip.version === 4 ? cidr4 : cidr6, ctx)
+        ) {
+          return true;
+        }
+      }
+      return false;
+    }
+
+    case "ptr":
+      countLookup(ctx);
+      return await matchPtr(
+        mechanism.value ? expandTarget(mechanism.value, domain, ctx) : domain,
+        ctx,
+      );
+
+    case "exists": {
+      countLookup(ctx);
+      const target = expandTarget(mechanism.value, domain, ctx);
+      const addresses = await queryDns(
+        ctx,
+        () => queryRecords(ctx.resolver, target, "A"),
+      );
+      return addresses.length > 0;
+    }
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Fetch and expand the exp= explanation for a fail result. Any failure
+ * just means there is no explanation (RFC 7208 Section 6.2).
+ */
+async function explain(
+  spec: string,
+  domain: string,
+  ctx: EvaluationContext,
+): Promise<string | undefined> {
+  try {
+    const target = expandDomainSpec(spec, { ...ctx, domain });
+    const records = await queryRecords(ctx.resolver, target, "TXT");
+    if (records.length !== 1) return undefined;
+    return expandMacros(records[0], { ...ctx, domain }, { explanation: true });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Evaluate the record of a domain. Within an include, the included
+ * record's exp= modifier is ignored.
+ */
+async function checkHost(
+  domain: string,
+  ctx: EvaluationContext,
+  isInclude = false,
+): Promise<CheckHostOutcome> {
+  if (!isValidDomain(domain)) {
+    return { result: "none", reason: `Invalid domain: ${domain}`, match: null };
+  }
+
+  let records: string[];
+  try {
+    records = await queryRecords(ctx.resolver, domain, "TXT");
+  } catch (err) {
+    if (isNxDomain(err)) {
+      return {
+        result: "none",
+        reason: `Domain ${domain} does not exist`,
+        match: null,
+      };
+    }
+    throw new CheckHostError(
+      "temperror",
+      `DNS lookup failed for ${domain}: ${
+        err instanceof Error ? err.message : "Unknown error"
+      }`,
+    );
+  }
+
+  const selection = selectSpfRecord(records.map((text) => ({ text })));
+  if (selection.issues.some((i) => i.code === "multiple-spf-records")) {
+    throw new CheckHostError(
+      "permerror",
+      `Multiple SPF records found for ${domain}`,
+    );
+  }
+  if (!selection.record) {
+    return {
+      result: "none",
+      reason: `No SPF record found for ${domain}`,
+      match: null,
+    };
+  }
+
+  const parsed = parseSpfRecord(selection.record);
+  const syntaxError = parsed.issues.find((issue) => issue.type === "error");
+  if (syntaxError) {
+    throw new CheckHostError(
+      "permerror",
+      `${domain}: ${syntaxError.message}`,
+    );
+  }
+
+  const exp = parsed.mechanisms.find((m) => m.type === "exp");
+
+  for (const [index, mechanism] of parsed.mechanisms.entries()) {
+    if (mechanism.modifier || !MECHANISMS.includes(mechanism.type)) continue;
+
+    let match: SpfEvaluationMatch | null = null;
+
+    if (mechanism.type === "include") {
+      countLookup(ctx);
+      const target = expandTarget(mechanism.value, domain, ctx);
+      const nested = await checkHost(target, ctx, true);
+      if (nested.result === "none") {
+        throw new CheckHostError(
+          "permerror",
+          `include:${target} has no SPF record`,
+        );
+      }
+      if (nested.result === "pass") {
+        match = {
+          domain: nested.match?.domain ?? target,
+          term: nested.match?.term ?? formatMechanism(mechanism),
+          path: [index, ...(nested.match?.path ?? [])],
+          includes: [target, ...(nested.match?.includes ?? [])],
+        };
+      }
+    } else if (await matchMechanism(mechanism, domain, ctx)) {
+      match = {
+        domain,
+        term: formatMechanism(mechanism),
+        path: [index],
+        includes: [],
+      };
+    }
+
+    if (!match) continue;
+
+    const result = QUALIFIER_RESULTS[mechanism.qualifier];
+    return {
+      result,
+      reason: `Matched ${formatMechanism(mechanism)} in ${domain}`,
+      match,
+      explanation: result === "fail" && exp && !isInclude
+        ? await explain(exp.value, domain, ctx)
+        : undefined,
+    };
+  }
+
+  const redirectIndex = parsed.mechanisms.findIndex((m) =>
+    m.type === "redirect"
+  );
+  if (redirectIndex >= 0) {
+    const redirect = parsed.mechanisms[redirectIndex];
+    countLookup(ctx);
+    const target = expandTarget(redirect.value, domain, ctx);
+    const nested = await checkHost(target, ctx, isInclude);
+    if (nested.result === "none") {
+      throw new CheckHostError(
+        "permerror",
+        `redirect=${target} has no SPF record`,
+      );
+    }
+
+    return {
+      ...nested,
+      match: nested.match && {
+        ...nested.match,
+        path: [redirectIndex, ...nested.match.path],
+        includes: [target, ...nested.match.includes],
+      },
+    };
+  }
+
+  return {
+    result: "neutral",
+    reason: `No mechanism matched in ${domain}`,
+    match: null,
+  };
+}
+
+/**
+ * Evaluate whether a client IP is authorized to send mail for a domain.
+ *
+ * The domain defaults to the domain part of the sender; when there is no
+ * sender, "postmaster@<helo>" is used as RFC 7208 Section 2.4 requires.
+ */
+export async function evaluateSpf(
+  options: EvaluateOptions,
+): Promise<SpfEvaluation> {
+  const startTime = performance.now();
+
+  const ip = parseIp(options.ip.trim());
+  if (!ip) {
+    throw new Error(`Invalid IP address: ${options.ip}`);
+  }
+
+  const helo = (options.helo ?? "").trim().toLowerCase();
+  let sender = (options.sender ?? "").trim() ||
+    (helo ? `postmaster@${helo}` : "");
+  if (sender && !sender.includes("@")) {
+    sender = `postmaster@${sender}`;
+  }
+
+  const domain = (options.domain?.trim() || sender.split("@").pop() || "")
+    .toLowerCase()
+    .replace(/\.$/, "");
+
+  const ctx: EvaluationContext = {
+    ip,
+    sender,
+    helo,
+    resolver: options.resolver,
+    lookupCount: 0,
+    voidLookupCount: 0,
+  };
+
+  let outcome: CheckHostOutcome;
+  try {
+    outcome = await checkHost(domain, ctx);
+  } catch (err) {
+    if (!(err instanceof CheckHostError)) throw err;
+    outcome = { result: err.result, reason: err.message, match: null };
+  }
+
+  return {
+    ...outcome,
+    domain,
+    ip: options.ip.trim(),
+    sender,
+    helo,
+    lookupCount: ctx.lookupCount,
+    voidLookupCount: ctx.voidLookupCount,
+    queryTime: Math.round(performance.now() - startTime),
+  };
+}
@@ -0,0 +1,251 @@
+import { assertEquals } from "@std/assert";
+import { evaluateSpf } from "./evaluate.ts";
+import { DnsError } from "./resolver.ts";
+import { type Zone, zoneResolver } from "./_test_utils.ts";
+
+function evaluate(zone: Zone, ip: string, domain = "example.com") {
+  return evaluateSpf({ ip, domain, resolver: zoneResolver(zone) });
+}
+
+Deno.test("evaluateSpf returns the qualifier of the first matching term", async () => {
+  const zone = {
+    "TXT example.com": [
+      "v=spf1 -ip4:192.0.2.1 ~ip4:192.0.2.2 ?ip4:192.0.2.3 ip4:192.0.2.0/24 -all",
+    ],
+  };
+
+  assertEquals((await evaluate(zone, "192.0.2.1")).result, "fail");
+  assertEquals((await evaluate(zone, "192.0.2.2")).result, "softfail");
+  assertEquals((await evaluate(zone, "192.0.2.3")).result, "neutral");
+  assertEquals((await evaluate(zone, "192.0.2.4")).result, "pass");
+  assertEquals((await evaluate(zone, "198.51.100.1")).result, "fail");
+});
+
+Deno.test("evaluateSpf is neutral when nothing matches and there is no all", async () => {
+  const evaluation = await evaluate(
+    { "TXT example.com": ["v=spf1 ip4:192.0.2.0/24"] },
+    "198.51.100.1",
+  );
+
+  assertEquals(evaluation.result, "neutral");
+  assertEquals(evaluation.match, null);
+});
+
+Deno.test("evaluateSpf returns none without a record or a domain", async () => {
+  const zone = { "TXT example.com": ["google-site-verification=abc"] };
+
+  assertEquals((await evaluate(zone, "192.0.2.1")).result, "none");
+  assertEquals(
+    (await evaluate(zone, "192.0.2.1", "missing.example")).result,
+    "none",
+  );
+});
+
+Deno.test("evaluateSpf follows include and reports the matching path", async () => {
+  const evaluation = await evaluate({
+    "TXT example.com": [
+      "v=spf1 ip4:198.51.100.0/24 include:_spf.example.net -all",
+    ],
+    "TXT _spf.example.net": ["v=spf1 ip6:2001:db8::/32 ip4:192.0.2.0/24 -all"],
+  }, "192.0.2.10");
+
+  assertEquals(evaluation.result, "pass");
+  assertEquals(evaluation.match, {
+    domain: "_spf.example.net",
+    term: "ip4:192.0.2.0/24",
+    path: [1, 1],
+    includes: ["_spf.example.net"],
+  });
+  assertEquals(evaluation.lookupCount, 1);
+});
+
+Deno.test("evaluateSpf doesn't let an include's fail end the evaluation", async () => {
+  const evaluation = await evaluate({
+    "TXT example.com": [
+      "v=spf1 include:_spf.example.net ip4:192.0.2.0/24 -all",
+    ],
+    "TXT _spf.example.net": ["v=spf1 ip4:198.51.100.0/24 -all"],
+  }, "192.0.2.10");
+
+  assertEquals(evaluation.result, "pass");
+  assertEquals(evaluation.match?.term, "ip4:192.0.2.0/24");
+});
+
+Deno.test("evaluateSpf returns permerror for an include without a record", async () => {
+  const evaluation = await evaluate(
+    { "TXT example.com": ["v=spf1 include:missing.example -all"] },
+    "192.0.2.1",
+  );
+
+  assertEquals(evaluation.result, "permerror");
+});
+
+Deno.test("evaluateSpf follows redirect only when nothing matched", async () => {
+  const zone = {
+    "TXT example.com": ["v=spf1 ip4:198.51.100.0/24 redirect=_spf.example.net"],
+    "TXT _spf.example.net": ["v=spf1 ip4:192.0.2.0/24 ~all"],
+  };
+
+  const redirected = await evaluate(zone, "203.0.113.1");
+  assertEquals(redirected.result, "softfail");
+  assertEquals(redirected.match?.includes, ["_spf.example.net"]);
+  assertEquals((await evaluate(zone, "198.51.100.1")).lookupCount, 0);
+  assertEquals(
+    (await evaluate(
+      { "TXT example.com": ["v=spf1 redirect=missing.example"] },
+      "192.0.2.1",
+    )).result,
+    "permerror",
+  );
+});
+
+Deno.test("evaluateSpf matches a and mx with their CIDR lengths", async () => {
+  const zone = {
+    "TXT example.com": ["v=spf1 a/24 mx:mail.example.com -all"],
+    "A example.com": ["192.0.2.1"],
+    "MX mail.example.com": ["10 mx1.example.com", "20 mx2.example.com"],
+    "A mx1.example.com": ["198.51.100.1"],
+    "A mx2.example.com": ["198.51.100.2"],
+  };
+
+  assertEquals((await evaluate(zone, "192.0.2.200")).result, "pass");
+  assertEquals((await evaluate(zone, "198.51.100.2")).result, "pass");
+  assertEquals((await evaluate(zone, "198.51.100.3")).result, "fail");
+});
+
+Deno.test("evaluateSpf returns permerror for more than 10 MX names", async () => {
+  const exchanges = Array.from(
+    { length: 11 },
+    (_, i) => `${i} mx${i}.example.com`,
+  );
+  const evaluation = await evaluate({
+    "TXT example.com": ["v=spf1 mx -all"],
+    "MX example.com": exchanges,
+  }, "192.0.2.1");
+
+  assertEquals(evaluation.result, "permerror");
+});
+
+Deno.test("evaluateSpf returns permerror past 10 DNS lookups", async () => {
+  const terms = Array.from({ length: 11 }, (_, i) => `a:h${i}.example.com`);
+  const zone: Zone = { "TXT example.com": [`v=spf1 ${terms.join(" ")} -all`] };
+  for (let i = 0; i < 11; i++) zone[`A h${i}.example.com`] = ["198.51.100.1"];
+
+  const evaluation = await evaluate(zone, "192.0.2.1");
+
+  assertEquals(evaluation.result, "permerror");
+  assertEquals(evaluation.lookupCount, 11);
+  assertEquals(
+    (await evaluate(
+      {
+        ...zone,
+        "TXT example.com": [`v=spf1 ${terms.slice(1).join(" ")} -all`],
+      },
+      "192.0.2.1",
+    )).result,
+    "fail",
+  );
+});
+
+Deno.test("evaluateSpf returns permerror past 2 void lookups", async () => {
+  const zone = {
+    "TXT example.com": [
+      "v=spf1 a:void1.example.com a:void2.example.com a:void3.example.com -all",
+    ],
+    "TXT void1.example.com": ["unrelated"],
+  };
+
+  const evaluation = await evaluate(zone, "192.0.2.1");
+
+  assertEquals(evaluation.result, "permerror");
+  assertEquals(evaluation.voidLookupCount, 3);
+  assertEquals(evaluation.reason, "Void lookup limit exceeded (2)");
+});
+
+Deno.test("evaluateSpf returns temperror when a lookup fails", async () => {
+  const failure = new DnsError("Server failure", 2);
+
+  assertEquals(
+    (await evaluate({ "TXT example.com": failure }, "192.0.2.1")).result,
+    "temperror",
+  );
+  assertEquals(
+    (await evaluate({
+      "TXT example.com": ["v=spf1 a -all"],
+      "A example.com": failure,
+    }, "192.0.2.1")).result,
+    "temperror",
+  );
+});
+
+Deno.test("evaluateSpf returns permerror for several records or bad syntax", async () => {
+  assertEquals(
+    (await evaluate({
+      "TXT example.com": ["v=spf1 -all", "v=spf1 +all"],
+    }, "192.0.2.1")).result,
+    "permerror",
+  );
+  assertEquals(
+    (await evaluate({
+      "TXT example.com": ["v=spf1 ip4:192.0.2.300 -all"],
+    }, "192.0.2.1")).result,
+    "permerror",
+  );
+});
+
+Deno.test("evaluateSpf expands macros in exists and the fail explanation", async () => {
+  const zone = {
+    "TXT example.com": [
+      "v=spf1 exists:%{ir}.%{l1r-}.allow.example.com -all exp=explain.example.com",
+    ],
+    "A 1.2.0.192.strong.allow.example.com": ["127.0.0.2"],
+    "TXT explain.example.com": [
+      "%{i} is not one of %{d}'s designated mail servers",
+    ],
+  };
+
+  const allowed = await evaluateSpf({
+    ip: "192.0.2.1",
+    sender: "strong-bad@example.com",
+    resolver: zoneResolver(zone),
+  });
+  assertEquals(allowed.result, "pass");
+
+  const denied = await evaluateSpf({
+    ip: "192.0.2.9",
+    sender: "strong-bad@example.com",
+    resolver: zoneResolver(zone),
+  });
+  assertEquals(denied.result, "fail");
+  assertEquals(
+    denied.explanation,
+    "192.0.2.9 is not one of example.com's designated mail servers",
+  );
+});
+
+Deno.test("evaluateSpf checks postmaster@<helo> when there is no sender", async () => {
+  const evaluation = await evaluateSpf({
+    ip: "2001:db8::1",
+    helo: "Mail.Example.com",
+    resolver: zoneResolver({
+      "TXT mail.example.com": ["v=spf1 ip6:2001:db8::/64 -all"],
+    }),
+  });
+
+  assertEquals(evaluation.result, "pass");
+  assertEquals(evaluation.sender, "postmaster@mail.example.com");
+  assertEquals(evaluation.domain, "mail.example.com");
+});
+
+Deno.test("evaluateSpf matches ptr against validated names", async () => {
+  const zone = {
+    "TXT example.com": ["v=spf1 ptr -all"],
+    "PTR 1.2.0.192.in-addr.arpa": ["mail.example.com."],
+    "A mail.example.com": ["192.0.2.1"],
+    "PTR 2.2.0.192.in-addr.arpa": ["mail.example.com."],
+  };
+
+  assertEquals((await evaluate(zone, "192.0.2.1")).result, "pass");
+  // The name's addresses don't include the client, so it isn't validated
+  assertEquals((await evaluate(zone, "192.0.2.2")).result, "fail");
+});
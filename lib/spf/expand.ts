@@ -0,0 +1,504 @@
+/**
+ * SPF Expansion
+ *
+ * Fetches a domain's SPF record (RFC 7208) and recursively expands its
+ * include/redirect terms, resolving the names behind a, mx, ptr and
+ * exists terms while counting DNS lookups against the limits.
+ */
+
+import { reverseName } from "./ip.ts";
+import { expandDomainSpec, hasMacros, type MacroContext } from "./macro.ts";
+import {
+  fetchSpfRecord,
+  type FetchSpfResult,
+  formatMechanism,
+  parseDomainCidr,
+  parseSpfRecord,
+} from "./record.ts";
+import { annotateProviders, type SpfProvider } from "./providers.ts";
+import {
+  isNxDomain,
+  queryMx,
+  queryPtr,
+  queryRecords,
+  type SpfResolver,
+} from "./resolver.ts";
+import {
+  LOOKUP_MECHANISMS,
+  MAX_DNS_LOOKUPS,
+  MAX_NAME_LOOKUPS,
+  MAX_VOID_LOOKUPS,
+  type SpfLookupCost,
+  type SpfMechanism,
+  type SpfProgressEvent,
+  type SpfResolution,
+  type SpfResult,
+  type SpfValidationIssue,
+} from "./types.ts";
+
+export interface LookupContext {
+  count: number;
+  voidCount: number;
+  maxLookups: number;
+  resolver: SpfResolver;
+  /** Evaluation context used to expand macros in include/redirect targets */
+  macro?: Omit<MacroContext, "domain">;
+  /** SPF records to use instead of DNS, keyed by lowercase domain */
+  records?: Map<string, string>;
+  /** Called as each node of the tree is fetched, parsed or fails */
+  onProgress?: (event: SpfProgressEvent) => void;
+}
+
+/**
+ * Run a query, treating NXDOMAIN as an empty answer
+ */
+async function queryOrEmpty<T>(query: Promise<T[]>): Promise<T[]> {
+  try {
+    return await query;
+  } catch (err) {
+    if (isNxDomain(err)) return [];
+    throw err;
+  }
+}
+
+async function resolveAddresses(
+  name: string,
+  resolver: SpfResolver,
+): Promise<string[]> {
+  const [v4, v6] = await Promise.all([
+    queryOrEmpty(queryRecords(resolver, name, "A")),
+    queryOrEmpty(queryRecords(resolver, name, "AAAA")),
+  ]);
+  return [...v4, ...v6];
+}
+
+function targetOf(spec: string, domain: string, ctx: LookupContext): string {
+  return ctx.macro && hasMacros(spec)
+    ? expandDomainSpec(spec, { ...ctx.macro, domain })
+    : spec;
+}
+
+/**
+ * Query the DNS names behind an a, mx, ptr or exists term
+ */
+async function resolveMechanism(
+  mechanism: SpfMechanism,
+  domain: string,
+  ctx: LookupContext,
+  issues: SpfValidationIssue[],
+): Promise<SpfResolution | undefined> {
+  const term = formatMechanism(mechanism);
+  let target = domain;
+
+  try {
+    switch (mechanism.type) {
+      case "a": {
+        const spec = parseDomainCidr(mechanism.value);
+        target = spec?.domain ? targetOf(spec.domain, domain, ctx) : domain;
+        const addresses = await resolveAddresses(target, ctx.resolver);
+        return { target, addresses, void: addresses.length === 0 };
+      }
+
+      case "mx": {
+        const spec = parseDomainCidr(mechanism.value);
+        target = spec?.domain ? targetOf(spec.domain, domain, ctx) : domain;
+        const exchanges = await queryOrEmpty(
+          queryMx(ctx.resolver, target),
+        );
+        if (exchanges.length > MAX_NAME_LOOKUPS) {
+          issues.push({
+            type: "error",
+            message:
+              `"${term}" has ${exchanges.length} MX records (RFC 7208 allows max ${MAX_NAME_LOOKUPS})`,
+          });
+        }
+        const hosts = await Promise.all(
+          exchanges.slice(0, MAX_NAME_LOOKUPS).map(async (mx) => ({
+            name: mx.exchange,
+            addresses: await resolveAddresses(mx.exchange, ctx.resolver),
+          })),
+        );
+        for (const host of hosts.filter((h) => h.addresses.length === 0)) {
+          issues.push({
+            type: "warning",
+            message: `MX host ${host.name} of "${term}" has no A/AAAA records`,
+          });
+        }
+        return {
+          target,
+          addresses: hosts.flatMap((h) => h.addresses),
+          hosts,
+          ...(exchanges.length > MAX_NAME_LOOKUPS && {
+            exchanges: exchanges.map((mx) => mx.exchange),
+          }),
+          void: exchanges.length === 0,
+        };
+      }
+
+      case "ptr": {
+        // PTR names depend on the client IP, so only resolve when one is given
+        if (!ctx.macro) return undefined;
+        target = mechanism.value
+          ? targetOf(mechanism.value, domain, ctx)
+          : domain;
+        const names = await queryOrEmpty(
+          queryPtr(ctx.resolver, reverseName(ctx.macro.ip)),
+        );
+        if (names.length > MAX_NAME_LOOKUPS) {
+          issues.push({
+            type: "warning",
+            message:
+              `"${term}" returned ${names.length} PTR names; only the first ${MAX_NAME_LOOKUPS} are checked`,
+          });
+        }
+        return {
+          target,
+          addresses: [],
+          names: names.slice(0, MAX_NAME_LOOKUPS),
+          void: names.length === 0,
+        };
+      }
+
+      case "exists": {
+        target = targetOf(mechanism.value, domain, ctx);
+        const addresses = await queryOrEmpty(
+          queryRecords(ctx.resolver, target, "A"),
+        );
+        return { target, addresses, void: addresses.length === 0 };
+      }
+
+      default:
+        return undefined;
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    issues.push({
+      type: "error",
+      code: "dns-lookup-failed",
+      message: `DNS lookup failed for "${term}": ${message}`,
+    });
+    return { target, addresses: [], void: false, error: message };
+  }
+}
+
+function lookupCost(lookups: number): SpfLookupCost {
+  return { lookups, share: lookups / MAX_DNS_LOOKUPS };
+}
+
+/**
+ * An include/redirect that couldn't be expanded, reported as a failed node
+ */
+function unexpanded(
+  mechanism: SpfMechanism,
+  domain: string,
+  code: string,
+  message: string,
+  path: string[],
+  ctx: LookupContext,
+): SpfMechanism {
+  const issues: SpfValidationIssue[] = [{ type: "error", code, message }];
+  ctx.onProgress?.({
+    type: "failed",
+    path: [...path, domain],
+    domain,
+    record: null,
+    issues,
+    lookupCount: ctx.count,
+    queryTime: 0,
+  });
+
+  return {
+    ...mechanism,
+    expanded: {
+      domain,
+      record: null,
+      version: null,
+      mechanisms: [],
+      lookupCount: 0,
+      voidLookupCount: 0,
+      issues,
+      queryTime: 0,
+    },
+  };
+}
+
+async function expandMechanism(
+  mechanism: SpfMechanism,
+  domain: string,
+  path: string[],
+  ctx: LookupContext,
+  issues: SpfValidationIssue[],
+): Promise<SpfMechanism> {
+  if (
+    !LOOKUP_MECHANISMS.includes(mechanism.type) || mechanism.error ||
+    (mechanism.modifier && mechanism.type !== "redirect")
+  ) {
+    return mechanism;
+  }
+
+  if (hasMacros(mechanism.value) && !ctx.macro) {
+    ctx.count++;
+    return { ...mechanism, macro: true };
+  }
+
+  if (mechanism.type !== "include" && mechanism.type !== "redirect") {
+    ctx.count++;
+    if (ctx.count > ctx.maxLookups) {
+      return mechanism;
+    }
+
+    const resolved = await resolveMechanism(mechanism, domain, ctx, issues);
+    if (resolved?.void) {
+      ctx.voidCount++;
+      issues.push({
+        type: "warning",
+        message: `"${
+          formatMechanism(mechanism)
+        }" is a void lookup: ${resolved.target} returned no records`,
+      });
+      if (ctx.voidCount === MAX_VOID_LOOKUPS + 1) {
+        issues.push({
+          type: "error",
+          message:
+            `Too many void lookups (RFC 7208 allows max ${MAX_VOID_LOOKUPS})`,
+        });
+      }
+    }
+
+    return { ...mechanism, resolved };
+  }
+
+  let targetDomain = mechanism.value;
+  if (ctx.macro && hasMacros(mechanism.value)) {
+    try {
+      targetDomain = expandDomainSpec(mechanism.value, {
+        ...ctx.macro,
+        domain,
+      });
+    } catch (err) {
+      return unexpanded(
+        mechanism,
+        mechanism.value,
+        "macro-expansion-failed",
+        `Macro expansion failed: ${
+          err instanceof Error ? err.message : "Unknown error"
+        }`,
+        path,
+        ctx,
+      );
+    }
+  }
+  if (!targetDomain) {
+    return unexpanded(
+      mechanism,
+      "",
+      "missing-domain",
+      "Missing domain for include/redirect",
+      path,
+      ctx,
+    );
+  }
+
+  // Only an ancestor makes a loop; a domain included from two branches
+  // is expanded and counted in each
+  const target = targetDomain.toLowerCase();
+  if (path.some((ancestor) => ancestor.toLowerCase() === target)) {
+    return unexpanded(
+      mechanism,
+      targetDomain,
+      "circular-reference",
+      `Circular reference detected: ${targetDomain}`,
+      path,
+      ctx,
+    );
+  }
+
+  const countBefore = ctx.count;
+  ctx.count++;
+
+  if (ctx.count > ctx.maxLookups) {
+    return unexpanded(
+      mechanism,
+      targetDomain,
+      "lookup-limit-exceeded",
+      `DNS lookup limit exceeded (${ctx.maxLookups})`,
+      path,
+      ctx,
+    );
+  }
+
+  const expandedResult = await lookupSpf(targetDomain, ctx, [
+    ...path,
+    targetDomain,
+  ]);
+
+  return {
+    ...mechanism,
+    expanded: {
+      ...expandedResult,
+      cost: lookupCost(ctx.count - countBefore),
+    },
+  };
+}
+
+export async function lookupSpf(
+  domain: string,
+  ctx: LookupContext,
+  path: string[] = [domain],
+): Promise<SpfResult> {
+  const startTime = performance.now();
+  const issues: SpfValidationIssue[] = [];
+
+  const override = ctx.records?.get(domain.toLowerCase());
+  const spfResult: FetchSpfResult = override !== undefined
+    ? { record: override.trim(), issues: [] }
+    : await fetchSpfRecord(domain, ctx.resolver);
+
+  if (!spfResult.record) {
+    const issues: SpfValidationIssue[] = spfResult.issues.length > 0
+      ? spfResult.issues
+      : [{
+        type: "error",
+        code: "no-spf-record",
+        message: `No SPF record found for ${domain}`,
+      }];
+    const queryTime = Math.round(performance.now() - startTime);
+    ctx.onProgress?.({
+      type: "failed",
+      path,
+      domain,
+      record: null,
+      issues,
+      lookupCount: ctx.count,
+      queryTime,
+    });
+
+    return {
+      domain,
+      record: null,
+      version: null,
+      mechanisms: [],
+      lookupCount: ctx.count,
+      voidLookupCount: ctx.voidCount,
+      issues,
+      queryTime,
+      cache: spfResult.cache,
+      recordTtl: spfResult.recordTtl,
+      candidates: spfResult.candidates,
+    };
+  }
+
+  const record = spfResult.record;
+  issues.push(...spfResult.issues);
+  const fetchTime = Math.round(performance.now() - startTime);
+  ctx.onProgress?.({
+    type: "fetched",
+    path,
+    domain,
+    record,
+    issues: spfResult.issues,
+    lookupCount: ctx.count,
+    queryTime: fetchTime,
+  });
+
+  const parsed = parseSpfRecord(record);
+  issues.push(...parsed.issues);
+  ctx.onProgress?.({
+    type: "parsed",
+    path,
+    domain,
+    record,
+    mechanisms: parsed.mechanisms,
+    issues: [...issues],
+    lookupCount: ctx.count,
+    queryTime: fetchTime,
+  });
+
+  const expandedMechanisms: SpfMechanism[] = [];
+  for (const mechanism of parsed.mechanisms) {
+    const expanded = await expandMechanism(
+      mechanism,
+      domain,
+      path,
+      ctx,
+      issues,
+    );
+    expandedMechanisms.push(expanded);
+  }
+
+  return {
+    domain,
+    record,
+    version: parsed.version,
+    mechanisms: expandedMechanisms,
+    lookupCount: ctx.count,
+    voidLookupCount: ctx.voidCount,
+    issues,
+    queryTime: Math.round(performance.now() - startTime),
+    cache: spfResult.cache,
+    recordTtl: spfResult.recordTtl,
+    candidates: spfResult.candidates,
+  };
+}
+
+export interface CheckSpfOptions {
+  resolver: SpfResolver;
+  /** Evaluation context used to expand macros in include/redirect targets */
+  macro?: Omit<MacroContext, "domain">;
+  /**
+   * Records to use instead of DNS, keyed by domain, for checking records
+   * that aren't published yet
+   */
+  records?: Record<string, string>;
+  /** Called as each node of the tree is fetched, parsed or fails */
+  onProgress?: (event: SpfProgressEvent) => void;
+  /**
+   * Mail providers to recognise includes and ranges by, the built-in
+   * catalog by default; an empty list leaves terms unannotated
+   */
+  providers?: SpfProvider[];
+}
+
+function toRecordMap(records: Record<string, string>): Map<string, string> {
+  const map = new Map<string, string>();
+  for (const [name, record] of Object.entries(records)) {
+    map.set(name.toLowerCase().replace(/\.$/, ""), record);
+  }
+  return map;
+}
+
+/**
+ * Look up and expand the SPF record of a domain with a fresh lookup
+ * context, flagging records over the DNS lookup limit and marking the
+ * terms of known mail providers
+ */
+export async function checkSpf(
+  domain: string,
+  options: CheckSpfOptions,
+): Promise<SpfResult> {
+  const ctx: LookupContext = {
+    count: 0,
+    voidCount: 0,
+    maxLookups: MAX_DNS_LOOKUPS,
+    resolver: options.resolver,
+    macro: options.macro,
+    records: options.records ? toRecordMap(options.records) : undefined,
+    onProgress: options.onProgress,
+  };
+
+  const result = annotateProviders(
+    await lookupSpf(domain, ctx),
+    options.providers,
+  );
+  result.cost = lookupCost(result.lookupCount);
+
+  if (result.lookupCount > MAX_DNS_LOOKUPS) {
+    result.issues.push({
+      type: "error",
+      message:
+        `Too many DNS lookups: ${result.lookupCount} (RFC 7208 allows max ${MAX_DNS_LOOKUPS})`,
+    });
+  }
+
+  return result;
+}
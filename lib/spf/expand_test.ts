@@ -0,0 +1,190 @@
+import { assertEquals, assertExists } from "@std/assert";
+import { checkSpf } from "./expand.ts";
+import { parseIp } from "./ip.ts";
+import type { SpfResult, SpfValidationIssue } from "./types.ts";
+import { type Zone, zoneResolver } from "./_test_utils.ts";
+
+function collectIssues(result: SpfResult): SpfValidationIssue[] {
+  return result.mechanisms.flatMap((m) =>
+    m.expanded ? [...m.expanded.issues, ...collectIssues(m.expanded)] : []
+  );
+}
+
+Deno.test("checkSpf reports a failed mx lookup as dns-lookup-failed", async () => {
+  const resolver = zoneResolver({
+    "TXT example.com": ["v=spf1 mx -all"],
+    "MX example.com": new Error("timed out"),
+  });
+
+  const result = await checkSpf("example.com", { resolver });
+
+  const failure = result.issues.find((i) => i.code === "dns-lookup-failed");
+  assertExists(failure);
+  assertEquals(failure.message, 'DNS lookup failed for "mx": timed out');
+  assertEquals(result.mechanisms[0].resolved?.error, "timed out");
+});
+
+Deno.test("checkSpf reports failed a and exists lookups as dns-lookup-failed", async () => {
+  const resolver = zoneResolver({
+    "TXT example.com": ["v=spf1 a:mail.example.com exists:x.example.com -all"],
+    "A mail.example.com": new Error("SERVFAIL"),
+    "A x.example.com": new Error("SERVFAIL"),
+  });
+
+  const result = await checkSpf("example.com", { resolver });
+
+  assertEquals(
+    result.issues.filter((i) => i.code === "dns-lookup-failed").length,
+    2,
+  );
+});
+
+Deno.test("checkSpf expands and counts an include shared by two branches", async () => {
+  const resolver = zoneResolver({
+    "TXT a.example": ["v=spf1 include:b.example include:c.example -all"],
+    "TXT b.example": ["v=spf1 include:d.example -all"],
+    "TXT c.example": ["v=spf1 include:d.example -all"],
+    "TXT d.example": ["v=spf1 a -all"],
+    "A d.example": ["192.0.2.1"],
+  });
+
+  const result = await checkSpf("a.example", { resolver });
+
+  assertEquals(result.lookupCount, 6);
+  assertEquals(
+    [...result.issues, ...collectIssues(result)].filter((i) =>
+      i.code === "circular-reference"
+    ),
+    [],
+  );
+  const [b, c] = result.mechanisms.map((m) => m.expanded);
+  assertEquals(b?.mechanisms[0].expanded?.record, "v=spf1 a -all");
+  assertEquals(c?.mechanisms[0].expanded?.record, "v=spf1 a -all");
+  assertEquals(b?.cost?.lookups, 3);
+  assertEquals(c?.cost?.lookups, 3);
+});
+
+Deno.test("checkSpf stops at an include of one of its ancestors", async () => {
+  const resolver = zoneResolver({
+    "TXT a.example": ["v=spf1 include:b.example -all"],
+    "TXT b.example": ["v=spf1 include:A.example -all"],
+  });
+
+  const result = await checkSpf("a.example", { resolver });
+
+  const loop = result.mechanisms[0].expanded?.mechanisms[0].expanded;
+  assertEquals(loop?.record, null);
+  assertEquals(loop?.issues[0].code, "circular-reference");
+  assertEquals(result.lookupCount, 1);
+});
+
+Deno.test("checkSpf resolves a and mx terms", async () => {
+  const resolver = zoneResolver({
+    "TXT example.com": ["v=spf1 a mx -all"],
+    "A example.com": ["192.0.2.1"],
+    "AAAA example.com": ["2001:db8::1"],
+    "MX example.com": ["20 mx2.example.com", "10 mx1.example.com"],
+    "A mx1.example.com": ["192.0.2.10"],
+    "A mx2.example.com": ["192.0.2.20"],
+  });
+
+  const result = await checkSpf("example.com", { resolver });
+
+  assertEquals(result.mechanisms[0].resolved, {
+    target: "example.com",
+    addresses: ["192.0.2.1", "2001:db8::1"],
+    void: false,
+  });
+  assertEquals(
+    result.mechanisms[1].resolved?.hosts?.map((host) => host.name),
+    ["mx1.example.com", "mx2.example.com"],
+  );
+  assertEquals(result.lookupCount, 2);
+  assertEquals(result.issues, []);
+});
+
+Deno.test("checkSpf flags more than 2 void lookups", async () => {
+  const resolver = zoneResolver({
+    "TXT example.com": [
+      "v=spf1 a:void1.example.com mx:void2.example.com exists:void3.example.com -all",
+    ],
+  });
+
+  const result = await checkSpf("example.com", { resolver });
+
+  assertEquals(result.voidLookupCount, 3);
+  assertEquals(
+    result.issues.filter((i) => i.type === "error").map((i) => i.message),
+    ["Too many void lookups (RFC 7208 allows max 2)"],
+  );
+});
+
+Deno.test("checkSpf flags more than 10 DNS lookups and stops expanding", async () => {
+  const includes = Array.from(
+    { length: 11 },
+    (_, i) => `include:s${i}.example`,
+  );
+  const zone: Zone = {
+    "TXT example.com": [`v=spf1 ${includes.join(" ")} -all`],
+  };
+  for (let i = 0; i < 11; i++) zone[`TXT s${i}.example`] = ["v=spf1 -all"];
+  const queries: string[] = [];
+
+  const result = await checkSpf("example.com", {
+    resolver: zoneResolver(zone, queries),
+  });
+
+  assertEquals(result.lookupCount, 11);
+  assertEquals(
+    result.issues.map((i) => i.message),
+    ["Too many DNS lookups: 11 (RFC 7208 allows max 10)"],
+  );
+  assertEquals(
+    result.mechanisms[10].expanded?.issues[0].code,
+    "lookup-limit-exceeded",
+  );
+  assertEquals(queries.includes("TXT s10.example"), false);
+});
+
+Deno.test("checkSpf flags more than 10 MX names and keeps them all", async () => {
+  const exchanges = Array.from(
+    { length: 12 },
+    (_, i) => `${i} mx${i}.example.com`,
+  );
+  const zone: Zone = {
+    "TXT example.com": ["v=spf1 mx -all"],
+    "MX example.com": exchanges,
+  };
+  for (let i = 0; i < 12; i++) zone[`A mx${i}.example.com`] = ["192.0.2.1"];
+
+  const result = await checkSpf("example.com", {
+    resolver: zoneResolver(zone),
+  });
+
+  const resolved = result.mechanisms[0].resolved;
+  assertEquals(resolved?.hosts?.length, 10);
+  assertEquals(resolved?.exchanges?.length, 12);
+  assertEquals(
+    result.issues.map((i) => i.message),
+    ['"mx" has 12 MX records (RFC 7208 allows max 10)'],
+  );
+});
+
+Deno.test("checkSpf only resolves ptr for a sending host", async () => {
+  const zone: Zone = {
+    "TXT example.com": ["v=spf1 ptr -all"],
+    "PTR 1.2.0.192.in-addr.arpa": ["mail.example.com."],
+  };
+
+  const unresolved = await checkSpf("example.com", {
+    resolver: zoneResolver(zone),
+  });
+  assertEquals(unresolved.mechanisms[0].resolved, undefined);
+  assertEquals(unresolved.lookupCount, 1);
+
+  const resolved = await checkSpf("example.com", {
+    resolver: zoneResolver(zone),
+    macro: { ip: parseIp("192.0.2.1")!, sender: "a@example.com", helo: "" },
+  });
+  assertEquals(resolved.mechanisms[0].resolved?.names, ["mail.example.com"]);
+});
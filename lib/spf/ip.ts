@@ -0,0 +1,256 @@
+/**
+ * IP Address Utilities
+ *
+ * Parsing, formatting and CIDR matching for IPv4 and IPv6 addresses as
+ * used by the ip4, ip6, a, mx and ptr mechanisms. Addresses are held as
+ * bigints so both families share the same arithmetic.
+ */
+
+export interface IpAddress {
+  version: 4 | 6;
+  value: bigint;
+}
+
+export interface IpNetwork {
+  address: IpAddress;
+  prefix: number;
+}
+
+/**
+ * Number of bits in an address of the given family
+ */
+export function addressBits(version: 4 | 6): number {
+  return version === 4 ? 32 : 128;
+}
+
+/**
+ * Parse a dotted-quad IPv4 address
+ */
+export function parseIPv4(input: string): bigint | null {
+  const parts = input.split(".");
+  if (parts.length !== 4) return null;
+
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const octet = Number(part);
+    if (octet > 255) return null;
+    value = (value << 8n) | BigInt(octet);
+  }
+
+  return value;
+}
+
+/**
+ * Parse an IPv6 address, including "::" compression and a trailing
+ * dotted-quad (e.g. "::ffff:192.0.2.1")
+ */
+export function parseIPv6(input: string): bigint | null {
+  const halves = input.split("::");
+  if (halves.length > 2) return null;
+
+  const head = halves[0] === "" ? [] : halves[0].split(":");
+  const tail = halves.length === 2 && halves[1] !== ""
+    ? halves[1].split(":")
+    : [];
+
+  const last = halves.length === 2 ? tail : head;
+  if (last.length > 0 && last[last.length - 1].includes(".")) {
+    const v4 = parseIPv4(last[last.length - 1]);
+    if (v4 === null) return null;
+    last.splice(
+      -1,
+      1,
+      (v4 >> 16n).toString(16),
+      (v4 & 0xffffn).toString(16),
+    );
+  }
+
+  const groups = head.length + tail.length;
+  if (halves.length === 2 ? groups > 7 : groups !== 8) return null;
+
+  const words = [
+    ...head,
+    ...Array<string>(8 - groups).fill("0"),
+    ...tail,
+  ];
+
+  let value = 0n;
+  for (const word of words) {
+    if (!/^[0-9a-f]{1,4}$/i.test(word)) return null;
+    value = (value << 16n) | BigInt(parseInt(word, 16));
+  }
+
+  return value;
+}
+
+/**
+ * Parse an IPv4 or IPv6 address. IPv4-mapped IPv6 addresses are treated
+ * as IPv4, as required by RFC 7208 Section 5.
+ */
+export function parseIp(input: string): IpAddress | null {
+  const v4 = parseIPv4(input);
+  if (v4 !== null) return { version: 4, value: v4 };
+
+  const v6 = parseIPv6(input);
+  if (v6 === null) return null;
+
+  if (v6 >> 32n === 0xffffn) {
+    return { version: 4, value: v6 & 0xffffffffn };
+  }
+
+  return { version: 6, value: v6 };
+}
+
+/**
+ * Parse "address[/prefix]" for the given family. A missing prefix means
+ * a single host.
+ */
+export function parseCidr(input: string, version: 4 | 6): IpNetwork | null {
+  const slashIndex = input.indexOf("/");
+  const addressPart = slashIndex >= 0 ? input.slice(0, slashIndex) : input;
+  const prefixPart = slashIndex >= 0 ? input.slice(slashIndex + 1) : null;
+
+  const value = version === 4 ? parseIPv4(addressPart) : parseIPv6(addressPart);
+  if (value === null) return null;
+
+  const bits = addressBits(version);
+  let prefix = bits;
+  if (prefixPart !== null) {
+    if (!/^\d{1,3}$/.test(prefixPart)) return null;
+    prefix = Number(prefixPart);
+    if (prefix > bits) return null;
+  }
+
+  return { address: { version, value }, prefix };
+}
+
+/**
+ * Check whether an address falls within a network
+ */
+export function cidrContains(network: IpNetwork, ip: IpAddress): boolean {
+  if (network.address.version !== ip.version) return false;
+  const shift = BigInt(addressBits(ip.version) - network.prefix);
+  return network.address.value >> shift === ip.value >> shift;
+}
+
+/**
+ * Format an address in its canonical text form (RFC 5952 for IPv6)
+ */
+export function formatIp(ip: IpAddress): string {
+  if (ip.version === 4) {
+    return [24n, 16n, 8n, 0n]
+      .map((shift) => ((ip.value >> shift) & 0xffn).toString())
+      .join(".");
+  }
+
+  const words: number[] = [];
+  for (let shift = 112n; shift >= 0n; shift -= 16n) {
+    words.push(Number((ip.value >> shift) & 0xffffn));
+  }
+
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < words.length;) {
+    if (words[i] !== 0) {
+      i++;
+      continue;
+    }
+    let end = i;
+    while (end < words.length && words[end] === 0) end++;
+    if (end - i > bestLength && end - i > 1) {
+      bestStart = i;
+      bestLength = end - i;
+    }
+    i = end;
+  }
+
+  const hex = words.map((w) => w.toString(16));
+  if (bestStart < 0) return hex.join(":");
+
+  const head = hex.slice(0, bestStart).join(":");
+  const tail = hex.slice(bestStart + bestLength).join(":");
+  return `${head}::${tail}`;
+}
+
+/**
+ * Build the in-addr.arpa / ip6.arpa name used for PTR lookups
+ */
+export function reverseName(ip: IpAddress): string {
+  if (ip.version === 4) {
+    return `${formatIp(ip).split(".").reverse().join(".")}.in-addr.arpa`;
+  }
+
+  const nibbles = ip.value.toString(16).padStart(32, "0").split("");
+  return `${nibbles.reverse().join(".")}.ip6.arpa`;
+}
+
+/**
+ * Format a network as "address/prefix"
+ */
+export function formatNetwork(network: IpNetwork): string {
+  return `${formatIp(network.address)}/${network.prefix}`;
+}
+
+/**
+ * First and last address of a network, ignoring any host bits set in
+ * its address
+ */
+export function networkRange(network: IpNetwork): [bigint, bigint] {
+  const shift = BigInt(addressBits(network.address.version) - network.prefix);
+  const start = (network.address.value >> shift) << shift;
+  return [start, start + (1n << shift) - 1n];
+}
+
+/**
+ * Split an inclusive address range into the fewest CIDR blocks
+ */
+export function rangeToNetworks(
+  version: 4 | 6,
+  start: bigint,
+  end: bigint,
+): IpNetwork[] {
+  const bits = addressBits(version);
+  const networks: IpNetwork[] = [];
+
+  while (start <= end) {
+    // Grow the block while it stays aligned and inside the range
+    let prefix = bits;
+    let size = 1n;
+    while (
+      prefix > 0 && start % (size * 2n) === 0n && start + size * 2n - 1n <= end
+    ) {
+      size *= 2n;
+      prefix--;
+    }
+    networks.push({ address: { version, value: start }, prefix });
+    start += size;
+  }
+
+  return networks;
+}
+
+/**
+ * Merge networks of one address family into the fewest CIDR blocks
+ * covering exactly the same addresses
+ */
+export function mergeNetworks(networks: IpNetwork[]): IpNetwork[] {
+  if (networks.length === 0) return [];
+  const version = networks[0].address.version;
+
+  const ranges = networks.map(networkRange).sort((a, b) =>
+    a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0
+  );
+
+  const merged: Array<[bigint, bigint]> = [];
+  for (const [start, end] of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1] + 1n) {
+      if (end > last[1]) last[1] = end;
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  return merged.flatMap(([start, end]) => rangeToNetworks(version, start, end));
+}
@@ -0,0 +1,90 @@
+import { assertEquals } from "@std/assert";
+import {
+  cidrContains,
+  formatIp,
+  formatNetwork,
+  mergeNetworks,
+  parseCidr,
+  parseIp,
+  rangeToNetworks,
+  reverseName,
+} from "./ip.ts";
+
+function networks(version: 4 | 6, cidrs: string[]) {
+  return cidrs.map((cidr) => parseCidr(cidr, version)!);
+}
+
+Deno.test("parseIp reads IPv4 and IPv6 and rejects the rest", () => {
+  assertEquals(parseIp("192.0.2.1"), { version: 4, value: 0xc0000201n });
+  assertEquals(parseIp("::1"), { version: 6, value: 1n });
+  for (const bad of ["192.0.2", "192.0.2.256", "1::2::3", "x"]) {
+    assertEquals(parseIp(bad), null, bad);
+  }
+});
+
+Deno.test("parseIp treats IPv4-mapped IPv6 addresses as IPv4", () => {
+  assertEquals(parseIp("::ffff:192.0.2.1"), parseIp("192.0.2.1"));
+});
+
+Deno.test("formatIp writes the shortest IPv6 form", () => {
+  assertEquals(formatIp(parseIp("2001:0db8:0:0:0:0:0:1")!), "2001:db8::1");
+  assertEquals(formatIp(parseIp("2001:db8:0:1:0:0:0:1")!), "2001:db8:0:1::1");
+  assertEquals(
+    formatIp(parseIp("2001:db8:1:1:1:1:0:1")!),
+    "2001:db8:1:1:1:1:0:1",
+  );
+  assertEquals(formatIp(parseIp("::")!), "::");
+});
+
+Deno.test("parseCidr checks the prefix against the family", () => {
+  assertEquals(formatNetwork(parseCidr("192.0.2.0/24", 4)!), "192.0.2.0/24");
+  assertEquals(parseCidr("192.0.2.1", 4)?.prefix, 32);
+  assertEquals(parseCidr("192.0.2.0/33", 4), null);
+  assertEquals(parseCidr("2001:db8::/129", 6), null);
+  assertEquals(parseCidr("2001:db8::/32", 4), null);
+  assertEquals(parseCidr("192.0.2.0/", 4), null);
+});
+
+Deno.test("cidrContains matches within the prefix and family", () => {
+  const network = parseCidr("192.0.2.0/25", 4)!;
+
+  assertEquals(cidrContains(network, parseIp("192.0.2.127")!), true);
+  assertEquals(cidrContains(network, parseIp("192.0.2.128")!), false);
+  assertEquals(cidrContains(network, parseIp("2001:db8::1")!), false);
+  assertEquals(
+    cidrContains(parseCidr("0.0.0.0/0", 4)!, parseIp("203.0.113.9")!),
+    true,
+  );
+});
+
+Deno.test("reverseName builds in-addr.arpa and ip6.arpa names", () => {
+  assertEquals(reverseName(parseIp("192.0.2.1")!), "1.2.0.192.in-addr.arpa");
+  assertEquals(
+    reverseName(parseIp("2001:db8::1")!),
+    "1.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2.ip6.arpa",
+  );
+});
+
+Deno.test("rangeToNetworks splits a range into aligned blocks", () => {
+  assertEquals(
+    rangeToNetworks(4, 0xc0000201n, 0xc0000206n).map(formatNetwork),
+    ["192.0.2.1/32", "192.0.2.2/31", "192.0.2.4/31", "192.0.2.6/32"],
+  );
+});
+
+Deno.test("mergeNetworks joins overlapping and adjacent blocks", () => {
+  assertEquals(
+    mergeNetworks(networks(4, [
+      "192.0.2.128/25",
+      "192.0.2.0/25",
+      "192.0.2.10/32",
+      "198.51.100.0/24",
+    ])).map(formatNetwork),
+    ["192.0.2.0/24", "198.51.100.0/24"],
+  );
+  assertEquals(
+    mergeNetworks(networks(6, ["2001:db8::/33", "2001:db8:8000::/33"]))
+      .map(formatNetwork),
+    ["2001:db8::/32"],
+  );
+});
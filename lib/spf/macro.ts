@@ -0,0 +1,248 @@
+/**
+ * SPF Macro Module
+ *
+ * Validates and expands macro-strings (RFC 7208 Section 7), such as the
+ * "%{i}._spf.%{d}" domain-spec of an exists: term. Expansion needs the
+ * evaluation context (client IP, sender, HELO), so records containing
+ * macros can only be validated, not resolved, ahead of time.
+ */
+
+import { formatIp, type IpAddress } from "./ip.ts";
+
+export interface MacroContext {
+  /** Client IP address */
+  ip: IpAddress;
+  /** Full sender address (MAIL FROM, or "postmaster@<helo>") */
+  sender: string;
+  /** Domain whose record is currently being evaluated */
+  domain: string;
+  /** HELO/EHLO identity */
+  helo: string;
+  /** Validated domain name of the client, for %{p} */
+  validatedDomain?: string;
+  /** Domain of the receiving MTA, for %{r} */
+  receiver?: string;
+  /** Unix timestamp in seconds, for %{t} */
+  timestamp?: number;
+}
+
+export interface MacroOptions {
+  /** Allow the c, r and t letters, which are only valid in exp= text */
+  explanation?: boolean;
+}
+
+/**
+ * Error raised for a malformed macro-string
+ */
+export class MacroError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MacroError";
+  }
+}
+
+interface MacroToken {
+  literal?: string;
+  letter?: string;
+  digits?: number;
+  reverse?: boolean;
+  delimiters?: string;
+}
+
+const MACRO_LETTERS = "slodiphv";
+const EXPLANATION_LETTERS = "crt";
+const MACRO_DELIMITERS = ".-+,/_=";
+const MAX_DOMAIN_LENGTH = 253;
+
+function tokenize(input: string, options: MacroOptions): MacroToken[] {
+  const tokens: MacroToken[] = [];
+  let literal = "";
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+    if (char !== "%") {
+      literal += char;
+      i++;
+      continue;
+    }
+
+    const next = input[i + 1];
+    if (next === "%") {
+      literal += "%";
+      i += 2;
+      continue;
+    }
+    if (next === "_") {
+      literal += " ";
+      i += 2;
+      continue;
+    }
+    if (next === "-") {
+      literal += "%20";
+      i += 2;
+      continue;
+    }
+    if (next !== "{") {
+      throw new MacroError(
+        next === undefined
+          ? `Macro-string ends with a lone "%"`
+          : `Invalid macro escape "%${next}" (use "%%" for a literal "%")`,
+      );
+    }
+
+    const end = input.indexOf("}", i);
+    if (end < 0) {
+      throw new MacroError(`Unterminated macro "${input.slice(i)}"`);
+    }
+
+    const body = input.slice(i + 2, end);
+    const match = body.match(/^([a-zA-Z])(\d*)(r?)(.*)$/i);
+    if (!match) {
+      throw new MacroError(
+        body ? `Invalid macro "%{${body}}"` : `Empty macro "%{}"`,
+      );
+    }
+
+    const [, letter, digits, reverse, delimiters] = match;
+    const lower = letter.toLowerCase();
+    if (
+      !MACRO_LETTERS.includes(lower) &&
+      !(options.explanation && EXPLANATION_LETTERS.includes(lower))
+    ) {
+      throw new MacroError(
+        EXPLANATION_LETTERS.includes(lower)
+          ? `Macro letter "${letter}" is only allowed in exp= explanations`
+          : `Unknown macro letter "${letter}" in "%{${body}}"`,
+      );
+    }
+    if (digits && Number(digits) === 0) {
+      throw new MacroError(`Macro transformer digits must be non-zero`);
+    }
+    for (const delimiter of delimiters) {
+      if (!MACRO_DELIMITERS.includes(delimiter)) {
+        throw new MacroError(
+          `Invalid macro delimiter "${delimiter}" in "%{${body}}"`,
+        );
+      }
+    }
+
+    if (literal) {
+      tokens.push({ literal });
+      literal = "";
+    }
+    tokens.push({
+      letter,
+      digits: digits ? Number(digits) : undefined,
+      reverse: reverse !== "",
+      delimiters: delimiters || ".",
+    });
+    i = end + 1;
+  }
+
+  if (literal) tokens.push({ literal });
+  return tokens;
+}
+
+/**
+ * Check whether a value contains macros that need evaluation context.
+ * The %%, %_ and %- escapes expand without context and don't count.
+ */
+export function hasMacros(value: string): boolean {
+  return value.includes("%{");
+}
+
+/**
+ * Validate macro-string syntax, returning an error message or null
+ */
+export function validateMacroString(
+  input: string,
+  options: MacroOptions = {},
+): string | null {
+  try {
+    tokenize(input, options);
+    return null;
+  } catch (err) {
+    if (err instanceof MacroError) return err.message;
+    throw err;
+  }
+}
+
+function macroValue(letter: string, ctx: MacroContext): string {
+  const atIndex = ctx.sender.lastIndexOf("@");
+  const localPart = atIndex >= 0 ? ctx.sender.slice(0, atIndex) : "";
+
+  switch (letter) {
+    case "s":
+      return ctx.sender;
+    case "l":
+      return localPart || "postmaster";
+    case "o":
+      return atIndex >= 0 ? ctx.sender.slice(atIndex + 1) : ctx.sender;
+    case "d":
+      return ctx.domain;
+    case "i":
+      return ctx.ip.version === 4
+        ? formatIp(ctx.ip)
+        : ctx.ip.value.toString(16).padStart(32, "0").split("").join(".");
+    case "p":
+      return ctx.validatedDomain || "unknown";
+    case "v":
+      return ctx.ip.version === 4 ? "in-addr" : "ip6";
+    case "h":
+      return ctx.helo;
+    case "c":
+      return formatIp(ctx.ip);
+    case "r":
+      return ctx.receiver || "unknown";
+    case "t":
+      return String(ctx.timestamp ?? Math.floor(Date.now() / 1000));
+    default:
+      return "";
+  }
+}
+
+function transform(value: string, token: MacroToken): string {
+  const pattern = new RegExp(
+    `[${token.delimiters!.replace(/[-\\\]/]/g, "\\$&")}]`,
+  );
+  let parts = value.split(pattern);
+  if (token.reverse) parts = parts.reverse();
+  if (token.digits !== undefined && token.digits < parts.length) {
+    parts = parts.slice(parts.length - token.digits);
+  }
+  return parts.join(".");
+}
+
+/**
+ * Expand a macro-string. Uppercase macro letters are URL-encoded
+ * (RFC 7208 Section 7.3). Throws MacroError on invalid syntax.
+ */
+export function expandMacros(
+  input: string,
+  ctx: MacroContext,
+  options: MacroOptions = {},
+): string {
+  return tokenize(input, options)
+    .map((token) => {
+      if (token.literal !== undefined) return token.literal;
+      const letter = token.letter!;
+      const expanded = transform(macroValue(letter.toLowerCase(), ctx), token);
+      return letter === letter.toUpperCase()
+        ? encodeURIComponent(expanded)
+        : expanded;
+    })
+    .join("");
+}
+
+/**
+ * Expand a domain-spec, dropping leading labels until the result fits in
+ * 253 characters (RFC 7208 Section 7.3)
+ */
+export function expandDomainSpec(input: string, ctx: MacroContext): string {
+  let domain = expandMacros(input, ctx).replace(/\.$/, "");
+  while (domain.length > MAX_DOMAIN_LENGTH && domain.includes(".")) {
+    domain = domain.slice(domain.indexOf(".") + 1);
+  }
+  return domain;
+}
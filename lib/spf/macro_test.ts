@@ -0,0 +1,131 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { parseIp } from "./ip.ts";
+import {
+  expandDomainSpec,
+  expandMacros,
+  hasMacros,
+  type MacroContext,
+  MacroError,
+  validateMacroString,
+} from "./macro.ts";
+
+// The context of the examples in RFC 7208 Section 7.4
+const context: MacroContext = {
+  ip: parseIp("192.0.2.3")!,
+  sender: "strong-bad@email.example.com",
+  domain: "email.example.com",
+  helo: "mx.example.org",
+};
+
+Deno.test("expandMacros gives the RFC 7208 Section 7.4 results", () => {
+  const examples: Record<string, string> = {
+    "%{s}": "strong-bad@email.example.com",
+    "%{o}": "email.example.com",
+    "%{d}": "email.example.com",
+    "%{d4}": "email.example.com",
+    "%{d3}": "email.example.com",
+    "%{d2}": "example.com",
+    "%{d1}": "com",
+    "%{dr}": "com.example.email",
+    "%{d2r}": "example.email",
+    "%{l}": "strong-bad",
+    "%{l-}": "strong.bad",
+    "%{lr}": "strong-bad",
+    "%{lr-}": "bad.strong",
+    "%{l1r-}": "strong",
+    "%{ir}.%{v}._spf.%{d2}": "3.2.0.192.in-addr._spf.example.com",
+    "%{lr-}.lp._spf.%{d2}": "bad.strong.lp._spf.example.com",
+    "%{lr-}.lp.%{ir}.%{v}._spf.%{d2}":
+      "bad.strong.lp.3.2.0.192.in-addr._spf.example.com",
+    "%{ir}.%{v}.%{l1r-}.lp._spf.%{d2}":
+      "3.2.0.192.in-addr.strong.lp._spf.example.com",
+    "%{d2}.trusted-domains.example.net":
+      "example.com.trusted-domains.example.net",
+  };
+
+  for (const [macro, expected] of Object.entries(examples)) {
+    assertEquals(expandMacros(macro, context), expected, macro);
+  }
+});
+
+Deno.test("expandMacros gives the RFC 7208 Section 7.4 IPv6 result", () => {
+  assertEquals(
+    expandMacros("%{ir}.%{v}._spf.%{d2}", {
+      ...context,
+      ip: parseIp("2001:db8::cb01")!,
+    }),
+    "1.0.b.c.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2.ip6._spf.example.com",
+  );
+});
+
+Deno.test("expandMacros URL-encodes uppercase letters and expands escapes", () => {
+  const ctx = { ...context, sender: "a b@example.com" };
+
+  assertEquals(expandMacros("%{L}", ctx), "a%20b");
+  assertEquals(expandMacros("%{l}", ctx), "a b");
+  assertEquals(expandMacros("100%%%_%-", ctx), "100% %20");
+});
+
+Deno.test("expandMacros uses postmaster for a sender without a local part", () => {
+  assertEquals(
+    expandMacros("%{l}", { ...context, sender: "email.example.com" }),
+    "postmaster",
+  );
+});
+
+Deno.test("expandMacros only allows c, r and t in explanations", () => {
+  assertThrows(() => expandMacros("%{c}", context), MacroError);
+  assertEquals(
+    expandMacros("%{c} via %{r} at %{t}", {
+      ...context,
+      receiver: "mx.example.net",
+      timestamp: 1700000000,
+    }, { explanation: true }),
+    "192.0.2.3 via mx.example.net at 1700000000",
+  );
+});
+
+Deno.test("validateMacroString reports malformed macros", () => {
+  assertEquals(validateMacroString("%{ir}.%{v}._spf.%{d2}"), null);
+  assertEquals(
+    validateMacroString("%{x}"),
+    'Unknown macro letter "x" in "%{x}"',
+  );
+  assertEquals(
+    validateMacroString("%{d0}"),
+    "Macro transformer digits must be non-zero",
+  );
+  assertEquals(
+    validateMacroString("%{d"),
+    'Unterminated macro "%{d"',
+  );
+  assertEquals(
+    validateMacroString("50%"),
+    'Macro-string ends with a lone "%"',
+  );
+  assertEquals(
+    validateMacroString("%a"),
+    'Invalid macro escape "%a" (use "%%" for a literal "%")',
+  );
+  assertEquals(
+    validateMacroString("%{d!}"),
+    'Invalid macro delimiter "!" in "%{d!}"',
+  );
+});
+
+Deno.test("hasMacros ignores escapes that need no context", () => {
+  assert(hasMacros("%{i}._spf.example.com"));
+  assert(!hasMacros("100%%.example.com"));
+});
+
+Deno.test("expandDomainSpec drops leading labels to fit 253 characters", () => {
+  const local = Array.from({ length: 60 }, () => "abcd").join(".");
+  const domain = expandDomainSpec("%{l}.example.com.", {
+    ...context,
+    sender: `${local}@example.com`,
+  });
+
+  assert(domain.length <= 253);
+  assert(domain.endsWith("abcd.example.com"));
+  assert(!domain.startsWith("."));
+});
@@ -0,0 +1,119 @@
+/**
+ * SPF record parsing, validation, expansion and evaluation (RFC 7208).
+ *
+ * Nothing here queries DNS directly: lookups go through an injected
+ * {@linkcode SpfResolver}, so the same engine runs over DNS-over-HTTPS,
+ * behind a cache or against fixed records in tests.
+ *
+ * ```ts
+ * import { checkSpf, evaluateSpf, parseSpfRecord } from "./mod.ts";
+ *
+ * const { mechanisms, issues } = parseSpfRecord("v=spf1 mx -all");
+ *
+ * const result = await checkSpf("example.com", { resolver });
+ * console.log(result.lookupCount, result.issues);
+ *
+ * const evaluation = await evaluateSpf({
+ *   ip: "192.0.2.1",
+ *   sender: "user@example.com",
+ *   resolver,
+ * });
+ * console.log(evaluation.result); // "pass", "fail", "softfail", ...
+ * ```
+ *
+ * @module
+ */
+
+export type {
+  SpfCacheStatus,
+  SpfLookupCost,
+  SpfMechanism,
+  SpfProgressEvent,
+  SpfProviderMatch,
+  SpfRecordCandidate,
+  SpfRecordSelection,
+  SpfResolution,
+  SpfResult,
+  SpfValidationIssue,
+} from "./types.ts";
+export {
+  LOOKUP_MECHANISMS,
+  MAX_DNS_LOOKUPS,
+  MAX_NAME_LOOKUPS,
+  MAX_VOID_LOOKUPS,
+} from "./types.ts";
+
+export type {
+  MxRecord,
+  SpfDnsAnswer,
+  SpfDnsResponse,
+  SpfRecordType,
+  SpfResolver,
+} from "./resolver.ts";
+export { DnsError, isNxDomain } from "./resolver.ts";
+
+export type { ParsedSpfTerms, SpfSyntaxError, SpfTerm } from "./parser.ts";
+export {
+  parseSpfTerms,
+  SPF_MECHANISMS,
+  SPF_MODIFIERS,
+  validateDomainSpec,
+} from "./parser.ts";
+
+export type { DomainCidr, FetchSpfResult } from "./record.ts";
+export {
+  estimateTxtResponseSize,
+  fetchSpfRecord,
+  formatMechanism,
+  parseDomainCidr,
+  parseSpfRecord,
+  selectSpfRecord,
+  splitTxtStrings,
+} from "./record.ts";
+
+export type { CheckSpfOptions } from "./expand.ts";
+export { checkSpf } from "./expand.ts";
+
+export type {
+  EvaluateOptions,
+  SpfEvaluation,
+  SpfEvaluationMatch,
+  SpfEvaluationResult,
+} from "./evaluate.ts";
+export { evaluateSpf } from "./evaluate.ts";
+
+export type { SimulateSpfOptions, SpfSimulationChanges } from "./simulate.ts";
+export { cachedResolver, simulateSpf } from "./simulate.ts";
+
+export type { SpfProvider } from "./providers.ts";
+export {
+  annotateProviders,
+  findProvider,
+  findProviderByNetwork,
+  SPF_PROVIDERS,
+} from "./providers.ts";
+
+export type { MacroContext, MacroOptions } from "./macro.ts";
+export {
+  expandDomainSpec,
+  expandMacros,
+  hasMacros,
+  MacroError,
+  validateMacroString,
+} from "./macro.ts";
+
+export type { IpAddress, IpNetwork } from "./ip.ts";
+export {
+  addressBits,
+  cidrContains,
+  formatIp,
+  formatNetwork,
+  mergeNetworks,
+  networkRange,
+  parseCidr,
+  parseIp,
+  parseIPv4,
+  parseIPv6,
+  rangeToNetworks,
+  reverseName,
+} from "./ip.ts";
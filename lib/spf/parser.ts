@@ -0,0 +1,298 @@
+/**
+ * SPF Record Parser
+ *
+ * Tokenizes a record following the RFC 7208 Section 12 ABNF. Every term
+ * keeps its character offsets in the record so syntax errors can point
+ * at the exact span, and mechanisms are told apart from modifiers by
+ * their name syntax rather than guessed from the first separator.
+ */
+
+import { parseIPv4, parseIPv6 } from "./ip.ts";
+import { validateMacroString } from "./macro.ts";
+
+export const SPF_MECHANISMS = [
+  "all",
+  "include",
+  "a",
+  "mx",
+  "ptr",
+  "ip4",
+  "ip6",
+  "exists",
+];
+
+export const SPF_MODIFIERS = ["redirect", "exp"];
+
+export interface SpfTerm {
+  kind: "mechanism" | "modifier";
+  /** Lowercased mechanism or modifier name */
+  name: string;
+  /** "+", "-", "~" or "?"; "+" when omitted and for modifiers */
+  qualifier: string;
+  /**
+   * Everything after the name and its ":" or "=" separator; a/mx values
+   * keep a leading "/" when only CIDR lengths follow the name
+   */
+  value: string;
+  /** Offset of the first character of the term in the record */
+  start: number;
+  /** Offset just past the last character of the term */
+  end: number;
+  /** Syntax error, if the term doesn't match the ABNF */
+  error?: string;
+}
+
+export interface SpfSyntaxError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedSpfTerms {
+  /** Whether the record starts with a valid "v=spf1" version term */
+  valid: boolean;
+  terms: SpfTerm[];
+  errors: SpfSyntaxError[];
+}
+
+const NAME = /^[a-z][a-z0-9\-_.]*/i;
+const QNUM = /^(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]\d|\d)$/;
+const TOPLABEL = /^(?:[a-z0-9]*[a-z][a-z0-9]*|[a-z0-9]+-[a-z0-9-]*[a-z0-9])$/i;
+
+function cidrLength(digits: string, max: number): string | null {
+  if (!/^(?:0|[1-9]\d*)$/.test(digits)) {
+    return `Invalid CIDR length "/${digits}"`;
+  }
+  if (Number(digits) > max) {
+    return `CIDR length /${digits} exceeds /${max}`;
+  }
+  return null;
+}
+
+/**
+ * Check a domain-spec (RFC 7208 Section 7.1), returning an error or null
+ */
+export function validateDomainSpec(spec: string): string | null {
+  if (!spec) return "Missing domain-spec";
+  if (/[^\x21-\x7e]/.test(spec)) {
+    return `Invalid character in domain-spec "${spec}"`;
+  }
+
+  const macroError = validateMacroString(spec);
+  if (macroError) return macroError;
+
+  // domain-end: either a macro-expand or "." toplabel ["."]
+  if (/(?:%\{[^}]*\}|%[%_-])$/.test(spec)) return null;
+
+  const name = spec.replace(/\.$/, "");
+  const dot = name.lastIndexOf(".");
+  if (dot < 0) {
+    return `"${spec}" is not a fully qualified domain name`;
+  }
+  if (!TOPLABEL.test(name.slice(dot + 1))) {
+    return `Invalid top-level label in "${spec}"`;
+  }
+  if (!name.includes("%")) {
+    const labels = name.split(".");
+    if (labels.some((label) => label.length === 0)) {
+      return `Empty label in "${spec}"`;
+    }
+    if (labels.some((label) => label.length > 63)) {
+      return `Label longer than 63 characters in "${spec}"`;
+    }
+    if (name.length > 253) {
+      return `Domain name longer than 253 characters`;
+    }
+  }
+  return null;
+}
+
+function validateIp4(value: string): string | null {
+  const [address, prefix, ...rest] = value.split("/");
+  if (rest.length > 0) return `Invalid ip4 network "${value}"`;
+  if (
+    parseIPv4(address) === null ||
+    !address.split(".").every((part) => QNUM.test(part))
+  ) {
+    return `Invalid IPv4 address "${address}"`;
+  }
+  return prefix === undefined ? null : cidrLength(prefix, 32);
+}
+
+function validateIp6(value: string): string | null {
+  const [address, prefix, ...rest] = value.split("/");
+  if (rest.length > 0) return `Invalid ip6 network "${value}"`;
+  if (parseIPv6(address) === null) {
+    return `Invalid IPv6 address "${address}"`;
+  }
+  return prefix === undefined ? null : cidrLength(prefix, 128);
+}
+
+/**
+ * Validate "[:domain-spec][dual-cidr-length]" after a or mx
+ */
+function validateDomainCidr(name: string, value: string): string | null {
+  const match = value.match(/^([^/]*)((?:\/[^/]*)?)((?:\/\/.*)?)$/);
+  if (!match) return `Invalid dual-cidr-length in "${name}${value}"`;
+
+  const [, spec, cidr4, cidr6] = match;
+  if (spec) {
+    const specError = validateDomainSpec(spec);
+    if (specError) return specError;
+  }
+  if (cidr4) {
+    const error = cidrLength(cidr4.slice(1), 32);
+    if (error) return error;
+  }
+  if (cidr6) {
+    const error = cidrLength(cidr6.slice(2), 128);
+    if (error) return error;
+  }
+  return null;
+}
+
+function parseTerm(text: string, start: number): SpfTerm {
+  const end = start + text.length;
+  let qualifier = "+";
+  let body = text;
+  if (/^[+\-~?]/.test(body)) {
+    qualifier = body[0];
+    body = body.slice(1);
+  }
+
+  const nameMatch = body.match(NAME);
+  const name = nameMatch ? nameMatch[0].toLowerCase() : "";
+  const rest = body.slice(name.length);
+
+  if (!name) {
+    return {
+      kind: "mechanism",
+      name: body.toLowerCase(),
+      qualifier,
+      value: "",
+      start,
+      end,
+      error: `Invalid term "${text}"`,
+    };
+  }
+
+  if (rest.startsWith("=")) {
+    const value = rest.slice(1);
+    const term: SpfTerm = {
+      kind: "modifier",
+      name,
+      qualifier: "+",
+      value,
+      start,
+      end,
+    };
+    if (body !== text) {
+      term.error = `Modifier "${name}" can't have a qualifier`;
+    } else if (name === "redirect" || name === "exp") {
+      const error = validateDomainSpec(value);
+      if (error) term.error = `Invalid ${name}=: ${error}`;
+    } else {
+      const error = validateMacroString(value);
+      if (error) term.error = `Invalid ${name}=: ${error}`;
+    }
+    return term;
+  }
+
+  // Mechanisms keep "/" in the value for "a/24"-style terms
+  const value = rest.startsWith(":") ? rest.slice(1) : rest;
+  const term: SpfTerm = {
+    kind: "mechanism",
+    name,
+    qualifier,
+    value,
+    start,
+    end,
+  };
+
+  if (!SPF_MECHANISMS.includes(name)) {
+    term.error = `Unknown mechanism "${name}"`;
+    return term;
+  }
+
+  if (rest && !rest.startsWith(":") && !rest.startsWith("/")) {
+    term.error = `Invalid term "${text}"`;
+    return term;
+  }
+
+  const requiresValue = ["include", "exists", "ip4", "ip6"].includes(name);
+  if (rest.startsWith("/") && name !== "a" && name !== "mx") {
+    term.error = `"${name}" doesn't take a CIDR length here`;
+  } else if (requiresValue && !rest.startsWith(":")) {
+    term.error = `"${name}" requires a value`;
+  } else if (name === "all" && rest) {
+    term.error = `"all" doesn't take a value`;
+  } else {
+    let error: string | null = null;
+    switch (name) {
+      case "include":
+      case "exists":
+        error = validateDomainSpec(value);
+        break;
+      case "ptr":
+        error = rest ? validateDomainSpec(value) : null;
+        break;
+      case "a":
+      case "mx":
+        error = rest.startsWith(":") && !value.split("/")[0]
+          ? "Missing domain-spec"
+          : validateDomainCidr(name, value);
+        break;
+      case "ip4":
+        error = validateIp4(value);
+        break;
+      case "ip6":
+        error = validateIp6(value);
+        break;
+    }
+    if (error) term.error = `Invalid ${name}: ${error}`;
+  }
+
+  return term;
+}
+
+/**
+ * Split a record into terms with their offsets and syntax errors
+ */
+export function parseSpfTerms(record: string): ParsedSpfTerms {
+  const terms: SpfTerm[] = [];
+  const errors: SpfSyntaxError[] = [];
+
+  const tokens = [...record.matchAll(/\S+/g)];
+  const version = tokens[0];
+  if (!version || version[0].toLowerCase() !== "v=spf1") {
+    const start = version?.index ?? 0;
+    const end = version ? start + version[0].length : 0;
+    errors.push({
+      message: `Invalid version: expected "v=spf1", got "${
+        version?.[0] ?? ""
+      }"`,
+      start,
+      end,
+    });
+    return { valid: false, terms, errors };
+  }
+
+  const badSpace = record.match(/[^\S ]/);
+  if (badSpace && badSpace.index! > version.index!) {
+    errors.push({
+      message: "Terms must be separated by spaces only",
+      start: badSpace.index!,
+      end: badSpace.index! + 1,
+    });
+  }
+
+  for (const token of tokens.slice(1)) {
+    const term = parseTerm(token[0], token.index!);
+    terms.push(term);
+    if (term.error) {
+      errors.push({ message: term.error, start: term.start, end: term.end });
+    }
+  }
+
+  return { valid: true, terms, errors };
+}
@@ -0,0 +1,134 @@
+import { assert, assertEquals } from "@std/assert";
+import { parseSpfTerms, validateDomainSpec } from "./parser.ts";
+
+function errorsOf(record: string): string[] {
+  return parseSpfTerms(record).errors.map((error) => error.message);
+}
+
+Deno.test("parseSpfTerms keeps each term's offsets in the record", () => {
+  const record = "v=spf1  -ip4:192.0.2.0/24 include:_spf.example.com ~all";
+  const { valid, terms, errors } = parseSpfTerms(record);
+  assert(valid);
+  assertEquals(errors, []);
+  assertEquals(
+    terms.map((term) => record.slice(term.start, term.end)),
+    ["-ip4:192.0.2.0/24", "include:_spf.example.com", "~all"],
+  );
+  assertEquals(terms.map((term) => [term.qualifier, term.name, term.value]), [
+    ["-", "ip4", "192.0.2.0/24"],
+    ["+", "include", "_spf.example.com"],
+    ["~", "all", ""],
+  ]);
+});
+
+Deno.test("parseSpfTerms tells modifiers from mechanisms by name syntax", () => {
+  const { terms, errors } = parseSpfTerms(
+    "v=spf1 a/24//64 mx:mail.example.com/28 redirect=_spf.example.com " +
+      "Exp=explain.%{d} x-custom=anything",
+  );
+  assertEquals(errors, []);
+  assertEquals(terms.map((term) => [term.kind, term.name, term.value]), [
+    ["mechanism", "a", "/24//64"],
+    ["mechanism", "mx", "mail.example.com/28"],
+    ["modifier", "redirect", "_spf.example.com"],
+    ["modifier", "exp", "explain.%{d}"],
+    ["modifier", "x-custom", "anything"],
+  ]);
+});
+
+Deno.test("parseSpfTerms rejects a missing or wrong version", () => {
+  assertEquals(parseSpfTerms("").valid, false);
+  const parsed = parseSpfTerms("  v=spf10 -all");
+  assertEquals(parsed.valid, false);
+  assertEquals(parsed.terms, []);
+  assertEquals(parsed.errors, [{
+    message: 'Invalid version: expected "v=spf1", got "v=spf10"',
+    start: 2,
+    end: 9,
+  }]);
+  assert(parseSpfTerms("V=SPF1 -all").valid);
+});
+
+Deno.test("parseSpfTerms only allows spaces between terms", () => {
+  const parsed = parseSpfTerms("v=spf1 a\tmx -all");
+  assertEquals(parsed.errors, [{
+    message: "Terms must be separated by spaces only",
+    start: 8,
+    end: 9,
+  }]);
+});
+
+Deno.test("parseSpfTerms reports term errors at the term's span", () => {
+  const record = "v=spf1 foo:bar ip4:192.0.2.0/33 -all";
+  const { valid, errors } = parseSpfTerms(record);
+  assert(valid);
+  assertEquals(
+    errors.map((
+      error,
+    ) => [error.message, record.slice(error.start, error.end)]),
+    [
+      ['Unknown mechanism "foo"', "foo:bar"],
+      ["Invalid ip4: CIDR length /33 exceeds /32", "ip4:192.0.2.0/33"],
+    ],
+  );
+});
+
+Deno.test("parseSpfTerms checks mechanism arguments", () => {
+  const cases: Record<string, string> = {
+    "include": '"include" requires a value',
+    "all:example.com": '"all" doesn\'t take a value',
+    "ptr/24": '"ptr" doesn\'t take a CIDR length here',
+    "a:": "Invalid a: Missing domain-spec",
+    "a/x": 'Invalid a: Invalid CIDR length "/x"',
+    "mx//129": "Invalid mx: CIDR length /129 exceeds /128",
+    "ip4:192.0.2.256": 'Invalid ip4: Invalid IPv4 address "192.0.2.256"',
+    "ip6:2001:db8::g": 'Invalid ip6: Invalid IPv6 address "2001:db8::g"',
+    "exists:localhost": 'Invalid exists: "localhost" is not a fully ' +
+      "qualified domain name",
+    "1abc": 'Invalid term "1abc"',
+    "-redirect=example.com": 'Modifier "redirect" can\'t have a qualifier',
+  };
+  for (const [term, message] of Object.entries(cases)) {
+    assertEquals(errorsOf(`v=spf1 ${term}`), [message], term);
+  }
+});
+
+Deno.test("validateDomainSpec accepts macros and fully qualified names", () => {
+  for (
+    const spec of [
+      "example.com",
+      "example.com.",
+      "_spf.example.com",
+      "%{ir}.%{v}._spf.%{d2}",
+      "%{d}",
+      "exists.%{l}.example.com",
+    ]
+  ) {
+    assertEquals(validateDomainSpec(spec), null, spec);
+  }
+});
+
+Deno.test("validateDomainSpec explains what is wrong", () => {
+  assertEquals(validateDomainSpec(""), "Missing domain-spec");
+  assertEquals(
+    validateDomainSpec("exa mple.com"),
+    'Invalid character in domain-spec "exa mple.com"',
+  );
+  assertEquals(
+    validateDomainSpec("example"),
+    '"example" is not a fully qualified domain name',
+  );
+  assertEquals(
+    validateDomainSpec("example.123"),
+    'Invalid top-level label in "example.123"',
+  );
+  assertEquals(
+    validateDomainSpec("a..example.com"),
+    'Empty label in "a..example.com"',
+  );
+  assertEquals(
+    validateDomainSpec(`${"a".repeat(64)}.example.com`),
+    `Label longer than 63 characters in "${"a".repeat(64)}.example.com"`,
+  );
+  assert(validateDomainSpec("%{z}.example.com") !== null);
+});
@@ -0,0 +1,376 @@
+/**
+ * Mail Provider Catalog
+ *
+ * Well-known senders, the include each one documents for SPF and the
+ * other names and address ranges its mail comes from, so expanded trees
+ * can say whose include a term is. Providers change their records, so
+ * lookup costs and ranges are snapshots of what they publish; a lookup
+ * gives the real count.
+ */
+
+import { formatMechanism } from "./record.ts";
+import { cidrContains, type IpNetwork, parseCidr } from "./ip.ts";
+import type {
+  SpfMechanism,
+  SpfProviderMatch,
+  SpfResult,
+  SpfValidationIssue,
+} from "./types.ts";
+
+export interface SpfProvider {
+  id: string;
+  name: string;
+  /** What the provider sends, e.g. "Mailboxes" or "Marketing email" */
+  purpose: string;
+  /** Domain the provider asks customers to include */
+  include: string;
+  /** DNS lookups the include costs, counting the include itself */
+  lookups: number;
+  /** Other current includes of the provider, e.g. ones its include pulls in */
+  aliases?: string[];
+  /** Includes the provider has retired in favour of the documented one */
+  deprecated?: string[];
+  /** Address ranges the provider's include authorizes */
+  ranges?: string[];
+}
+
+export const SPF_PROVIDERS: SpfProvider[] = [
+  {
+    id: "google",
+    name: "Google Workspace",
+    purpose: "Mailboxes",
+    include: "_spf.google.com",
+    lookups: 4,
+    aliases: [
+      "_netblocks.google.com",
+      "_netblocks2.google.com",
+      "_netblocks3.google.com",
+    ],
+    deprecated: ["aspmx.googlemail.com"],
+    ranges: [
+      "35.190.247.0/24",
+      "64.233.160.0/19",
+      "66.102.0.0/20",
+      "66.249.80.0/20",
+      "72.14.192.0/18",
+      "74.125.0.0/16",
+      "108.177.8.0/21",
+      "173.194.0.0/16",
+      "209.85.128.0/17",
+      "216.58.192.0/19",
+      "216.239.32.0/19",
+    ],
+  },
+  {
+    id: "microsoft",
+    name: "Microsoft 365",
+    purpose: "Mailboxes",
+    include: "spf.protection.outlook.com",
+    lookups: 2,
+    deprecated: ["spf.messaging.microsoft.com"],
+    ranges: [
+      "40.92.0.0/15",
+      "40.107.0.0/16",
+      "52.100.0.0/14",
+      "104.47.0.0/17",
+      "2a01:111:f400::/48",
+      "2a01:111:f403::/49",
+    ],
+  },
+  {
+    id: "amazon-ses",
+    name: "Amazon SES",
+    purpose: "Transactional and bulk email",
+    include: "amazonses.com",
+    lookups: 1,
+    ranges: [
+      "23.249.208.0/20",
+      "23.251.224.0/19",
+      "54.240.0.0/18",
+      "69.169.224.0/20",
+      "76.223.176.0/20",
+      "199.127.232.0/22",
+      "199.255.192.0/22",
+    ],
+  },
+  {
+    id: "mailchimp",
+    name: "Mailchimp",
+    purpose: "Marketing email",
+    include: "servers.mcsv.net",
+    lookups: 1,
+    ranges: ["148.105.8.0/21", "198.2.128.0/18", "205.201.128.0/20"],
+  },
+  {
+    id: "mandrill",
+    name: "Mailchimp Transactional",
+    purpose: "Transactional email",
+    include: "spf.mandrillapp.com",
+    lookups: 1,
+  },
+  {
+    id: "sendgrid",
+    name: "SendGrid",
+    purpose: "Transactional and marketing email",
+    include: "sendgrid.net",
+    lookups: 2,
+    ranges: [
+      "149.72.0.0/16",
+      "159.183.0.0/16",
+      "167.89.0.0/17",
+      "168.245.0.0/17",
+      "198.37.144.0/20",
+      "208.117.48.0/20",
+    ],
+  },
+  {
+    id: "mailgun",
+    name: "Mailgun",
+    purpose: "Transactional email",
+    include: "mailgun.org",
+    lookups: 3,
+  },
+  {
+    id: "postmark",
+    name: "Postmark",
+    purpose: "Transactional email",
+    include: "spf.mtasv.net",
+    lookups: 1,
+  },
+  {
+    id: "sparkpost",
+    name: "SparkPost",
+    purpose: "Transactional and marketing email",
+    include: "sparkpostmail.com",
+    lookups: 1,
+  },
+  {
+    id: "mailjet",
+    name: "Mailjet",
+    purpose: "Transactional and marketing email",
+    include: "spf.mailjet.com",
+    lookups: 1,
+  },
+  {
+    id: "brevo",
+    name: "Brevo",
+    purpose: "Marketing email",
+    include: "spf.brevo.com",
+    lookups: 1,
+    deprecated: ["spf.sendinblue.com"],
+  },
+  {
+    id: "salesforce",
+    name: "Salesforce",
+    purpose: "CRM email",
+    include: "_spf.salesforce.com",
+    lookups: 1,
+  },
+  {
+    id: "zendesk",
+    name: "Zendesk",
+    purpose: "Support tickets",
+    include: "mail.zendesk.com",
+    lookups: 1,
+    deprecated: ["smtp.zendesk.com"],
+  },
+  {
+    id: "proton",
+    name: "Proton Mail",
+    purpose: "Mailboxes",
+    include: "_spf.protonmail.ch",
+    lookups: 1,
+  },
+  {
+    id: "fastmail",
+    name: "Fastmail",
+    purpose: "Mailboxes",
+    include: "spf.messagingengine.com",
+    lookups: 1,
+  },
+];
+
+function toMatch(
+  provider: SpfProvider,
+  match: SpfProviderMatch["match"],
+): SpfProviderMatch {
+  return {
+    id: provider.id,
+    name: provider.name,
+    purpose: provider.purpose,
+    include: provider.include,
+    lookups: provider.lookups,
+    match,
+  };
+}
+
+/**
+ * The provider an include domain belongs to, if any, and whether it's
+ * the documented include, another current name or a retired one
+ */
+export function findProvider(
+  include: string,
+  providers: SpfProvider[] = SPF_PROVIDERS,
+): SpfProviderMatch | undefined {
+  const domain = include.toLowerCase().replace(/\.$/, "");
+  for (const provider of providers) {
+    if (provider.include === domain) return toMatch(provider, "include");
+    if (provider.aliases?.includes(domain)) return toMatch(provider, "alias");
+    if (provider.deprecated?.includes(domain)) {
+      return toMatch(provider, "deprecated");
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The provider whose ranges hold all of a network, if any
+ */
+export function findProviderByNetwork(
+  network: IpNetwork,
+  providers: SpfProvider[] = SPF_PROVIDERS,
+): SpfProviderMatch | undefined {
+  const version = network.address.version;
+  const provider = providers.find((provider) =>
+    provider.ranges?.some((range) => {
+      const known = parseCidr(range, range.includes(":") ? 6 : 4);
+      return known !== null && known.address.version === version &&
+        known.prefix <= network.prefix &&
+        cidrContains(known, network.address);
+    })
+  );
+  return provider && toMatch(provider, "range");
+}
+
+function matchMechanism(
+  mechanism: SpfMechanism,
+  providers: SpfProvider[],
+): SpfProviderMatch | undefined {
+  if (mechanism.error || mechanism.macro) return undefined;
+  switch (mechanism.type) {
+    case "include":
+    case "redirect":
+      return findProvider(mechanism.value, providers);
+    case "ip4":
+    case "ip6": {
+      const network = parseCidr(
+        mechanism.value,
+        mechanism.type === "ip4" ? 4 : 6,
+      );
+      return network ? findProviderByNetwork(network, providers) : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+interface ProviderUse {
+  term: string;
+  domain: string;
+  match: SpfProviderMatch;
+}
+
+/**
+ * Issues of a provider term given the earlier terms of the same provider:
+ * a retired include, the provider listed twice, or under two names
+ */
+function providerIssues(
+  mechanism: SpfMechanism,
+  match: SpfProviderMatch,
+  domain: string,
+  earlier: ProviderUse[],
+): SpfValidationIssue[] {
+  const term = formatMechanism(mechanism);
+  const span = { start: mechanism.start, end: mechanism.end };
+  const issues: SpfValidationIssue[] = [];
+
+  if (match.match === "deprecated") {
+    issues.push({
+      type: "warning",
+      code: "deprecated-provider-include",
+      message:
+        `"${term}" is a retired ${match.name} include; use "include:${match.include}"`,
+      ...span,
+    });
+  }
+
+  // Several ranges of one provider are a normal way to list it
+  const previous = earlier.find((use) =>
+    use.match.match !== "range" || match.match !== "range"
+  );
+  if (!previous) return issues;
+
+  const where = previous.domain === domain ? "" : ` in ${previous.domain}`;
+  if (previous.term.toLowerCase() === term.toLowerCase()) {
+    issues.push({
+      type: "warning",
+      code: "duplicate-provider",
+      message:
+        `${match.name} is listed twice: "${term}" repeats "${previous.term}"${where}`,
+      ...span,
+    });
+  } else if (previous.match.match === "range" || match.match === "range") {
+    issues.push({
+      type: "warning",
+      code: "duplicate-provider",
+      message:
+        `${match.name} is listed as both "${previous.term}"${where} and "${term}"; its include already covers its ranges`,
+      ...span,
+    });
+  } else {
+    issues.push({
+      type: "warning",
+      code: "provider-alias",
+      message:
+        `${match.name} is included under two names, "${previous.term}"${where} and "${term}"; "include:${match.include}" alone covers it`,
+      ...span,
+    });
+  }
+  return issues;
+}
+
+function annotateNode(
+  node: SpfResult,
+  providers: SpfProvider[],
+  uses: Map<string, ProviderUse[]>,
+  insideProvider: boolean,
+) {
+  for (const mechanism of node.mechanisms) {
+    const match = matchMechanism(mechanism, providers);
+    if (match) {
+      mechanism.provider = match;
+      // A provider's own records are its business, not the domain's
+      if (!insideProvider) {
+        const earlier = uses.get(match.id) ?? [];
+        node.issues.push(
+          ...providerIssues(mechanism, match, node.domain, earlier),
+        );
+        uses.set(match.id, [
+          ...earlier,
+          { term: formatMechanism(mechanism), domain: node.domain, match },
+        ]);
+      }
+    }
+    if (mechanism.expanded) {
+      annotateNode(
+        mechanism.expanded,
+        providers,
+        uses,
+        insideProvider || match !== undefined,
+      );
+    }
+  }
+}
+
+/**
+ * Mark the include, redirect and ip terms of an expanded tree with the
+ * provider they belong to, and flag retired provider includes and
+ * providers listed more than once across the domain's own records
+ */
+export function annotateProviders(
+  result: SpfResult,
+  providers: SpfProvider[] = SPF_PROVIDERS,
+): SpfResult {
+  annotateNode(result, providers, new Map(), false);
+  return result;
+}
@@ -0,0 +1,369 @@
+/**
+ * SPF Records
+ *
+ * Selects a domain's SPF record among its TXT records, parses it into
+ * mechanisms and modifiers with syntax and best-practice issues, and
+ * formats terms back into record text and TXT character-strings.
+ */
+
+import {
+  isNxDomain,
+  type SpfDnsResponse,
+  type SpfResolver,
+} from "./resolver.ts";
+import { parseSpfTerms, SPF_MODIFIERS } from "./parser.ts";
+import type {
+  SpfCacheStatus,
+  SpfMechanism,
+  SpfRecordCandidate,
+  SpfRecordSelection,
+  SpfValidationIssue,
+} from "./types.ts";
+
+const SPF_VERSION = /^v=spf1( |$)/i;
+
+/**
+ * Pick the SPF record among a domain's TXT records (RFC 7208 Section
+ * 4.5): only records starting with exactly "v=spf1" followed by a space
+ * or the end count, and more than one is a permerror
+ */
+export function selectSpfRecord(
+  records: Array<{ text: string; strings?: string[] }>,
+): SpfRecordSelection {
+  const issues: SpfValidationIssue[] = [];
+  const spf = records.filter((r) => SPF_VERSION.test(r.text));
+
+  const candidates = records.map((r): SpfRecordCandidate => {
+    let status: SpfRecordCandidate["status"] = "other";
+    if (SPF_VERSION.test(r.text)) {
+      status = spf.length === 1 ? "selected" : "competing";
+    } else if (/^\s*v\s*=\s*spf/i.test(r.text)) {
+      status = "lookalike";
+    }
+    return { text: r.text, strings: r.strings, source: "TXT", status };
+  });
+
+  for (const candidate of candidates) {
+    if (candidate.status !== "lookalike") continue;
+    if (/^v=spf2\.0\//i.test(candidate.text)) {
+      issues.push({
+        type: "warning",
+        code: "sender-id-record",
+        message:
+          `Sender ID record "${candidate.text}" (RFC 4406) is obsolete and ignored by SPF`,
+      });
+    } else {
+      issues.push({
+        type: "warning",
+        code: "invalid-spf-version",
+        message:
+          `TXT record "${candidate.text}" is ignored: SPF records must start with "v=spf1" followed by a space`,
+      });
+    }
+  }
+
+  if (spf.length > 1) {
+    issues.push({
+      type: "error",
+      code: "multiple-spf-records",
+      message:
+        `Multiple SPF records found (${spf.length}); RFC 7208 Section 4.5 makes this a permerror`,
+    });
+    return { record: null, candidates, issues };
+  }
+
+  if (spf.length === 0) {
+    issues.push({
+      type: "error",
+      code: "no-spf-record",
+      message: records.length > 0
+        ? `No SPF record found among ${records.length} TXT records`
+        : "No TXT records found",
+    });
+    return { record: null, candidates, issues };
+  }
+
+  return { record: spf[0].text, candidates, issues };
+}
+
+export interface FetchSpfResult {
+  record: string | null;
+  totalTxtRecords?: number;
+  cache?: SpfCacheStatus;
+  recordTtl?: number;
+  /** Every TXT record of the domain, plus any SPF-type (99) records */
+  candidates?: SpfRecordCandidate[];
+  issues: SpfValidationIssue[];
+}
+
+/**
+ * Query the SPF-type (99) records of a domain, ignoring failures since
+ * many resolvers and servers don't handle the type
+ */
+async function fetchLegacySpfRecords(
+  domain: string,
+  resolver: SpfResolver,
+): Promise<SpfRecordCandidate[]> {
+  try {
+    const response = await resolver.lookup(domain, "SPF");
+    return response.answers.map((answer) => ({
+      text: answer.data,
+      strings: answer.strings,
+      source: "SPF",
+      status: "legacy",
+    }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Query a domain's TXT (and SPF-type) records and select its SPF record
+ */
+export async function fetchSpfRecord(
+  domain: string,
+  resolver: SpfResolver,
+): Promise<FetchSpfResult> {
+  let response: SpfDnsResponse;
+  try {
+    response = await resolver.lookup(domain, "TXT");
+  } catch (err) {
+    const notFound = isNxDomain(err);
+    return {
+      record: null,
+      issues: [{
+        type: "error",
+        code: notFound ? "domain-not-found" : "dns-lookup-failed",
+        message: notFound
+          ? `Domain ${domain} does not exist`
+          : `DNS lookup failed: ${
+            err instanceof Error ? err.message : "Unknown error"
+          }`,
+      }],
+    };
+  }
+
+  const selection = selectSpfRecord(
+    response.answers.map((answer) => ({
+      text: answer.data,
+      strings: answer.strings,
+    })),
+  );
+  const legacy = (await fetchLegacySpfRecords(domain, resolver))
+    .filter((r) => SPF_VERSION.test(r.text));
+  const issues = selection.issues;
+
+  if (legacy.length > 0) {
+    const noTxt = issues.findIndex((i) => i.code === "no-spf-record");
+    if (noTxt >= 0) {
+      issues.splice(noTxt, 1, {
+        type: "error",
+        code: "spf-rr-only",
+        message:
+          `Only an SPF-type (99) record is published; checkers only query TXT records (RFC 7208 Section 3.1)`,
+      });
+    } else {
+      issues.push({
+        type: "warning",
+        code: "spf-rr-type",
+        message:
+          `Record also published as the deprecated SPF type (99); only the TXT record is used (RFC 7208 Section 3.1)`,
+      });
+    }
+    if (
+      selection.record &&
+      legacy.some((r) => r.text !== selection.record)
+    ) {
+      issues.push({
+        type: "warning",
+        code: "spf-rr-mismatch",
+        message: `SPF-type (99) record differs from the TXT record`,
+      });
+    }
+  }
+
+  return {
+    record: selection.record,
+    totalTxtRecords: response.answers.length,
+    cache: response.cache,
+    recordTtl: response.answers.length > 0
+      ? Math.min(...response.answers.map((answer) => answer.ttl))
+      : undefined,
+    candidates: [...selection.candidates, ...legacy],
+    issues,
+  };
+}
+
+const MAX_TXT_STRING = 255;
+
+/**
+ * Split a record into TXT character-strings. SPF concatenates strings
+ * without separators (RFC 7208 Section 3.3), so any split point works;
+ * splits go after a space where possible to keep terms readable.
+ */
+export function splitTxtStrings(value: string): string[] {
+  const strings: string[] = [];
+  let rest = value;
+  while (rest.length > MAX_TXT_STRING) {
+    const space = rest.lastIndexOf(" ", MAX_TXT_STRING - 1);
+    const end = space > 0 ? space + 1 : MAX_TXT_STRING;
+    strings.push(rest.slice(0, end));
+    rest = rest.slice(end);
+  }
+  strings.push(rest);
+  return strings;
+}
+
+/**
+ * Estimate the size of a DNS response holding one TXT record: header,
+ * question, and an answer whose owner name is a compression pointer
+ */
+export function estimateTxtResponseSize(name: string, value: string): number {
+  const nameSize = name.replace(/\.$/, "").length + 2;
+  const rdataSize = value.length + splitTxtStrings(value).length;
+  return 12 + nameSize + 4 + 2 + 10 + rdataSize;
+}
+
+export interface DomainCidr {
+  domain: string;
+  cidr4: number;
+  cidr6: number;
+}
+
+/**
+ * Split an a/mx value such as "example.com/24//64" into its domain-spec
+ * and IPv4/IPv6 prefix lengths. The domain is empty when omitted.
+ */
+export function parseDomainCidr(value: string): DomainCidr | null {
+  const match = value.match(/^([^/]*)(?:\/(\d+))?(?:\/\/(\d+))?$/);
+  if (!match) return null;
+
+  const cidr4 = match[2] !== undefined ? Number(match[2]) : 32;
+  const cidr6 = match[3] !== undefined ? Number(match[3]) : 128;
+  if (cidr4 > 32 || cidr6 > 128) return null;
+
+  return { domain: match[1], cidr4, cidr6 };
+}
+
+/**
+ * Format a mechanism back into its record text, e.g. "-ip4:192.0.2.0/24"
+ */
+export function formatMechanism(mechanism: SpfMechanism): string {
+  const separator = mechanism.modifier || mechanism.type === "redirect" ||
+      mechanism.type === "exp"
+    ? "="
+    : mechanism.value.startsWith("/")
+    ? ""
+    : ":";
+  const qualifier = mechanism.qualifier === "+" ? "" : mechanism.qualifier;
+  return mechanism.value
+    ? `${qualifier}${mechanism.type}${separator}${mechanism.value}`
+    : `${qualifier}${mechanism.type}`;
+}
+
+export function parseSpfRecord(record: string): {
+  version: string | null;
+  mechanisms: SpfMechanism[];
+  issues: SpfValidationIssue[];
+} {
+  const issues: SpfValidationIssue[] = [];
+  const mechanisms: SpfMechanism[] = [];
+
+  const parsed = parseSpfTerms(record);
+  for (const error of parsed.errors) {
+    issues.push({ type: "error", ...error });
+  }
+  if (!parsed.valid) {
+    return { version: null, mechanisms, issues };
+  }
+
+  const version = "spf1";
+
+  for (const term of parsed.terms) {
+    const mechanism: SpfMechanism = {
+      type: term.name,
+      qualifier: term.qualifier,
+      value: term.value,
+      start: term.start,
+      end: term.end,
+    };
+    if (term.kind === "modifier") mechanism.modifier = true;
+    if (term.error) mechanism.error = term.error;
+    mechanisms.push(mechanism);
+
+    if (
+      term.kind === "modifier" && !term.error &&
+      !SPF_MODIFIERS.includes(term.name)
+    ) {
+      issues.push({
+        type: "warning",
+        message: `Unknown modifier "${term.name}" is ignored`,
+        start: term.start,
+        end: term.end,
+      });
+    }
+
+    if (term.name === "ptr" && term.kind === "mechanism") {
+      issues.push({
+        type: "warning",
+        message: `"ptr" mechanism is deprecated (RFC 7208 Section 5.5)`,
+        start: term.start,
+        end: term.end,
+      });
+    }
+  }
+
+  const directives = mechanisms.filter((m) => !m.modifier);
+  const allIndex = directives.findIndex((m) => m.type === "all");
+  if (allIndex >= 0 && allIndex !== directives.length - 1) {
+    issues.push({
+      type: "warning",
+      message: `"all" mechanism should be the last term in the record`,
+      start: directives[allIndex].start,
+      end: directives[allIndex].end,
+    });
+  }
+
+  if (allIndex < 0) {
+    issues.push({
+      type: "warning",
+      message:
+        `No "all" mechanism found. Consider adding "-all" or "~all" at the end`,
+    });
+  }
+
+  for (const name of SPF_MODIFIERS) {
+    const duplicates = mechanisms.filter((m) => m.modifier && m.type === name)
+      .slice(1);
+    for (const duplicate of duplicates) {
+      issues.push({
+        type: "error",
+        message: `Multiple "${name}" modifiers found (only one allowed)`,
+        start: duplicate.start,
+        end: duplicate.end,
+      });
+    }
+  }
+
+  const redirectCount =
+    mechanisms.filter((m) => m.modifier && m.type === "redirect").length;
+
+  if (redirectCount > 0 && allIndex >= 0) {
+    issues.push({
+      type: "warning",
+      message:
+        `Both "redirect" and "all" present. "redirect" is ignored when "all" is present`,
+    });
+  }
+
+  if (record.length > 255) {
+    const chunks = Math.ceil(record.length / 255);
+    issues.push({
+      type: "warning",
+      message:
+        `Record exceeds 255 characters (${record.length} chars). Will be split into ${chunks} TXT strings`,
+    });
+  }
+
+  return { version, mechanisms, issues };
+}
@@ -0,0 +1,183 @@
+import { assert, assertEquals } from "@std/assert";
+import {
+  estimateTxtResponseSize,
+  fetchSpfRecord,
+  formatMechanism,
+  parseDomainCidr,
+  parseSpfRecord,
+  selectSpfRecord,
+  splitTxtStrings,
+} from "./record.ts";
+import { DnsError } from "./resolver.ts";
+import { zoneResolver } from "./_test_utils.ts";
+
+function codes(issues: { code?: string }[]): (string | undefined)[] {
+  return issues.map((issue) => issue.code);
+}
+
+Deno.test("selectSpfRecord picks the only v=spf1 record", () => {
+  const selection = selectSpfRecord([
+    { text: "google-site-verification=abc" },
+    { text: "v=spf1 mx -all" },
+  ]);
+  assertEquals(selection.record, "v=spf1 mx -all");
+  assertEquals(selection.issues, []);
+  assertEquals(selection.candidates.map((c) => c.status), [
+    "other",
+    "selected",
+  ]);
+});
+
+Deno.test("selectSpfRecord needs a space or the end after v=spf1", () => {
+  assertEquals(selectSpfRecord([{ text: "v=spf1" }]).record, "v=spf1");
+  assertEquals(
+    selectSpfRecord([{ text: "V=SPF1 -all" }]).record,
+    "V=SPF1 -all",
+  );
+
+  const selection = selectSpfRecord([
+    { text: "v=spf10 -all" },
+    { text: "v=spf1-all" },
+    { text: " v=spf1 -all" },
+  ]);
+  assertEquals(selection.record, null);
+  assertEquals(selection.candidates.map((c) => c.status), [
+    "lookalike",
+    "lookalike",
+    "lookalike",
+  ]);
+  assertEquals(codes(selection.issues), [
+    "invalid-spf-version",
+    "invalid-spf-version",
+    "invalid-spf-version",
+    "no-spf-record",
+  ]);
+});
+
+Deno.test("selectSpfRecord makes more than one record a permerror", () => {
+  const selection = selectSpfRecord([
+    { text: "v=spf1 mx -all" },
+    { text: "v=spf1 a -all" },
+  ]);
+  assertEquals(selection.record, null);
+  assertEquals(selection.candidates.map((c) => c.status), [
+    "competing",
+    "competing",
+  ]);
+  assertEquals(codes(selection.issues), ["multiple-spf-records"]);
+});
+
+Deno.test("selectSpfRecord ignores Sender ID records", () => {
+  const selection = selectSpfRecord([
+    { text: "spf2.0/pra -all" },
+    { text: "v=spf2.0/mfrom -all" },
+    { text: "v=spf1 -all" },
+  ]);
+  assertEquals(selection.record, "v=spf1 -all");
+  assertEquals(codes(selection.issues), ["sender-id-record"]);
+});
+
+Deno.test("fetchSpfRecord tells a missing domain from a failed lookup", async () => {
+  const resolver = zoneResolver({
+    "TXT broken.example": new DnsError("SERVFAIL", 2),
+  });
+  const missing = await fetchSpfRecord("missing.example", resolver);
+  assertEquals(missing.record, null);
+  assertEquals(codes(missing.issues), ["domain-not-found"]);
+
+  const broken = await fetchSpfRecord("broken.example", resolver);
+  assertEquals(broken.record, null);
+  assertEquals(codes(broken.issues), ["dns-lookup-failed"]);
+  assertEquals(broken.issues[0].message, "DNS lookup failed: SERVFAIL");
+});
+
+Deno.test("fetchSpfRecord reports SPF-type (99) records", async () => {
+  const resolver = zoneResolver({
+    "TXT both.example": ["v=spf1 mx -all"],
+    "SPF both.example": ["v=spf1 a -all"],
+    "SPF legacy.example": ["v=spf1 -all"],
+  });
+  const both = await fetchSpfRecord("both.example", resolver);
+  assertEquals(both.record, "v=spf1 mx -all");
+  assertEquals(both.totalTxtRecords, 1);
+  assertEquals(both.recordTtl, 300);
+  assertEquals(codes(both.issues), ["spf-rr-type", "spf-rr-mismatch"]);
+  assertEquals(both.candidates?.map((c) => [c.source, c.status]), [
+    ["TXT", "selected"],
+    ["SPF", "legacy"],
+  ]);
+
+  const legacy = await fetchSpfRecord("legacy.example", resolver);
+  assertEquals(legacy.record, null);
+  assertEquals(codes(legacy.issues), ["spf-rr-only"]);
+});
+
+Deno.test("parseSpfRecord warns about deprecated and misplaced terms", () => {
+  const { version, mechanisms, issues } = parseSpfRecord(
+    "v=spf1 ptr -all mx redirect=_spf.example.com x=y",
+  );
+  assertEquals(version, "spf1");
+  assertEquals(mechanisms.map(formatMechanism), [
+    "ptr",
+    "-all",
+    "mx",
+    "redirect=_spf.example.com",
+    "x=y",
+  ]);
+  assertEquals(issues.map((issue) => issue.message), [
+    '"ptr" mechanism is deprecated (RFC 7208 Section 5.5)',
+    'Unknown modifier "x" is ignored',
+    '"all" mechanism should be the last term in the record',
+    'Both "redirect" and "all" present. "redirect" is ignored when "all" is present',
+  ]);
+});
+
+Deno.test("parseSpfRecord rejects duplicate modifiers", () => {
+  const record = "v=spf1 redirect=a.example redirect=b.example";
+  const { issues } = parseSpfRecord(record);
+  const errors = issues.filter((issue) => issue.type === "error");
+  assertEquals(errors.length, 1);
+  assertEquals(
+    record.slice(errors[0].start, errors[0].end),
+    "redirect=b.example",
+  );
+});
+
+Deno.test("parseDomainCidr splits a/mx values", () => {
+  assertEquals(parseDomainCidr(""), { domain: "", cidr4: 32, cidr6: 128 });
+  assertEquals(parseDomainCidr("/24//64"), {
+    domain: "",
+    cidr4: 24,
+    cidr6: 64,
+  });
+  assertEquals(parseDomainCidr("example.com//48"), {
+    domain: "example.com",
+    cidr4: 32,
+    cidr6: 48,
+  });
+  assertEquals(parseDomainCidr("example.com/33"), null);
+});
+
+Deno.test("splitTxtStrings keeps strings within 255 characters", () => {
+  assertEquals(splitTxtStrings("v=spf1 -all"), ["v=spf1 -all"]);
+
+  const terms = Array.from({ length: 40 }, (_, i) => `ip4:192.0.2.${i}`);
+  const record = `v=spf1 ${terms.join(" ")} -all`;
+  const strings = splitTxtStrings(record);
+  assert(strings.length > 1);
+  assertEquals(strings.join(""), record);
+  for (const string of strings.slice(0, -1)) {
+    assert(string.length <= 255);
+    assert(string.endsWith(" "));
+  }
+
+  assertEquals(splitTxtStrings("x".repeat(300)).map((s) => s.length), [
+    255,
+    45,
+  ]);
+});
+
+Deno.test("estimateTxtResponseSize counts header, question and answer", () => {
+  // 12 header + 13 name + 4 question + 2 pointer + 10 fixed + 12 rdata
+  assertEquals(estimateTxtResponseSize("example.com.", "v=spf1 -all"), 53);
+});
@@ -0,0 +1,101 @@
+/**
+ * SPF Resolver Interface
+ *
+ * The engine doesn't talk to DNS itself: callers inject a resolver that
+ * answers TXT, A, AAAA, MX and PTR queries (plus the legacy SPF type 99)
+ * however they like, e.g. over DNS-over-HTTPS, through a cache or from
+ * fixed test data. A resolver throws DnsError for a non-zero response
+ * code, with status 3 for NXDOMAIN; any other error is a lookup failure.
+ */
+
+import type { SpfCacheStatus } from "./types.ts";
+
+export type SpfRecordType = "TXT" | "SPF" | "A" | "AAAA" | "MX" | "PTR";
+
+export interface SpfDnsAnswer {
+  /**
+   * Presentation form: addresses for A/AAAA, "<preference> <exchange>" for
+   * MX, host names for PTR and the concatenated text for TXT and SPF
+   */
+  data: string;
+  ttl: number;
+  /** TXT/SPF character-strings as published, before concatenation */
+  strings?: string[];
+}
+
+export interface SpfDnsResponse {
+  answers: SpfDnsAnswer[];
+  /** Set by caching resolvers */
+  cache?: SpfCacheStatus;
+}
+
+export interface SpfResolver {
+  lookup(name: string, type: SpfRecordType): Promise<SpfDnsResponse>;
+}
+
+export interface MxRecord {
+  preference: number;
+  exchange: string;
+}
+
+/**
+ * Error raised when a DNS server answers with a non-zero status code.
+ * Status 3 (NXDOMAIN) lets callers tell a missing name from a failure.
+ */
+export class DnsError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly negativeTtl?: number,
+  ) {
+    super(message);
+    this.name = "DnsError";
+  }
+}
+
+export function isNxDomain(err: unknown): boolean {
+  return err instanceof DnsError && err.status === 3;
+}
+
+/**
+ * Resolve the data of records of the given type
+ */
+export async function queryRecords(
+  resolver: SpfResolver,
+  name: string,
+  type: SpfRecordType,
+): Promise<string[]> {
+  const response = await resolver.lookup(name, type);
+  return response.answers.map((answer) => answer.data);
+}
+
+/**
+ * Resolve mail exchangers, sorted by preference
+ */
+export async function queryMx(
+  resolver: SpfResolver,
+  name: string,
+): Promise<MxRecord[]> {
+  const records = await queryRecords(resolver, name, "MX");
+
+  return records
+    .map((data) => {
+      const [preference, exchange = ""] = data.trim().split(/\s+/);
+      return {
+        preference: Number(preference),
+        exchange: exchange.replace(/\.$/, "").toLowerCase(),
+      };
+    })
+    .sort((a, b) => a.preference - b.preference);
+}
+
+/**
+ * Resolve PTR records for a reverse name (e.g. "4.3.2.1.in-addr.arpa")
+ */
+export async function queryPtr(
+  resolver: SpfResolver,
+  name: string,
+): Promise<string[]> {
+  const records = await queryRecords(resolver, name, "PTR");
+  return records.map((data) => data.replace(/\.$/, "").toLowerCase());
+}
@@ -0,0 +1,239 @@
+/**
+ * What-If Simulation
+ *
+ * Recomputes an expanded tree with includes dropped or added, replaying
+ * the DNS answers the tree already holds instead of querying DNS again.
+ * Only names the tree never queried, such as an added include, go to the
+ * fallback resolver.
+ */
+
+import { checkSpf } from "./expand.ts";
+import type { MacroContext } from "./macro.ts";
+import type { SpfProvider } from "./providers.ts";
+import { DnsError, type SpfDnsAnswer, type SpfResolver } from "./resolver.ts";
+import type { SpfMechanism, SpfRecordCandidate, SpfResult } from "./types.ts";
+
+export interface SpfSimulationChanges {
+  /** Include targets to drop, wherever they appear in the tree */
+  remove?: string[];
+  /** Include targets to add to the queried domain's record, before "all" */
+  add?: string[];
+}
+
+export interface SimulateSpfOptions {
+  /** Resolver for names the tree holds no answers for */
+  resolver?: SpfResolver;
+  /** Mail providers to recognise includes and ranges by */
+  providers?: SpfProvider[];
+  /** Evaluation context the tree was expanded with, if any */
+  macro?: Omit<MacroContext, "domain">;
+}
+
+type CachedAnswer = SpfDnsAnswer[] | Error;
+
+/** Issues of includes the expander didn't query DNS for */
+const UNQUERIED_CODES = [
+  "circular-reference",
+  "lookup-limit-exceeded",
+  "macro-expansion-failed",
+  "missing-domain",
+];
+
+function answersOf(data: string[], ttl = 0): SpfDnsAnswer[] {
+  return data.map((text) => ({ data: text, ttl }));
+}
+
+function cacheNode(
+  node: SpfResult,
+  cache: Map<string, CachedAnswer>,
+  edits: Map<string, string>,
+) {
+  const name = node.domain.toLowerCase();
+  const failure = node.issues.find((i) =>
+    i.code === "domain-not-found" || i.code === "dns-lookup-failed"
+  );
+
+  if (node.issues.some((i) => UNQUERIED_CODES.includes(i.code ?? ""))) {
+    // Not queried, so nothing to replay
+  } else if (failure?.code === "domain-not-found") {
+    cache.set(`TXT ${name}`, new DnsError("NXDOMAIN", 3));
+  } else if (failure) {
+    cache.set(
+      `TXT ${name}`,
+      new Error(failure.message.replace(/^DNS lookup failed: /, "")),
+    );
+  } else {
+    const edited = edits.get(name);
+    const candidates: SpfRecordCandidate[] = node.candidates ??
+      (node.record
+        ? [{ text: node.record, source: "TXT", status: "selected" }]
+        : []);
+    const toAnswer = (candidate: SpfRecordCandidate): SpfDnsAnswer =>
+      candidate.status === "selected" && edited !== undefined
+        ? { data: edited, ttl: node.recordTtl ?? 0 }
+        : {
+          data: candidate.text,
+          ttl: node.recordTtl ?? 0,
+          strings: candidate.strings,
+        };
+    cache.set(
+      `TXT ${name}`,
+      candidates.filter((c) => c.source === "TXT").map(toAnswer),
+    );
+    cache.set(
+      `SPF ${name}`,
+      candidates.filter((c) => c.source === "SPF").map(toAnswer),
+    );
+  }
+
+  for (const mechanism of node.mechanisms) {
+    cacheMechanism(mechanism, cache);
+    if (mechanism.expanded) cacheNode(mechanism.expanded, cache, edits);
+  }
+}
+
+function cacheMechanism(
+  mechanism: SpfMechanism,
+  cache: Map<string, CachedAnswer>,
+) {
+  const resolved = mechanism.resolved;
+  if (!resolved) return;
+  const name = resolved.target.toLowerCase();
+
+  if (resolved.error) {
+    const error = new Error(resolved.error);
+    cache.set(`${mechanism.type === "mx" ? "MX" : "A"} ${name}`, error);
+    return;
+  }
+
+  const cacheAddresses = (host: string, addresses: string[]) => {
+    cache.set(
+      `A ${host}`,
+      answersOf(addresses.filter((address) => !address.includes(":"))),
+    );
+    cache.set(
+      `AAAA ${host}`,
+      answersOf(addresses.filter((address) => address.includes(":"))),
+    );
+  };
+
+  switch (mechanism.type) {
+    case "a":
+      cacheAddresses(name, resolved.addresses);
+      break;
+    case "mx":
+      // Exchanges are stored in preference order, without the values;
+      // all of them when over the limit, so replaying keeps its error
+      cache.set(
+        `MX ${name}`,
+        answersOf(
+          (resolved.exchanges ?? (resolved.hosts ?? []).map((h) => h.name))
+            .map((host, i) => `${i} ${host}`),
+        ),
+      );
+      for (const host of resolved.hosts ?? []) {
+        cacheAddresses(host.name, host.addresses);
+      }
+      break;
+    case "exists":
+      cache.set(`A ${name}`, answersOf(resolved.addresses));
+      break;
+  }
+}
+
+/**
+ * A resolver that answers from the DNS results held in an expanded tree,
+ * with the given record texts in place of the published ones
+ */
+export function cachedResolver(
+  result: SpfResult,
+  fallback?: SpfResolver,
+  edits: Map<string, string> = new Map(),
+): SpfResolver {
+  const cache = new Map<string, CachedAnswer>();
+  cacheNode(result, cache, edits);
+
+  return {
+    lookup(name, type) {
+      const cached = cache.get(`${type} ${name.toLowerCase()}`);
+      if (cached instanceof Error) return Promise.reject(cached);
+      if (cached) return Promise.resolve({ answers: cached });
+      if (fallback) return fallback.lookup(name, type);
+      return Promise.reject(
+        new Error(`No cached answer for ${type} ${name}`),
+      );
+    },
+  };
+}
+
+function removeTerms(record: string, terms: SpfMechanism[]): string {
+  let text = record;
+  for (const term of [...terms].sort((a, b) => b.start! - a.start!)) {
+    text = `${text.slice(0, term.start).trimEnd()} ${
+      text.slice(term.end).trimStart()
+    }`;
+  }
+  return text.trim();
+}
+
+function collectEdits(
+  node: SpfResult,
+  remove: Set<string>,
+  edits: Map<string, string>,
+) {
+  if (!node.record) return;
+  const dropped = node.mechanisms.filter((m) =>
+    m.type === "include" && remove.has(m.value.toLowerCase()) &&
+    m.start !== undefined && m.end !== undefined
+  );
+  if (dropped.length > 0) {
+    edits.set(node.domain.toLowerCase(), removeTerms(node.record, dropped));
+  }
+  for (const mechanism of node.mechanisms) {
+    if (mechanism.expanded && !dropped.includes(mechanism)) {
+      collectEdits(mechanism.expanded, remove, edits);
+    }
+  }
+}
+
+/**
+ * Expand a tree again with includes dropped or added, reusing its DNS
+ * answers. The result has the lookup counts and issues the changed
+ * records would have.
+ */
+export async function simulateSpf(
+  result: SpfResult,
+  changes: SpfSimulationChanges,
+  options: SimulateSpfOptions = {},
+): Promise<SpfResult> {
+  if (!result.record) {
+    throw new Error(`No SPF record to simulate changes for ${result.domain}`);
+  }
+
+  const edits = new Map<string, string>();
+  const remove = new Set(
+    (changes.remove ?? []).map((domain) => domain.toLowerCase()),
+  );
+  if (remove.size > 0) collectEdits(result, remove, edits);
+
+  const added = (changes.add ?? []).map((domain) => `include:${domain}`);
+  if (added.length > 0) {
+    const root = result.domain.toLowerCase();
+    const record = edits.get(root) ?? result.record;
+    const all = record.match(/\s[-~?+]?all(?=\s|$)/i);
+    edits.set(
+      root,
+      all?.index !== undefined
+        ? `${record.slice(0, all.index)} ${added.join(" ")}${
+          record.slice(all.index)
+        }`
+        : `${record} ${added.join(" ")}`,
+    );
+  }
+
+  return await checkSpf(result.domain, {
+    resolver: cachedResolver(result, options.resolver, edits),
+    providers: options.providers,
+    macro: options.macro,
+  });
+}
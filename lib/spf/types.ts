@@ -0,0 +1,161 @@
+/**
+ * SPF Types
+ *
+ * Shapes of parsed and expanded SPF records, shared by the parser, the
+ * expander and the evaluator, and the limits RFC 7208 puts on lookups.
+ */
+
+export interface SpfMechanism {
+  type: string;
+  qualifier: string;
+  value: string;
+  expanded?: SpfResult;
+  /** Value contains macros that can't be expanded without evaluation context */
+  macro?: boolean;
+  /** DNS answers for a, mx, ptr and exists terms */
+  resolved?: SpfResolution;
+  /** The term is a modifier (redirect=, exp=, unknown) */
+  modifier?: boolean;
+  /** Character offsets of the term in its record */
+  start?: number;
+  end?: number;
+  /** Syntax error; the term is not expanded */
+  error?: string;
+  /** Known mail provider the include target or address range belongs to */
+  provider?: SpfProviderMatch;
+}
+
+export interface SpfProviderMatch {
+  id: string;
+  name: string;
+  purpose: string;
+  /** The include the provider documents */
+  include: string;
+  /** DNS lookups the documented include typically costs */
+  lookups: number;
+  /**
+   * include: the documented include
+   * alias: another current include of the provider
+   * deprecated: an include the provider has retired
+   * range: an address range the provider sends from
+   */
+  match: "include" | "alias" | "deprecated" | "range";
+}
+
+export interface SpfResolution {
+  /** Name that was queried */
+  target: string;
+  /** IPv4/IPv6 addresses the term authorizes (a, mx) or that exist (exists) */
+  addresses: string[];
+  /** Exchange hosts and their addresses, for mx terms */
+  hosts?: Array<{ name: string; addresses: string[] }>;
+  /**
+   * Every exchange the MX query returned, in preference order, when there
+   * are more than the 10 whose addresses are looked up
+   */
+  exchanges?: string[];
+  /** Names returned for the client IP, for ptr terms */
+  names?: string[];
+  /** The query returned NXDOMAIN or no records */
+  void: boolean;
+  error?: string;
+}
+
+export interface SpfValidationIssue {
+  type: "error" | "warning";
+  /** Stable identifier for the kind of issue, e.g. "multiple-spf-records" */
+  code?: string;
+  message: string;
+  /** Character offsets of the offending span in the record */
+  start?: number;
+  end?: number;
+}
+
+export interface SpfResult {
+  domain: string;
+  record: string | null;
+  version: string | null;
+  mechanisms: SpfMechanism[];
+  lookupCount: number;
+  voidLookupCount: number;
+  issues: SpfValidationIssue[];
+  queryTime: number;
+  /** Whether the TXT lookup was answered from the DNS cache */
+  cache?: SpfCacheStatus;
+  /** Lowest TTL of the TXT answers, as served by the resolver */
+  recordTtl?: number;
+  /** TXT (and SPF-type) records considered when selecting the record */
+  candidates?: SpfRecordCandidate[];
+  /**
+   * Lookups this branch costs: the include or redirect that reaches it
+   * plus everything its record expands. For the queried domain, the
+   * whole tree.
+   */
+  cost?: SpfLookupCost;
+}
+
+export interface SpfLookupCost {
+  lookups: number;
+  /** Share of the 10-lookup budget, above 1 when over it */
+  share: number;
+}
+
+export interface SpfCacheStatus {
+  hit: boolean;
+  /** Seconds until the cached TXT answer expires */
+  ttl: number;
+}
+
+export interface SpfProgressEvent {
+  /**
+   * "fetched" once a node's TXT lookup returns a record, "parsed" once
+   * its terms are parsed, "failed" when it has no usable record or
+   * can't be expanded
+   */
+  type: "fetched" | "parsed" | "failed";
+  /** Chain of include/redirect domains from the queried domain */
+  path: string[];
+  domain: string;
+  record: string | null;
+  /** Terms before their lookups are expanded, on "parsed" */
+  mechanisms?: SpfMechanism[];
+  issues: SpfValidationIssue[];
+  /** DNS lookups counted so far across the whole tree */
+  lookupCount: number;
+  queryTime: number;
+}
+
+export const LOOKUP_MECHANISMS = [
+  "include",
+  "a",
+  "mx",
+  "ptr",
+  "exists",
+  "redirect",
+];
+export const MAX_DNS_LOOKUPS = 10;
+export const MAX_VOID_LOOKUPS = 2;
+export const MAX_NAME_LOOKUPS = 10;
+
+export interface SpfRecordCandidate {
+  /** Record text, character-strings concatenated */
+  text: string;
+  /** Character-strings as published */
+  strings?: string[];
+  /** DNS type the record is published as */
+  source: "TXT" | "SPF";
+  /**
+   * selected: the domain's SPF record
+   * competing: one of several SPF records (permerror)
+   * lookalike: resembles an SPF record but has no valid version
+   * legacy: published as the deprecated SPF type (99)
+   * other: an unrelated TXT record
+   */
+  status: "selected" | "competing" | "lookalike" | "legacy" | "other";
+}
+
+export interface SpfRecordSelection {
+  record: string | null;
+  candidates: SpfRecordCandidate[];
+  issues: SpfValidationIssue[];
+}
@@ -0,0 +1,100 @@
+/**
+ * SPF Lookup Requests
+ *
+ * Validates the parameters of an SPF lookup (domain, resolver and an
+ * optional sending host) into checkSpf options, so the API routes and
+ * the command line accept the same input.
+ */
+
+import { type ResolverType, VALID_RESOLVERS } from "./dns.ts";
+import { parseIp } from "./spf/mod.ts";
+import type { CheckSpfOptions } from "./spf.ts";
+
+export interface SpfRequestParams {
+  domain?: string | null;
+  /** Resolver name (default "google") */
+  resolver?: string | null;
+  /** Sending host to expand include/redirect macros for */
+  ip?: string | null;
+  sender?: string | null;
+  helo?: string | null;
+}
+
+export interface SpfRequest {
+  domain: string;
+  resolver: ResolverType;
+  options: CheckSpfOptions;
+}
+
+/**
+ * Error raised for lookup parameters that can't be used
+ */
+export class SpfRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpfRequestError";
+  }
+}
+
+/**
+ * Validate a resolver name, "google" when none is given
+ */
+export function parseResolver(name?: string | null): ResolverType {
+  const resolver = name || "google";
+  if (!VALID_RESOLVERS.includes(resolver)) {
+    throw new SpfRequestError(
+      `Invalid resolver: ${resolver}. Valid options: ${
+        VALID_RESOLVERS.join(", ")
+      }`,
+    );
+  }
+  return resolver;
+}
+
+/**
+ * Validate a domain name, returning it trimmed and lowercased
+ */
+export function parseDomain(domain?: string | null): string {
+  if (!domain) {
+    throw new SpfRequestError("Domain is required");
+  }
+
+  const cleanDomain = domain.trim().toLowerCase();
+  if (
+    !/^[a-z0-9][a-z0-9.-]*[a-z0-9]$/.test(cleanDomain) ||
+    cleanDomain.length < 2
+  ) {
+    throw new SpfRequestError("Invalid domain format");
+  }
+  return cleanDomain;
+}
+
+/**
+ * Validate lookup parameters, throwing SpfRequestError with a message
+ * fit for the caller
+ */
+export function parseSpfRequest(params: SpfRequestParams): SpfRequest {
+  const domain = parseDomain(params.domain);
+  const resolver = parseResolver(params.resolver);
+
+  const ip = params.ip ? parseIp(params.ip.trim()) : null;
+  if (params.ip && !ip) {
+    throw new SpfRequestError(`Invalid IP address: ${params.ip}`);
+  }
+
+  const helo = params.helo || "";
+  return {
+    domain,
+    resolver,
+    options: {
+      resolver,
+      macro: ip
+        ? {
+          ip,
+          sender: params.sender || `postmaster@${helo || domain}`,
+          helo,
+        }
+        : undefined,
+    },
+  };
+}
@@ -0,0 +1,341 @@
+/**
+ * Domain Watchlist
+ *
+ * Watched domains are re-checked on a schedule. Each check is compared
+ * with the conditions raised by the previous one, and only changes are
+ * sent to the configured webhooks: an "alert" when a condition first
+ * appears and a "recovery" once it clears. Checks where a DNS lookup
+ * failed are skipped, so a transient SERVFAIL neither alerts nor
+ * recovers anything. A check's conditions are only stored once every
+ * webhook accepted its events; a failed delivery is retried next run.
+ */
+
+import type { ResolverType } from "./dns.ts";
+import { recordSnapshot } from "./history.ts";
+import { openStore } from "./kv.ts";
+import {
+  checkSpf,
+  formatMechanism,
+  MAX_DNS_LOOKUPS,
+  MAX_VOID_LOOKUPS,
+  type SpfResult,
+} from "./spf.ts";
+import { deliverWebhooks, type WebhookDelivery } from "./webhook.ts";
+
+export interface WatchedDomain {
+  domain: string;
+  resolver: ResolverType;
+  addedAt: number;
+}
+
+export interface WatchCondition {
+  /**
+   * Stable key, e.g. "lookup-limit", "include-missing:_spf.example.com" or
+   * "permerror:multiple-spf-records:example.com"
+   */
+  key: string;
+  message: string;
+  /** When the condition was first seen */
+  since: number;
+}
+
+export interface WatchState {
+  checkedAt: number;
+  lookupCount: number;
+  record: string | null;
+  /** Conditions raised by the last check */
+  conditions: WatchCondition[];
+}
+
+export interface WatchEvent {
+  event: "alert" | "recovery";
+  domain: string;
+  /** ISO 8601 time of the check */
+  checkedAt: string;
+  /** Conditions that appeared (alert) or cleared (recovery) */
+  conditions: Array<{ key: string; message: string }>;
+  /** Conditions still present after this check */
+  active: Array<{ key: string; message: string }>;
+  lookupCount: number;
+  previousLookupCount: number | null;
+  record: string | null;
+  previousRecord: string | null;
+}
+
+export interface WatchCheck {
+  domain: string;
+  /** False when a DNS failure made the check inconclusive */
+  checked: boolean;
+  events: WatchEvent[];
+  deliveries: WebhookDelivery[];
+}
+
+export interface WebhookConfig {
+  urls: string[];
+  /** HMAC secret; payloads are unsigned when empty */
+  secret: string;
+}
+
+const WATCH_PREFIX = "watchlist";
+const STATE_PREFIX = "watch-state";
+
+/**
+ * Webhooks from WATCH_WEBHOOK_URLS (comma-separated) and
+ * WATCH_WEBHOOK_SECRET
+ */
+export function webhookConfigFromEnv(): WebhookConfig {
+  return {
+    urls: (Deno.env.get("WATCH_WEBHOOK_URLS") ?? "").split(",")
+      .map((url) => url.trim())
+      .filter(Boolean),
+    secret: Deno.env.get("WATCH_WEBHOOK_SECRET") ?? "",
+  };
+}
+
+/**
+ * Whether a request carries WATCHLIST_TOKEN as a bearer token. Nothing
+ * is authorized while the token isn't set.
+ */
+export function watchlistAuthorized(req: Request): boolean {
+  const token = Deno.env.get("WATCHLIST_TOKEN") ?? "";
+  const header = req.headers.get("Authorization") ?? "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!token || !match) return false;
+
+  // Compare every byte so the time taken doesn't reveal the token
+  const encoder = new TextEncoder();
+  const expected = encoder.encode(token);
+  const given = encoder.encode(match[1].trim());
+  let difference = expected.length ^ given.length;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected[i] ^ (given[i] ?? 0);
+  }
+  return difference === 0;
+}
+
+export async function addWatch(
+  domain: string,
+  resolver: ResolverType,
+): Promise<WatchedDomain> {
+  const kv = await openStore();
+  const watch = { domain, resolver, addedAt: Date.now() };
+  await kv.set([WATCH_PREFIX, domain], watch);
+  return watch;
+}
+
+/**
+ * Stop watching a domain, returning false if it wasn't watched
+ */
+export async function removeWatch(domain: string): Promise<boolean> {
+  const kv = await openStore();
+  const existing = await kv.get([WATCH_PREFIX, domain]);
+  if (!existing.value) return false;
+  await kv.atomic()
+    .delete([WATCH_PREFIX, domain])
+    .delete([STATE_PREFIX, domain])
+    .commit();
+  return true;
+}
+
+export async function listWatches(): Promise<
+  Array<WatchedDomain & { state: WatchState | null }>
+> {
+  const kv = await openStore();
+  const watches = await Array.fromAsync(
+    kv.list<WatchedDomain>({ prefix: [WATCH_PREFIX] }),
+  );
+  const states = await kv.getMany<WatchState[]>(
+    watches.map((w) => [STATE_PREFIX, w.value.domain]),
+  );
+  return watches.map((watch, i) => ({
+    ...watch.value,
+    state: states[i].value,
+  }));
+}
+
+function collectNodes(result: SpfResult, nodes: SpfResult[]) {
+  nodes.push(result);
+  for (const mechanism of result.mechanisms) {
+    if (mechanism.expanded) collectNodes(mechanism.expanded, nodes);
+  }
+}
+
+/**
+ * Conditions worth alerting on, or null when a DNS lookup failed
+ */
+export function findConditions(
+  result: SpfResult,
+): Map<string, string> | null {
+  const nodes: SpfResult[] = [];
+  collectNodes(result, nodes);
+  if (
+    nodes.some((node) =>
+      node.issues.some((i) => i.code === "dns-lookup-failed")
+    )
+  ) {
+    return null;
+  }
+
+  const conditions = new Map<string, string>();
+  if (!result.record) {
+    conditions.set(
+      "record-missing",
+      result.issues[0]?.message ?? `No SPF record found for ${result.domain}`,
+    );
+    return conditions;
+  }
+
+  if (result.lookupCount > MAX_DNS_LOOKUPS) {
+    conditions.set(
+      "lookup-limit",
+      `${result.lookupCount} DNS lookups exceed the limit of ${MAX_DNS_LOOKUPS}`,
+    );
+  }
+
+  // Each permerror is its own condition, so a new one alerts even while
+  // another is active
+  if (result.voidLookupCount > MAX_VOID_LOOKUPS) {
+    conditions.set(
+      "permerror:void-lookups",
+      `${result.voidLookupCount} void lookups exceed the limit of ${MAX_VOID_LOOKUPS}`,
+    );
+  }
+  for (const node of nodes) {
+    if (node.issues.some((i) => i.code === "multiple-spf-records")) {
+      conditions.set(
+        `permerror:multiple-spf-records:${node.domain}`,
+        `${node.domain} publishes multiple SPF records`,
+      );
+    }
+    for (const mechanism of node.mechanisms) {
+      if (mechanism.error) {
+        conditions.set(
+          `permerror:syntax:${node.domain}:${formatMechanism(mechanism)}`,
+          `${node.domain}: ${mechanism.error}`,
+        );
+      }
+
+      const target = mechanism.expanded;
+      if (
+        (mechanism.type === "include" || mechanism.type === "redirect") &&
+        target && !target.record && !mechanism.macro
+      ) {
+        conditions.set(
+          `include-missing:${target.domain}`,
+          `${mechanism.type} target ${target.domain} (from ${node.domain}) has no SPF record`,
+        );
+      }
+    }
+  }
+
+  return conditions;
+}
+
+/**
+ * Check one watched domain and notify the webhooks of any change
+ */
+export async function checkWatch(
+  watch: WatchedDomain,
+  webhooks: WebhookConfig,
+  now = Date.now(),
+): Promise<WatchCheck> {
+  const kv = await openStore();
+  const result = await checkSpf(watch.domain, {
+    resolver: watch.resolver,
+    noCache: true,
+  });
+  const current = findConditions(result);
+  if (!current) {
+    return { domain: watch.domain, checked: false, events: [], deliveries: [] };
+  }
+
+  await recordSnapshot(result, watch.resolver, now);
+
+  const stateKey = [STATE_PREFIX, watch.domain];
+  const previous = (await kv.get<WatchState>(stateKey)).value;
+  const active = new Map(
+    (previous?.conditions ?? []).map((c) => [c.key, c]),
+  );
+
+  const conditions: WatchCondition[] = [...current].map(([key, message]) => ({
+    key,
+    message,
+    since: active.get(key)?.since ?? now,
+  }));
+  const raised = conditions.filter((c) => !active.has(c.key));
+  const cleared = [...active.values()].filter((c) => !current.has(c.key));
+
+  const summary = (list: WatchCondition[]) =>
+    list.map(({ key, message }) => ({ key, message }));
+  const event = (
+    type: WatchEvent["event"],
+    changed: WatchCondition[],
+  ): WatchEvent => ({
+    event: type,
+    domain: watch.domain,
+    checkedAt: new Date(now).toISOString(),
+    conditions: summary(changed),
+    active: summary(conditions),
+    lookupCount: result.lookupCount,
+    previousLookupCount: previous?.lookupCount ?? null,
+    record: result.record,
+    previousRecord: previous?.record ?? null,
+  });
+
+  const events: WatchEvent[] = [];
+  if (raised.length > 0) events.push(event("alert", raised));
+  if (cleared.length > 0) events.push(event("recovery", cleared));
+
+  const deliveries: WebhookDelivery[] = [];
+  if (webhooks.urls.length > 0) {
+    for (const payload of events) {
+      deliveries.push(
+        ...await deliverWebhooks(webhooks.urls, payload, webhooks.secret),
+      );
+    }
+  }
+
+  // Keep the previous state until every webhook has the events, so the
+  // next run raises them again instead of losing them
+  if (deliveries.every((delivery) => delivery.ok)) {
+    await kv.set(
+      stateKey,
+      {
+        checkedAt: now,
+        lookupCount: result.lookupCount,
+        record: result.record,
+        conditions,
+      } satisfies WatchState,
+    );
+  }
+
+  return { domain: watch.domain, checked: true, events, deliveries };
+}
+
+/**
+ * Check every watched domain in turn
+ */
+export async function runWatchlist(
+  webhooks: WebhookConfig = webhookConfigFromEnv(),
+): Promise<WatchCheck[]> {
+  const checks: WatchCheck[] = [];
+  for (const watch of await listWatches()) {
+    try {
+      checks.push(await checkWatch(watch, webhooks));
+    } catch (err) {
+      console.error(`Watchlist check of ${watch.domain} failed: ${err}`);
+    }
+  }
+
+  for (const delivery of checks.flatMap((c) => c.deliveries)) {
+    if (!delivery.ok) {
+      console.error(
+        `Webhook ${delivery.url} failed: ${
+          delivery.error ?? `HTTP ${delivery.status}`
+        }`,
+      );
+    }
+  }
+
+  return checks;
+}
@@ -0,0 +1,84 @@
+/**
+ * Webhook Delivery
+ *
+ * POSTs JSON payloads signed with HMAC-SHA256 so receivers can check
+ * they came from this service. The signature covers the timestamp and
+ * the body, `<timestamp>.<body>`, and is sent hex-encoded as
+ * `X-Spf-Signature: sha256=<hex>` next to `X-Spf-Timestamp`.
+ */
+
+export interface WebhookDelivery {
+  url: string;
+  ok: boolean;
+  status?: number;
+  error?: string;
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(message),
+  );
+  return [...new Uint8Array(signature)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Sign a payload body as sent in X-Spf-Signature
+ */
+export async function signPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): Promise<string> {
+  return `sha256=${await hmacHex(secret, `${timestamp}.${body}`)}`;
+}
+
+/**
+ * POST a payload to each URL, reporting per-URL success. An empty
+ * secret sends the payload unsigned.
+ */
+export async function deliverWebhooks(
+  urls: string[],
+  payload: unknown,
+  secret: string,
+): Promise<WebhookDelivery[]> {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "X-Spf-Timestamp": String(timestamp),
+  };
+  if (secret) {
+    headers["X-Spf-Signature"] = await signPayload(secret, timestamp, body);
+  }
+
+  return await Promise.all(urls.map(async (url) => {
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(10000),
+      });
+      await response.body?.cancel();
+      return { url, ok: response.ok, status: response.status };
+    } catch (err) {
+      return {
+        url,
+        ok: false,
+        error: err instanceof Error ? err.message : "Delivery failed",
+      };
+    }
+  }));
+}
@@ -1,5 +1,20 @@
 import { App, staticFiles } from "fresh";
 import { define, type State } from "./utils.ts";
+import { registerResolversFromEnv } from "./lib/dns.ts";
+import { runWatchlist } from "./lib/watchlist.ts";
+
+// Additional DNS resolvers, e.g.
+// DNS_RESOLVERS='[{"name":"internal","type":"system","nameserver":"10.0.0.53"}]'
+registerResolversFromEnv();
+
+// Watchlist checks, every 30 minutes unless WATCH_SCHEDULE gives another
+// cron expression or "off"
+const watchSchedule = Deno.env.get("WATCH_SCHEDULE") || "*/30 * * * *";
+if (watchSchedule !== "off") {
+  Deno.cron("spf-watchlist", watchSchedule, async () => {
+    await runWatchlist();
+  });
+}
 
 export const app = new App<State>();
 
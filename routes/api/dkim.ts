@@ -0,0 +1,63 @@
+import { define } from "../../utils.ts";
+import {
+  DKIM_SELECTORS,
+  lookupDkim,
+  probeDkimSelectors,
+} from "../../lib/dkim.ts";
+import {
+  parseSpfRequest,
+  type SpfRequest,
+  SpfRequestError,
+} from "../../lib/spf_request.ts";
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const url = new URL(ctx.req.url);
+    const selector = url.searchParams.get("selector")?.trim().toLowerCase();
+
+    let request: SpfRequest;
+    try {
+      request = parseSpfRequest({
+        domain: url.searchParams.get("domain"),
+        resolver: url.searchParams.get("resolver"),
+      });
+    } catch (err) {
+      if (!(err instanceof SpfRequestError)) throw err;
+      return Response.json(
+        { success: false, error: err.message },
+        { status: 400 },
+      );
+    }
+
+    const { domain: cleanDomain, resolver } = request;
+
+    if (selector && !/^[a-z0-9_-]+(\.[a-z0-9_-]+)*$/.test(selector)) {
+      return Response.json(
+        { success: false, error: "Invalid selector format" },
+        { status: 400 },
+      );
+    }
+
+    try {
+      // A named selector is reported even when it has no record
+      const results = selector
+        ? [await lookupDkim(cleanDomain, selector, { resolver })]
+        : await probeDkimSelectors(cleanDomain, { resolver });
+
+      return Response.json({
+        success: true,
+        resolver,
+        probed: selector ? [selector] : DKIM_SELECTORS,
+        results,
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error
+        ? err.message
+        : "DKIM lookup failed";
+      return Response.json(
+        { success: false, error: errorMessage },
+        { status: 500 },
+      );
+    }
+  },
+});
@@ -0,0 +1,70 @@
+import { define } from "../../utils.ts";
+import { explainSpfAlignment, lookupDmarc } from "../../lib/dmarc.ts";
+import { evaluateSpf } from "../../lib/evaluate.ts";
+import {
+  parseSpfRequest,
+  type SpfRequest,
+  SpfRequestError,
+} from "../../lib/spf_request.ts";
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const url = new URL(ctx.req.url);
+    const ipParam = url.searchParams.get("ip");
+    const sender = url.searchParams.get("sender") || "";
+
+    let request: SpfRequest;
+    try {
+      request = parseSpfRequest({
+        domain: url.searchParams.get("domain"),
+        resolver: url.searchParams.get("resolver"),
+        ip: ipParam,
+      });
+    } catch (err) {
+      if (!(err instanceof SpfRequestError)) throw err;
+      return Response.json(
+        { success: false, error: err.message },
+        { status: 400 },
+      );
+    }
+
+    const { domain: cleanDomain, resolver } = request;
+
+    // The envelope sender SPF checks; the From domain's own when omitted
+    const mailFrom = sender.trim() || `postmaster@${cleanDomain}`;
+    const mailFromDomain = mailFrom.split("@").pop()!.toLowerCase();
+
+    try {
+      const [dmarc, evaluation] = await Promise.all([
+        lookupDmarc(cleanDomain, { resolver, mailFromDomain }),
+        ipParam
+          ? evaluateSpf({ ip: ipParam, sender: mailFrom, resolver })
+          : null,
+      ]);
+
+      if (evaluation && dmarc.record) {
+        dmarc.alignment = explainSpfAlignment(
+          cleanDomain,
+          mailFromDomain,
+          dmarc.record.aspf,
+          evaluation.result,
+        );
+      }
+
+      return Response.json({
+        success: true,
+        resolver,
+        result: dmarc,
+        evaluation,
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error
+        ? err.message
+        : "DMARC lookup failed";
+      return Response.json(
+        { success: false, error: errorMessage },
+        { status: 500 },
+      );
+    }
+  },
+});
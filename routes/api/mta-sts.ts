@@ -0,0 +1,47 @@
+import { define } from "../../utils.ts";
+import { checkMtaSts } from "../../lib/mtasts.ts";
+import {
+  parseSpfRequest,
+  type SpfRequest,
+  SpfRequestError,
+} from "../../lib/spf_request.ts";
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const url = new URL(ctx.req.url);
+
+    let request: SpfRequest;
+    try {
+      request = parseSpfRequest({
+        domain: url.searchParams.get("domain"),
+        resolver: url.searchParams.get("resolver"),
+      });
+    } catch (err) {
+      if (!(err instanceof SpfRequestError)) throw err;
+      return Response.json(
+        { success: false, error: err.message },
+        { status: 400 },
+      );
+    }
+
+    const { domain: cleanDomain, resolver } = request;
+
+    try {
+      const result = await checkMtaSts(cleanDomain, { resolver });
+
+      return Response.json({
+        success: true,
+        resolver,
+        result,
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error
+        ? err.message
+        : "MTA-STS check failed";
+      return Response.json(
+        { success: false, error: errorMessage },
+        { status: 500 },
+      );
+    }
+  },
+});
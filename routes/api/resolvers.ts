@@ -0,0 +1,11 @@
+import { define } from "../../utils.ts";
+import { listResolvers } from "../../lib/dns.ts";
+
+export const handler = define.handlers({
+  GET() {
+    return Response.json({
+      success: true,
+      resolvers: listResolvers(),
+    });
+  },
+});
@@ -0,0 +1,112 @@
+import { define } from "../../../utils.ts";
+import type { ResolverType } from "../../../lib/dns.ts";
+import {
+  checkDomains,
+  MAX_BULK_CONCURRENCY,
+  MAX_BULK_DOMAINS,
+  parseDomainList,
+} from "../../../lib/bulk.ts";
+import { parseResolver, SpfRequestError } from "../../../lib/spf_request.ts";
+
+export const handler = define.handlers({
+  async POST(ctx) {
+    const url = new URL(ctx.req.url);
+    const concurrencyParam = url.searchParams.get("concurrency") || "5";
+
+    let resolver: ResolverType;
+    try {
+      resolver = parseResolver(url.searchParams.get("resolver"));
+    } catch (err) {
+      if (!(err instanceof SpfRequestError)) throw err;
+      return Response.json(
+        { success: false, error: err.message },
+        { status: 400 },
+      );
+    }
+
+    const concurrency = Number(concurrencyParam);
+    if (
+      !Number.isInteger(concurrency) || concurrency < 1 ||
+      concurrency > MAX_BULK_CONCURRENCY
+    ) {
+      return Response.json(
+        {
+          success: false,
+          error: `Concurrency must be between 1 and ${MAX_BULK_CONCURRENCY}`,
+        },
+        { status: 400 },
+      );
+    }
+
+    let text: string;
+    try {
+      const contentType = ctx.req.headers.get("content-type") ?? "";
+      if (contentType.startsWith("multipart/form-data")) {
+        const file = (await ctx.req.formData()).get("file");
+        text = file instanceof File ? await file.text() : file ?? "";
+      } else {
+        text = await ctx.req.text();
+      }
+    } catch {
+      return Response.json(
+        { success: false, error: "Could not read request body" },
+        { status: 400 },
+      );
+    }
+
+    const list = parseDomainList(text);
+    if (list.domains.length === 0) {
+      return Response.json(
+        { success: false, error: "No domains found in request body" },
+        { status: 400 },
+      );
+    }
+    if (list.domains.length > MAX_BULK_DOMAINS) {
+      return Response.json(
+        {
+          success: false,
+          error:
+            `Too many domains: ${list.domains.length} (maximum ${MAX_BULK_DOMAINS})`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const encoder = new TextEncoder();
+    const abort = new AbortController();
+    // One "result" line per domain as it finishes, then a "summary" line
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (line: unknown) => {
+          if (abort.signal.aborted) return;
+          controller.enqueue(encoder.encode(JSON.stringify(line) + "\n"));
+        };
+        try {
+          send(
+            await checkDomains(
+              list,
+              { resolver, concurrency, signal: abort.signal },
+              send,
+            ),
+          );
+        } catch (err) {
+          send({
+            type: "error",
+            error: err instanceof Error ? err.message : "Bulk check failed",
+          });
+        }
+        if (!abort.signal.aborted) controller.close();
+      },
+      cancel() {
+        abort.abort();
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": "application/x-ndjson; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    });
+  },
+});
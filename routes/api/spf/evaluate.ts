@@ -0,0 +1,92 @@
+import { define } from "../../../utils.ts";
+import type { ResolverType } from "../../../lib/dns.ts";
+import { evaluateSpf } from "../../../lib/evaluate.ts";
+import { parseIp } from "../../../lib/spf/mod.ts";
+import {
+  parseDomain,
+  parseResolver,
+  SpfRequestError,
+} from "../../../lib/spf_request.ts";
+
+function checkName(value: string, label: string, shown = value): string {
+  try {
+    return parseDomain(value);
+  } catch (err) {
+    if (!(err instanceof SpfRequestError)) throw err;
+    throw new SpfRequestError(`Invalid ${label}: ${shown}`);
+  }
+}
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const url = new URL(ctx.req.url);
+    const ip = url.searchParams.get("ip");
+    const sender = url.searchParams.get("sender")?.trim() || "";
+
+    if (!ip) {
+      return Response.json(
+        { success: false, error: "IP address is required" },
+        { status: 400 },
+      );
+    }
+
+    if (!parseIp(ip.trim())) {
+      return Response.json(
+        { success: false, error: `Invalid IP address: ${ip}` },
+        { status: 400 },
+      );
+    }
+
+    let resolver: ResolverType;
+    let domain: string;
+    let helo: string;
+    try {
+      resolver = parseResolver(url.searchParams.get("resolver"));
+      const domainParam = url.searchParams.get("domain");
+      domain = domainParam ? checkName(domainParam, "domain") : "";
+      const heloParam = url.searchParams.get("helo");
+      helo = heloParam ? checkName(heloParam, "HELO name") : "";
+      // A sender without "@" is treated as postmaster@<sender>
+      if (sender) {
+        checkName(sender.slice(sender.lastIndexOf("@") + 1), "sender", sender);
+      }
+    } catch (err) {
+      if (!(err instanceof SpfRequestError)) throw err;
+      return Response.json(
+        { success: false, error: err.message },
+        { status: 400 },
+      );
+    }
+
+    if (!domain && !sender && !helo) {
+      return Response.json(
+        { success: false, error: "Domain, sender or HELO is required" },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const evaluation = await evaluateSpf({
+        ip,
+        domain,
+        sender,
+        helo,
+        resolver,
+      });
+
+      return Response.json({
+        success: true,
+        resolver,
+        evaluation,
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error
+        ? err.message
+        : "SPF evaluation failed";
+      return Response.json(
+        { success: false, error: errorMessage },
+        { status: 500 },
+      );
+    }
+  },
+});
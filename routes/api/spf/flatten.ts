@@ -0,0 +1,53 @@
+import { define } from "../../../utils.ts";
+import { flattenSpf } from "../../../lib/flatten.ts";
+import { checkSpf } from "../../../lib/spf.ts";
+import {
+  parseSpfRequest,
+  type SpfRequest,
+  SpfRequestError,
+} from "../../../lib/spf_request.ts";
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const url = new URL(ctx.req.url);
+    const keep = (url.searchParams.get("keep") || "")
+      .split(",")
+      .map((d) => d.trim().toLowerCase())
+      .filter(Boolean);
+
+    let request: SpfRequest;
+    try {
+      request = parseSpfRequest({
+        domain: url.searchParams.get("domain"),
+        resolver: url.searchParams.get("resolver"),
+      });
+    } catch (err) {
+      if (!(err instanceof SpfRequestError)) throw err;
+      return Response.json(
+        { success: false, error: err.message },
+        { status: 400 },
+      );
+    }
+
+    const { domain: cleanDomain, resolver } = request;
+
+    try {
+      const result = await checkSpf(cleanDomain, { resolver });
+      const flattened = flattenSpf(result, { keep });
+
+      return Response.json({
+        success: true,
+        resolver,
+        flattened,
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error
+        ? err.message
+        : "SPF flattening failed";
+      return Response.json(
+        { success: false, error: errorMessage },
+        { status: 500 },
+      );
+    }
+  },
+});
@@ -0,0 +1,47 @@
+import { define } from "../../../utils.ts";
+import { getHistory } from "../../../lib/history.ts";
+import { parseDomain, SpfRequestError } from "../../../lib/spf_request.ts";
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const url = new URL(ctx.req.url);
+    const limitParam = url.searchParams.get("limit") || "50";
+
+    const limit = Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+      return Response.json(
+        { success: false, error: "Limit must be between 1 and 500" },
+        { status: 400 },
+      );
+    }
+
+    let cleanDomain: string;
+    try {
+      cleanDomain = parseDomain(url.searchParams.get("domain"));
+    } catch (err) {
+      if (!(err instanceof SpfRequestError)) throw err;
+      return Response.json(
+        { success: false, error: err.message },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const history = await getHistory(cleanDomain, limit);
+
+      return Response.json({
+        success: true,
+        domain: cleanDomain,
+        history,
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error
+        ? err.message
+        : "History lookup failed";
+      return Response.json(
+        { success: false, error: errorMessage },
+        { status: 500 },
+      );
+    }
+  },
+});
@@ -0,0 +1,87 @@
+import { define } from "../../../utils.ts";
+import {
+  collectIpSet,
+  formatIpSetCsv,
+  formatIpSetText,
+  IP_SET_FORMATS,
+  type IpSetFormat,
+} from "../../../lib/ipset.ts";
+import { checkSpf } from "../../../lib/spf.ts";
+import {
+  parseSpfRequest,
+  type SpfRequest,
+  SpfRequestError,
+} from "../../../lib/spf_request.ts";
+
+export const handler = define.handlers({
+  async GET(ctx) {
+    const url = new URL(ctx.req.url);
+    const formatParam = url.searchParams.get("format") || "json";
+
+    if (!IP_SET_FORMATS.includes(formatParam as IpSetFormat)) {
+      return Response.json(
+        {
+          success: false,
+          error: `Invalid format: ${formatParam}. Valid options: ${
+            IP_SET_FORMATS.join(", ")
+          }`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const format = formatParam as IpSetFormat;
+
+    let request: SpfRequest;
+    try {
+      request = parseSpfRequest({
+        domain: url.searchParams.get("domain"),
+        resolver: url.searchParams.get("resolver"),
+      });
+    } catch (err) {
+      if (!(err instanceof SpfRequestError)) throw err;
+      return Response.json(
+        { success: false, error: err.message },
+        { status: 400 },
+      );
+    }
+
+    const { domain: cleanDomain, resolver } = request;
+
+    try {
+      const result = await checkSpf(cleanDomain, { resolver });
+      const ips = collectIpSet(result);
+
+      if (format === "text") {
+        return new Response(formatIpSetText(ips), {
+          headers: { "Content-Type": "text/plain; charset=utf-8" },
+        });
+      }
+
+      if (format === "csv") {
+        return new Response(formatIpSetCsv(ips), {
+          headers: {
+            "Content-Type": "text/csv; charset=utf-8",
+            "Content-Disposition":
+              `attachment; filename="${cleanDomain}-spf-ips.csv"`,
+          },
+        });
+      }
+
+      return Response.json({
+        success: true,
+        resolver,
+        ips,
+        issues: result.issues,
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error
+        ? err.message
+        : "SPF lookup failed";
+      return Response.json(
+        { success: false, error: errorMessage },
+        { status: 500 },
+      );
+    }
+  },
+});
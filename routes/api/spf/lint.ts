@@ -0,0 +1,94 @@
+import { define } from "../../../utils.ts";
+import { checkSpf } from "../../../lib/spf.ts";
+import {
+  parseSpfRequest,
+  type SpfRequest,
+  SpfRequestError,
+} from "../../../lib/spf_request.ts";
+
+interface LintRequest {
+  /** Raw record text, e.g. "v=spf1 include:_spf.example.com -all" */
+  record?: unknown;
+  /** Domain the record would be published at (default example.com) */
+  domain?: unknown;
+  /** Hypothetical records for include/redirect targets, by domain */
+  includes?: unknown;
+  resolver?: unknown;
+}
+
+function isRecordMap(value: unknown): value is Record<string, string> {
+  return typeof value === "object" && value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((v) => typeof v === "string");
+}
+
+export const handler = define.handlers({
+  async POST(ctx) {
+    let body: LintRequest;
+    try {
+      body = await ctx.req.json();
+    } catch {
+      return Response.json(
+        { success: false, error: "Request body must be JSON" },
+        { status: 400 },
+      );
+    }
+
+    if (typeof body.record !== "string" || !body.record.trim()) {
+      return Response.json(
+        { success: false, error: "Record is required" },
+        { status: 400 },
+      );
+    }
+
+    if (body.includes !== undefined && !isRecordMap(body.includes)) {
+      return Response.json(
+        {
+          success: false,
+          error: "Includes must map domain names to record strings",
+        },
+        { status: 400 },
+      );
+    }
+
+    let request: SpfRequest;
+    try {
+      request = parseSpfRequest({
+        domain: typeof body.domain === "string" && body.domain.trim()
+          ? body.domain
+          : "example.com",
+        resolver: typeof body.resolver === "string" ? body.resolver : null,
+      });
+    } catch (err) {
+      if (!(err instanceof SpfRequestError)) throw err;
+      return Response.json(
+        { success: false, error: err.message },
+        { status: 400 },
+      );
+    }
+
+    const { domain: cleanDomain, resolver } = request;
+
+    try {
+      // Include targets without a hypothetical record are looked up live
+      const result = await checkSpf(cleanDomain, {
+        resolver,
+        records: { ...body.includes, [cleanDomain]: body.record },
+      });
+
+      return Response.json({
+        success: true,
+        resolver,
+        result,
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error
+        ? err.message
+        : "SPF lint failed";
+      return Response.json(
+        { success: false, error: errorMessage },
+        { status: 500 },
+      );
+    }
+  },
+});
@@ -0,0 +1,128 @@
+import { define } from "../../../utils.ts";
+import { checkSpf, spfResolver } from "../../../lib/spf.ts";
+import { simulateSpf } from "../../../lib/spf/mod.ts";
+import {
+  parseSpfRequest,
+  type SpfRequest,
+  SpfRequestError,
+} from "../../../lib/spf_request.ts";
+
+interface SimulateRequest {
+  /** Hypothetical records to check instead of DNS, by domain, as for lint */
+  records?: unknown;
+  remove?: unknown;
+  add?: unknown;
+}
+
+function isRecordMap(value: unknown): value is Record<string, string> {
+  return typeof value === "object" && value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((v) => typeof v === "string");
+}
+
+function domainList(value: unknown): string[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return null;
+  const domains = value.map((domain) =>
+    typeof domain === "string" ? domain.trim().toLowerCase() : ""
+  );
+  return domains.every((domain) =>
+      /^[a-z0-9_]([a-z0-9_.-]*[a-z0-9])?$/.test(domain)
+    )
+    ? domains
+    : null;
+}
+
+export const handler = define.handlers({
+  async POST(ctx) {
+    const url = new URL(ctx.req.url);
+
+    let request: SpfRequest;
+    try {
+      request = parseSpfRequest({
+        domain: url.searchParams.get("domain"),
+        resolver: url.searchParams.get("resolver"),
+        ip: url.searchParams.get("ip"),
+        sender: url.searchParams.get("sender"),
+        helo: url.searchParams.get("helo"),
+      });
+    } catch (err) {
+      if (!(err instanceof SpfRequestError)) throw err;
+      return Response.json(
+        { success: false, error: err.message },
+        { status: 400 },
+      );
+    }
+
+    const { domain: cleanDomain, resolver, options } = request;
+
+    let body: SimulateRequest;
+    try {
+      body = await ctx.req.json();
+    } catch {
+      return Response.json(
+        { success: false, error: "Request body must be JSON" },
+        { status: 400 },
+      );
+    }
+
+    if (body.records !== undefined && !isRecordMap(body.records)) {
+      return Response.json(
+        {
+          success: false,
+          error: "Records must map domain names to record strings",
+        },
+        { status: 400 },
+      );
+    }
+
+    const remove = domainList(body.remove);
+    const add = domainList(body.add);
+    if (!remove || !add) {
+      return Response.json(
+        {
+          success: false,
+          error: "remove and add must be lists of include domains",
+        },
+        { status: 400 },
+      );
+    }
+
+    try {
+      // The tree is expanded here rather than taken from the client, so
+      // the simulation only replays answers this server received
+      const result = await checkSpf(cleanDomain, {
+        ...options,
+        records: body.records,
+      });
+      if (!result.record) {
+        return Response.json(
+          {
+            success: false,
+            error: `${cleanDomain} has no SPF record to change`,
+          },
+          { status: 400 },
+        );
+      }
+
+      const simulated = await simulateSpf(result, { remove, add }, {
+        resolver: spfResolver(resolver),
+        macro: options.macro,
+      });
+
+      return Response.json({
+        success: true,
+        resolver,
+        result: simulated,
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error
+        ? err.message
+        : "SPF simulation failed";
+      return Response.json(
+        { success: false, error: errorMessage },
+        { status: 500 },
+      );
+    }
+  },
+});
@@ -0,0 +1,80 @@
+import { define } from "../../../utils.ts";
+import { recordSnapshot } from "../../../lib/history.ts";
+import { checkSpf } from "../../../lib/spf.ts";
+import {
+  parseSpfRequest,
+  type SpfRequest,
+  SpfRequestError,
+} from "../../../lib/spf_request.ts";
+
+export const handler = define.handlers({
+  GET(ctx) {
+    const url = new URL(ctx.req.url);
+    let request: SpfRequest;
+    try {
+      request = parseSpfRequest({
+        domain: url.searchParams.get("domain"),
+        resolver: url.searchParams.get("resolver"),
+        ip: url.searchParams.get("ip"),
+        sender: url.searchParams.get("sender"),
+        helo: url.searchParams.get("helo"),
+      });
+    } catch (err) {
+      if (!(err instanceof SpfRequestError)) throw err;
+      return Response.json(
+        { success: false, error: err.message },
+        { status: 400 },
+      );
+    }
+
+    const { domain, resolver, options } = request;
+    const encoder = new TextEncoder();
+    let cancelled = false;
+    // A "fetched", "parsed" or "failed" event per node of the tree as it's
+    // expanded, then "result" with the whole tree (or "failure"; an event
+    // named "error" would reach EventSource clients as a connection error)
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (cancelled) return;
+          controller.enqueue(
+            encoder.encode(
+              `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`,
+            ),
+          );
+        };
+
+        try {
+          const result = await checkSpf(domain, {
+            ...options,
+            onProgress: (progress) => send(progress.type, progress),
+          });
+
+          // Trees expanded for a sending host depend on it, so aren't kept
+          if (!options.macro) {
+            await recordSnapshot(result, resolver).catch((err) =>
+              console.error(`Failed to record SPF history: ${err}`)
+            );
+          }
+
+          send("result", { resolver, result });
+        } catch (err) {
+          send("failure", {
+            error: err instanceof Error ? err.message : "SPF lookup failed",
+          });
+        }
+        if (!cancelled) controller.close();
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-store",
+      },
+    });
+  },
+});
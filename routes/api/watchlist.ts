@@ -0,0 +1,123 @@
+import { define } from "../../utils.ts";
+import {
+  addWatch,
+  listWatches,
+  removeWatch,
+  watchlistAuthorized,
+} from "../../lib/watchlist.ts";
+import {
+  parseDomain,
+  parseSpfRequest,
+  type SpfRequest,
+  SpfRequestError,
+} from "../../lib/spf_request.ts";
+
+interface WatchRequest {
+  domain?: unknown;
+  resolver?: unknown;
+}
+
+export const handler = define.handlers({
+  async GET() {
+    try {
+      const watches = await listWatches();
+      return Response.json({ success: true, watches });
+    } catch (err) {
+      const errorMessage = err instanceof Error
+        ? err.message
+        : "Watchlist lookup failed";
+      return Response.json(
+        { success: false, error: errorMessage },
+        { status: 500 },
+      );
+    }
+  },
+
+  async POST(ctx) {
+    if (!watchlistAuthorized(ctx.req)) {
+      return Response.json(
+        { success: false, error: "A valid watchlist token is required" },
+        { status: 401, headers: { "WWW-Authenticate": "Bearer" } },
+      );
+    }
+
+    let body: WatchRequest;
+    try {
+      body = await ctx.req.json();
+    } catch {
+      return Response.json(
+        { success: false, error: "Request body must be JSON" },
+        { status: 400 },
+      );
+    }
+
+    let request: SpfRequest;
+    try {
+      request = parseSpfRequest({
+        domain: typeof body.domain === "string" ? body.domain : null,
+        resolver: typeof body.resolver === "string" ? body.resolver : null,
+      });
+    } catch (err) {
+      if (!(err instanceof SpfRequestError)) throw err;
+      return Response.json(
+        { success: false, error: err.message },
+        { status: 400 },
+      );
+    }
+
+    const { domain: cleanDomain, resolver } = request;
+
+    try {
+      const watch = await addWatch(cleanDomain, resolver);
+      return Response.json({ success: true, watch }, { status: 201 });
+    } catch (err) {
+      const errorMessage = err instanceof Error
+        ? err.message
+        : "Failed to add domain";
+      return Response.json(
+        { success: false, error: errorMessage },
+        { status: 500 },
+      );
+    }
+  },
+
+  async DELETE(ctx) {
+    if (!watchlistAuthorized(ctx.req)) {
+      return Response.json(
+        { success: false, error: "A valid watchlist token is required" },
+        { status: 401, headers: { "WWW-Authenticate": "Bearer" } },
+      );
+    }
+
+    const url = new URL(ctx.req.url);
+
+    let cleanDomain: string;
+    try {
+      cleanDomain = parseDomain(url.searchParams.get("domain"));
+    } catch (err) {
+      if (!(err instanceof SpfRequestError)) throw err;
+      return Response.json(
+        { success: false, error: err.message },
+        { status: 400 },
+      );
+    }
+
+    try {
+      if (!await removeWatch(cleanDomain)) {
+        return Response.json(
+          { success: false, error: `${cleanDomain} is not watched` },
+          { status: 404 },
+        );
+      }
+      return Response.json({ success: true });
+    } catch (err) {
+      const errorMessage = err instanceof Error
+        ? err.message
+        : "Failed to remove domain";
+      return Response.json(
+        { success: false, error: errorMessage },
+        { status: 500 },
+      );
+    }
+  },
+});
@@ -0,0 +1,26 @@
+import { define } from "../../../utils.ts";
+import { runWatchlist, watchlistAuthorized } from "../../../lib/watchlist.ts";
+
+export const handler = define.handlers({
+  async POST(ctx) {
+    if (!watchlistAuthorized(ctx.req)) {
+      return Response.json(
+        { success: false, error: "A valid watchlist token is required" },
+        { status: 401, headers: { "WWW-Authenticate": "Bearer" } },
+      );
+    }
+
+    try {
+      const checks = await runWatchlist();
+      return Response.json({ success: true, checks });
+    } catch (err) {
+      const errorMessage = err instanceof Error
+        ? err.message
+        : "Watchlist run failed";
+      return Response.json(
+        { success: false, error: errorMessage },
+        { status: 500 },
+      );
+    }
+  },
+});
@@ -15,7 +15,8 @@ export default define.page(function Home() {
           </h1>
           <p class="text-[#666] text-sm mb-8">
             Validate SPF records according to RFC 7208. Expands all include
-            lookups and checks DNS lookup count (max 10 allowed).
+            lookups and checks DNS lookup count (max 10 allowed).{" "}
+            <a href="/builder" class="text-[#111] underline">Build a record</a>
           </p>
           <SpfValidator />
         </div>